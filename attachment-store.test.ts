@@ -0,0 +1,67 @@
+/**
+ * @license
+ * SPDX-License-Identifier: Apache-2.0
+*/
+import 'fake-indexeddb/auto';
+import { IDBFactory } from 'fake-indexeddb';
+import { describe, expect, it, vi } from 'vitest';
+import { deleteAttachments, loadAttachment, restoreAttachment, saveAttachment } from './attachment-store';
+import { attachmentBytes, attachmentsToRestore, createBackup, readBackup } from './backup';
+import { deriveStoreKey, encryptBytes } from './secure-store';
+import { Patient, SummaryInput } from './types';
+
+const accountKey = (password: string) => deriveStoreKey(password, undefined, 1000);
+
+const patientWith = (input: SummaryInput): Patient => ({
+  id: 'patient-1',
+  name: 'Test Patient',
+  dob: '',
+  nhsNumber: '',
+  summaries: [{ summary: {}, timestamp: '2026-01-01T00:00:00.000Z', input }],
+});
+
+describe('attachments restored from another account', () => {
+  it('are stored separately from the original account', async () => {
+    const keyA = await accountKey('account a password');
+    const keyB = await accountKey('account b password');
+    const meta = await saveAttachment(new File(['discharge letter'], 'letter.txt', { type: 'text/plain' }), 'user-a', keyA);
+    const patient = patientWith({ text: 'Notes', attachments: [meta] });
+
+    const { blob } = await createBackup([patient], attachment => loadAttachment(attachment, 'user-a', keyA), 'backup passphrase');
+    const contents = await readBackup(new File([blob], 'backup.hxbackup'), 'backup passphrase');
+    for (const attachment of attachmentsToRestore(contents, contents.patients)) {
+      await restoreAttachment(attachment.meta, attachmentBytes(attachment), 'user-b', keyB);
+    }
+
+    expect(await (await loadAttachment(meta, 'user-a', keyA)).text()).toBe('discharge letter');
+    expect(await (await loadAttachment(meta, 'user-b', keyB)).text()).toBe('discharge letter');
+
+    // Deleting the restored copy leaves the original in place
+    await deleteAttachments([meta.id], 'user-b');
+    await expect(loadAttachment(meta, 'user-b', keyB)).rejects.toThrow('no longer stored');
+    expect(await (await loadAttachment(meta, 'user-a', keyA)).text()).toBe('discharge letter');
+  });
+});
+
+describe('the version 1 attachment store', () => {
+  it('is re-keyed by user with its attachments kept', async () => {
+    vi.resetModules();
+    globalThis.indexedDB = new IDBFactory();
+    const key = await accountKey('password');
+    const record = { id: 'att-1', userId: 'user-a', ...(await encryptBytes(new TextEncoder().encode('old scan').buffer as ArrayBuffer, key)) };
+    await new Promise<void>((resolve, reject) => {
+      const request = indexedDB.open('hx-attachments', 1);
+      request.onupgradeneeded = () => request.result.createObjectStore('blobs', { keyPath: 'id' }).put(record);
+      request.onsuccess = () => {
+        request.result.close();
+        resolve();
+      };
+      request.onerror = () => reject(request.error);
+    });
+
+    const store = await import('./attachment-store');
+    const meta = { id: 'att-1', name: 'scan.txt', mimeType: 'text/plain', size: 8 };
+    expect(await (await store.loadAttachment(meta, 'user-a', key)).text()).toBe('old scan');
+    await expect(store.loadAttachment(meta, 'user-b', key)).rejects.toThrow('no longer stored');
+  });
+});
@@ -0,0 +1,100 @@
+/**
+ * @license
+ * SPDX-License-Identifier: Apache-2.0
+*/
+import { StoreKey, decryptBytes, encryptBytes } from './secure-store';
+import { AttachmentMeta } from './types';
+
+// Uploaded documents kept with the summary they were used for. The bytes are too large for
+// localStorage, so they live in IndexedDB, encrypted with the signed-in user's store key.
+// Each record or draft owns its attachments; they are deleted with it. Attachments are keyed by
+// user as well as id, so a backup restored into another account never touches the original's copies.
+
+const DB_NAME = 'hx-attachments';
+const DB_VERSION = 2; // 1 keyed attachments by id alone
+const BLOB_STORE = 'blobs';
+
+interface StoredAttachment {
+  id: string;
+  userId: string;
+  iv: Uint8Array;
+  data: ArrayBuffer;
+}
+
+let dbPromise: Promise<IDBDatabase> | null = null;
+
+function openDatabase(): Promise<IDBDatabase> {
+  if (!dbPromise) {
+    dbPromise = new Promise((resolve, reject) => {
+      const request = indexedDB.open(DB_NAME, DB_VERSION);
+      request.onupgradeneeded = event => {
+        const db = request.result;
+        if (event.oldVersion < 1) {
+          db.createObjectStore(BLOB_STORE, { keyPath: ['userId', 'id'] });
+          return;
+        }
+        // Re-key the version 1 store, carrying its records over
+        const existing = request.transaction!.objectStore(BLOB_STORE).getAll();
+        existing.onsuccess = () => {
+          db.deleteObjectStore(BLOB_STORE);
+          const store = db.createObjectStore(BLOB_STORE, { keyPath: ['userId', 'id'] });
+          (existing.result as StoredAttachment[]).forEach(record => store.put(record));
+        };
+      };
+      request.onsuccess = () => resolve(request.result);
+      request.onerror = () => {
+        dbPromise = null;
+        reject(request.error);
+      };
+    });
+  }
+  return dbPromise;
+}
+
+async function runTransaction<T>(
+  mode: IDBTransactionMode,
+  operation: (store: IDBObjectStore) => IDBRequest<T> | void,
+): Promise<T | undefined> {
+  const db = await openDatabase();
+  return new Promise((resolve, reject) => {
+    const transaction = db.transaction(BLOB_STORE, mode);
+    const request = operation(transaction.objectStore(BLOB_STORE));
+    transaction.oncomplete = () => resolve(request ? request.result : undefined);
+    transaction.onerror = () => reject(transaction.error);
+    transaction.onabort = () => reject(transaction.error);
+  });
+}
+
+const newAttachmentId = () => `att-${Date.now().toString(36)}-${crypto.getRandomValues(new Uint32Array(1))[0].toString(36)}`;
+
+async function putAttachment(id: string, bytes: ArrayBuffer, userId: string, storeKey: StoreKey) {
+  const { iv, data } = await encryptBytes(bytes, storeKey);
+  const record: StoredAttachment = { id, userId, iv, data };
+  await runTransaction('readwrite', store => store.put(record));
+}
+
+export async function saveAttachment(file: File, userId: string, storeKey: StoreKey): Promise<AttachmentMeta> {
+  const id = newAttachmentId();
+  await putAttachment(id, await file.arrayBuffer(), userId, storeKey);
+  return { id, name: file.name, mimeType: file.type || 'application/octet-stream', size: file.size };
+}
+
+// Store an attachment under its existing id, e.g. when restoring a backup
+export function restoreAttachment(meta: AttachmentMeta, bytes: ArrayBuffer, userId: string, storeKey: StoreKey): Promise<void> {
+  return putAttachment(meta.id, bytes, userId, storeKey);
+}
+
+// Throws if the attachment is missing or cannot be decrypted with this key
+export async function loadAttachment(meta: AttachmentMeta, userId: string, storeKey: StoreKey): Promise<File> {
+  const record = await runTransaction<StoredAttachment>('readonly', store => store.get([userId, meta.id]));
+  if (!record) throw new Error(`Attachment "${meta.name}" is no longer stored on this device.`);
+  const bytes = await decryptBytes(record, storeKey);
+  return new File([bytes], meta.name, { type: meta.mimeType });
+}
+
+export async function deleteAttachments(ids: string[], userId: string): Promise<void> {
+  if (ids.length === 0) return;
+  await runTransaction('readwrite', store => {
+    ids.forEach(id => store.delete([userId, id]));
+  });
+}
@@ -1 +1,12 @@
-export const AUTH_PASSWORD = "9118";
+// Local account settings. Credentials themselves are never shipped in the bundle:
+// each user's password is stored only as a salted PBKDF2 hash in this browser.
+export const AUTH_CONFIG = {
+  minPasswordLength: 8,
+  passwordHashIterations: 310000,
+  usersStorageKey: 'hx_users',
+  lastUserStorageKey: 'hx_last_user',
+  // Defaults for the per-user session settings
+  idleTimeoutMinutes: 10,
+  maxSessionHours: 8,
+  lockShortcutLabel: 'Ctrl+Shift+L',
+};
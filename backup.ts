@@ -0,0 +1,240 @@
+/**
+ * @license
+ * SPDX-License-Identifier: Apache-2.0
+*/
+import { EncryptedEnvelope, base64ToBytes, bytesToBase64, decryptJson, deriveKeyForEnvelope, deriveStoreKey, encryptJson, hasSupportedKdf, isEncryptedEnvelope } from './secure-store';
+import { isRecord, migratePatient } from './patient-repository';
+import { patientAttachmentIds } from './summary-review';
+import { AttachmentMeta, PATIENT_SCHEMA_VERSION, Patient } from './types';
+
+// Full backups of a user's patients and their stored documents. The archive is a single
+// JSON file whose contents are encrypted with a key derived from a backup passphrase,
+// independent of the account password, so it can be restored into any account.
+
+export const BACKUP_FILE_EXTENSION = '.hxbackup';
+
+interface BackupFile {
+  format: 'hx-backup';
+  version: 1;
+  createdAt: string;
+  envelope: EncryptedEnvelope;
+}
+
+export interface BackupAttachment {
+  meta: AttachmentMeta;
+  data: string; // base64
+}
+
+export interface BackupContents {
+  schemaVersion: number;
+  exportedAt: string;
+  patients: Patient[];
+  attachments: BackupAttachment[];
+}
+
+export class BackupError extends Error {}
+
+// Bundle patients and the documents they reference. Documents that can no longer be loaded are left out and counted.
+export async function createBackup(
+  patients: Patient[],
+  loadAttachment: (meta: AttachmentMeta) => Promise<File>,
+  passphrase: string,
+): Promise<{ blob: Blob; missingAttachments: number }> {
+  const attachments: BackupAttachment[] = [];
+  let missingAttachments = 0;
+  const metas = patients.flatMap(patient =>
+    [...patient.summaries, ...(patient.draft ? [patient.draft] : [])].flatMap(item => item.input?.attachments || [])
+  );
+  for (const meta of metas) {
+    try {
+      const file = await loadAttachment(meta);
+      attachments.push({ meta, data: bytesToBase64(new Uint8Array(await file.arrayBuffer())) });
+    } catch (err) {
+      console.error(`Attachment ${meta.id} could not be added to the backup`, err);
+      missingAttachments++;
+    }
+  }
+
+  const exportedAt = new Date().toISOString();
+  const contents: BackupContents = { schemaVersion: PATIENT_SCHEMA_VERSION, exportedAt, patients, attachments };
+  const file: BackupFile = {
+    format: 'hx-backup',
+    version: 1,
+    createdAt: exportedAt,
+    envelope: await encryptJson(contents, await deriveStoreKey(passphrase)),
+  };
+  return { blob: new Blob([JSON.stringify(file)], { type: 'application/json' }), missingAttachments };
+}
+
+// --- Validation ---
+
+const isString = (value: unknown): value is string => typeof value === 'string';
+const isStringArray = (value: unknown) => Array.isArray(value) && value.every(isString);
+
+function validatePatient(patient: unknown, path: string, errors: string[]) {
+  if (!isRecord(patient)) {
+    errors.push(`${path} is not an object.`);
+    return;
+  }
+  (['id', 'name', 'dob', 'nhsNumber'] as const).forEach(field => {
+    if (!isString(patient[field])) errors.push(`${path}.${field} must be text.`);
+  });
+  if (!Array.isArray(patient.summaries)) {
+    errors.push(`${path}.summaries must be a list.`);
+    return;
+  }
+  patient.summaries.forEach((record: unknown, index: number) => {
+    const recordPath = `${path}.summaries[${index}]`;
+    if (!isRecord(record) || !isRecord(record.summary)) {
+      errors.push(`${recordPath} has no summary.`);
+      return;
+    }
+    if (!isString(record.timestamp) || isNaN(Date.parse(record.timestamp))) {
+      errors.push(`${recordPath}.timestamp is not a valid date.`);
+    }
+    // Sections depend on the record's template, so any are accepted as long as each is a list of text
+    Object.entries(record.summary).forEach(([section, value]) => {
+      if (!isStringArray(value)) {
+        errors.push(`${recordPath}.summary["${section}"] must be a list of text items.`);
+      }
+    });
+  });
+  if (patient.draft !== undefined && (!isRecord(patient.draft) || !isRecord(patient.draft.sections))) {
+    errors.push(`${path}.draft is malformed.`);
+  }
+  if (patient.referrals !== undefined) {
+    if (!Array.isArray(patient.referrals)) {
+      errors.push(`${path}.referrals must be a list.`);
+      return;
+    }
+    patient.referrals.forEach((referral: unknown, index: number) => {
+      if (!isRecord(referral) || !isString(referral.id) || !isString(referral.body) || !isString(referral.updatedAt)) {
+        errors.push(`${path}.referrals[${index}] is malformed.`);
+      }
+    });
+  }
+}
+
+// Check decrypted contents before anything is written. Throws BackupError listing the first problems found.
+export function validateBackupContents(data: unknown): BackupContents {
+  if (!isRecord(data) || !Array.isArray(data.patients) || !Array.isArray(data.attachments)) {
+    throw new BackupError('The backup does not contain a patient list.');
+  }
+  const { schemaVersion } = data;
+  if (typeof schemaVersion !== 'number' || schemaVersion > PATIENT_SCHEMA_VERSION) {
+    throw new BackupError('The backup was made by a newer version of this app and cannot be restored here.');
+  }
+
+  const errors: string[] = [];
+  const patients: Patient[] = [];
+  data.patients.forEach((raw: unknown, index: number) => {
+    try {
+      const patient = migratePatient(raw, schemaVersion);
+      validatePatient(patient, `patients[${index}]`, errors);
+      patients.push(patient);
+    } catch {
+      errors.push(`patients[${index}] could not be upgraded to the current format.`);
+    }
+  });
+  const ids = patients.map(patient => patient.id);
+  if (new Set(ids).size !== ids.length) {
+    errors.push('The backup contains more than one patient with the same id.');
+  }
+  const attachments: BackupAttachment[] = [];
+  data.attachments.forEach((attachment: unknown, index: number) => {
+    if (!isRecord(attachment) || !isRecord(attachment.meta) || !isString(attachment.meta.id) || !isString(attachment.meta.name) || !isString(attachment.data)) {
+      errors.push(`attachments[${index}] is malformed.`);
+      return;
+    }
+    attachments.push(attachment as unknown as BackupAttachment);
+  });
+
+  if (errors.length > 0) {
+    const more = errors.length > 5 ? ` (and ${errors.length - 5} more)` : '';
+    throw new BackupError(`The backup failed validation: ${errors.slice(0, 5).join(' ')}${more}`);
+  }
+  return { schemaVersion: PATIENT_SCHEMA_VERSION, exportedAt: String(data.exportedAt), patients, attachments };
+}
+
+// Decrypt and validate a backup file. Throws BackupError for a wrong passphrase or invalid contents.
+export async function readBackup(file: File, passphrase: string): Promise<BackupContents> {
+  let parsed: BackupFile;
+  try {
+    parsed = JSON.parse(await file.text());
+  } catch {
+    throw new BackupError('This file is not a backup created by this app.');
+  }
+  if (parsed?.format !== 'hx-backup' || !isEncryptedEnvelope(parsed.envelope)) {
+    throw new BackupError('This file is not a backup created by this app.');
+  }
+  if (!hasSupportedKdf(parsed.envelope)) {
+    throw new BackupError('The backup uses encryption settings this app does not support.');
+  }
+
+  let data: unknown;
+  try {
+    data = await decryptJson(parsed.envelope, await deriveKeyForEnvelope(passphrase, parsed.envelope));
+  } catch {
+    throw new BackupError('The backup could not be decrypted with this passphrase.');
+  }
+  return validateBackupContents(data);
+}
+
+export const attachmentBytes = (attachment: BackupAttachment) => base64ToBytes(attachment.data).buffer as ArrayBuffer;
+
+// --- Conflicts and merging ---
+
+// The most recent change recorded on a patient: a summary, its approval, a pending draft or a referral
+export function lastModified(patient: Patient): string {
+  const times = [
+    ...patient.summaries.flatMap(record => [record.timestamp, record.approval?.approvedAt]),
+    patient.draft?.timestamp,
+    ...(patient.referrals || []).map(referral => referral.updatedAt),
+  ].filter((time): time is string => !!time);
+  return times.sort().pop() || '';
+}
+
+export type ConflictChoice = 'local' | 'backup';
+
+// A patient present both on this device and in the backup, with different contents
+export interface BackupConflict {
+  patientId: string;
+  name: string;
+  localModified: string;
+  backupModified: string;
+  newer: ConflictChoice;
+}
+
+export function findConflicts(local: Patient[], incoming: Patient[]): BackupConflict[] {
+  const localById = new Map(local.map(patient => [patient.id, patient]));
+  return incoming.flatMap(patient => {
+    const existing = localById.get(patient.id);
+    if (!existing || JSON.stringify(existing) === JSON.stringify(patient)) return [];
+    const localModified = lastModified(existing);
+    const backupModified = lastModified(patient);
+    return [{
+      patientId: patient.id,
+      name: existing.name,
+      localModified,
+      backupModified,
+      newer: backupModified > localModified ? 'backup' : 'local',
+    }];
+  });
+}
+
+// Add new patients from the backup and resolve each conflict with the chosen side. Local-only patients are kept.
+export function mergePatients(local: Patient[], incoming: Patient[], choices: Record<string, ConflictChoice>): Patient[] {
+  const incomingById = new Map(incoming.map(patient => [patient.id, patient]));
+  const merged = local.map(patient => {
+    const fromBackup = incomingById.get(patient.id);
+    return fromBackup && choices[patient.id] === 'backup' ? fromBackup : patient;
+  });
+  const localIds = new Set(local.map(patient => patient.id));
+  return [...incoming.filter(patient => !localIds.has(patient.id)), ...merged];
+}
+
+// Only the documents the restored patients refer to need writing
+export function attachmentsToRestore(contents: BackupContents, patients: Patient[]): BackupAttachment[] {
+  const needed = new Set(patients.flatMap(patientAttachmentIds));
+  return contents.attachments.filter(attachment => needed.has(attachment.meta.id));
+}
@@ -0,0 +1,87 @@
+/**
+ * @license
+ * SPDX-License-Identifier: Apache-2.0
+*/
+import { DraftItem, StructuredResponse, SummaryItemOrigin, SummarySectionKey, SummarySource } from './types';
+
+// Provenance for generated summary items. The model returns every bullet with the id of the
+// source it came from and a verbatim quote; these helpers build the source list sent with the
+// prompt, split the cited response back into plain sections, and locate quotes for highlighting.
+
+export interface CitedItem {
+  text: string;
+  sourceId?: string;
+  quote?: string;
+}
+
+export type CitedResponse = Partial<Record<SummarySectionKey, (CitedItem | string)[]>>;
+
+export const NOTE_SOURCE_ID = 'note';
+export const PREVIOUS_SUMMARY_SOURCE_ID = 'previous-summary';
+
+export function buildSources(
+  noteText: string,
+  files: { name: string; text?: string; attachmentId?: string }[],
+  previousSummary?: StructuredResponse,
+): SummarySource[] {
+  const sources: SummarySource[] = [];
+  if (noteText.trim()) {
+    sources.push({ id: NOTE_SOURCE_ID, kind: 'note', label: 'Consultation note', text: noteText });
+  }
+  files.forEach((file, index) => {
+    sources.push({
+      id: `file-${index + 1}`,
+      kind: 'file',
+      label: file.name,
+      ...(file.text ? { text: file.text } : {}),
+      ...(file.attachmentId ? { attachmentId: file.attachmentId } : {}),
+    });
+  });
+  if (previousSummary) {
+    sources.push({ id: PREVIOUS_SUMMARY_SOURCE_ID, kind: 'previous-summary', label: 'Previous summary', text: JSON.stringify(previousSummary, null, 2) });
+  }
+  return sources;
+}
+
+// Instructions listing the source ids the model may cite
+export function describeSourcesForPrompt(sources: SummarySource[]): string {
+  const lines = sources.map(source => {
+    if (source.kind === 'file') return `- "${source.id}": attached document "${source.label}"`;
+    if (source.kind === 'previous-summary') return `- "${source.id}": the PREVIOUS SUMMARY below`;
+    return `- "${source.id}": the typed consultation note below`;
+  });
+  return `For every item, set "sourceId" to the source it is based on and "quote" to a short verbatim span (under 25 words) copied exactly from that source. Available sources:\n${lines.join('\n')}`;
+}
+
+// Split a (possibly partial) cited response into plain section text and draft items carrying their citations
+export function splitCitedResponse(response: CitedResponse, origin: SummaryItemOrigin = 'ai'): {
+  summary: Partial<StructuredResponse>;
+  items: Partial<Record<SummarySectionKey, DraftItem[]>>;
+} {
+  const summary: Partial<StructuredResponse> = {};
+  const items: Partial<Record<SummarySectionKey, DraftItem[]>> = {};
+  (Object.keys(response) as SummarySectionKey[]).forEach(key => {
+    const values = response[key];
+    if (!Array.isArray(values)) return;
+    const sectionItems: DraftItem[] = values
+      .map(value => (typeof value === 'string' ? { text: value } : value))
+      .filter((value): value is CitedItem => !!value && typeof value.text === 'string' && value.text.length > 0)
+      .map(({ text, sourceId, quote }) => ({
+        text,
+        origin,
+        ...(sourceId && quote ? { citation: { sourceId, quote } } : {}),
+      }));
+    items[key] = sectionItems;
+    summary[key] = sectionItems.map(item => item.text);
+  });
+  return { summary, items };
+}
+
+// Find a quote in source text, ignoring case and differences in whitespace. Returns [start, end) or null.
+export function findQuoteRange(text: string, quote: string): [number, number] | null {
+  const words = quote.trim().split(/\s+/).filter(Boolean);
+  if (words.length === 0) return null;
+  const escaped = words.map(word => word.replace(/[.*+?^${}()|[\]\\]/g, '\\$&'));
+  const match = new RegExp(escaped.join('\\s+'), 'i').exec(text);
+  return match ? [match.index, match.index + match[0].length] : null;
+}
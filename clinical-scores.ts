@@ -0,0 +1,478 @@
+/**
+ * @license
+ * SPDX-License-Identifier: Apache-2.0
+*/
+import { NEWS2_OBSERVATIONS, SUPPLEMENTAL_OXYGEN, isNegated } from './red-flags';
+import { Patient, SavedScore, SummaryRecord } from './types';
+import { CurrentUser } from './user-accounts';
+
+// Validated clinical scores, calculated locally. Each calculator pre-fills its inputs from the summary
+// and the original notes, quoting the text each value came from; the clinician confirms or corrects
+// every input before a score is saved against the summary. Nothing here is sent to a model.
+
+export type ScoreValue = boolean | number | string | null;
+
+export interface CalculatorInput {
+  id: string;
+  label: string;
+  type: 'boolean' | 'number' | 'choice';
+  options?: { value: string; label: string }[];
+  unit?: string;
+}
+
+// A pre-filled value and the text it was taken from
+export interface Prefill {
+  value: ScoreValue;
+  evidence: string;
+}
+
+export interface ScoreContext {
+  text: string;
+  age?: { value: number; evidence: string };
+}
+
+export interface ScoreResult {
+  score: number | null; // null for calculators that only gather inputs for an external tool
+  interpretation: string;
+}
+
+export interface ScoreCalculator {
+  id: string;
+  name: string;
+  description: string;
+  inputs: CalculatorInput[];
+  extract: (context: ScoreContext) => Record<string, Prefill>;
+  calculate: (values: Record<string, ScoreValue>) => ScoreResult;
+}
+
+// --- Extraction helpers ---
+
+const sentences = (text: string) => text.split(/[.;\n]/).map(sentence => sentence.trim()).filter(Boolean);
+
+const truncate = (text: string) => (text.length > 120 ? `${text.slice(0, 117)}...` : text);
+
+// The first sentence stating the finding, skipping negated mentions ("no cough")
+function findFinding(context: ScoreContext, pattern: RegExp): Prefill | undefined {
+  for (const sentence of sentences(context.text)) {
+    const match = pattern.exec(sentence);
+    if (match && !isNegated(sentence.slice(0, match.index))) return { value: true, evidence: truncate(sentence) };
+  }
+  return undefined;
+}
+
+function findNumber(context: ScoreContext, pattern: RegExp, group = 1): Prefill | undefined {
+  const match = pattern.exec(context.text);
+  return match ? { value: Number(match[group]), evidence: match[0].trim() } : undefined;
+}
+
+// A yes/no input derived from a measured value, e.g. "respiratory rate 30 or more" from "RR 32"
+const threshold = (measured: Prefill | undefined, test: (value: number) => boolean): Prefill | undefined =>
+  measured ? { value: test(measured.value as number), evidence: measured.evidence } : undefined;
+
+// Collect the pre-fills that were found, dropping the rest
+function prefills(entries: Record<string, Prefill | undefined>): Record<string, Prefill> {
+  return Object.fromEntries(Object.entries(entries).filter((entry): entry is [string, Prefill] => !!entry[1]));
+}
+
+const AGE_PATTERN = /\b(\d{1,3})\s*(?:-?\s*years?[- ]old|yo\b|y\/o|yrs?\b|\s?[mf]\b)/i;
+const SEX_PATTERN = /\b(?:\d{1,3}\s*(?:yo|y\/o|years?[- ]old)?\s*)?(male|female|man|woman|gentleman|lady|boy|girl)\b|\b\d{1,3}\s*([mf])\b/i;
+const BP_PATTERN = /\b(?:bp|blood\s*pressure)\s*(?:of|:|=|is|was)?\s*(\d{2,3})\s*\/\s*(\d{2,3})/i;
+
+const findAge = (context: ScoreContext): Prefill | undefined =>
+  context.age ? { value: context.age.value, evidence: context.age.evidence } : findNumber(context, AGE_PATTERN);
+
+function findSex(context: ScoreContext): Prefill | undefined {
+  const match = SEX_PATTERN.exec(context.text);
+  if (!match) return undefined;
+  const word = (match[1] || match[2]).toLowerCase();
+  const female = ['female', 'woman', 'lady', 'girl', 'f'].includes(word);
+  return { value: female ? 'female' : 'male', evidence: match[0].trim() };
+}
+
+const observation = (name: string) => NEWS2_OBSERVATIONS.find(candidate => candidate.name === name)!;
+const findObservation = (context: ScoreContext, name: string) => findNumber(context, observation(name).pattern);
+
+const SEX_INPUT: CalculatorInput = {
+  id: 'sex',
+  label: 'Sex',
+  type: 'choice',
+  options: [{ value: 'male', label: 'Male' }, { value: 'female', label: 'Female' }],
+};
+const AGE_INPUT: CalculatorInput = { id: 'age', label: 'Age', type: 'number', unit: 'years' };
+
+const yes = (value: ScoreValue) => value === true;
+const numberOr = (value: ScoreValue, fallback: number) => (typeof value === 'number' && !Number.isNaN(value) ? value : fallback);
+
+// Sum the points of the yes/no inputs that are ticked
+const sumPoints = (values: Record<string, ScoreValue>, points: Record<string, number>) =>
+  Object.entries(points).reduce((total, [id, value]) => total + (yes(values[id]) ? value : 0), 0);
+
+const CONFUSION_PATTERN = /\b(?:(?:new|acute|sudden)(?:[- ]onset)?\s+confusion|acutely confused|newly confused|delirium|not alert|responds? (?:only )?to (?:voice|pain)|unresponsive)\b/i;
+
+// --- Calculators ---
+
+const news2: ScoreCalculator = {
+  id: 'news2',
+  name: 'NEWS2',
+  description: 'National Early Warning Score 2 (RCP 2017), SpO2 scale 1.',
+  inputs: [
+    ...NEWS2_OBSERVATIONS.map((item): CalculatorInput => ({ id: item.name, label: item.name, type: 'number', unit: item.unit?.trim() })),
+    { id: 'oxygen', label: 'On supplemental oxygen', type: 'boolean' },
+    { id: 'confusion', label: 'New confusion or not alert (CVPU)', type: 'boolean' },
+  ],
+  extract: context => prefills({
+    ...Object.fromEntries(NEWS2_OBSERVATIONS.map(item => [item.name, findObservation(context, item.name)])),
+    oxygen: findFinding(context, SUPPLEMENTAL_OXYGEN),
+    confusion: findFinding(context, CONFUSION_PATTERN),
+  }),
+  calculate: values => {
+    const missing = NEWS2_OBSERVATIONS.filter(item => typeof values[item.name] !== 'number');
+    const parameterPoints = NEWS2_OBSERVATIONS
+      .filter(item => typeof values[item.name] === 'number')
+      .map(item => item.points(values[item.name] as number));
+    const points = [...parameterPoints, yes(values.oxygen) ? 2 : 0, yes(values.confusion) ? 3 : 0];
+    const score = points.reduce((total, value) => total + value, 0);
+    const interpretation = score >= 7
+      ? 'High clinical risk: emergency assessment by a critical care team.'
+      : score >= 5
+        ? 'Medium clinical risk: urgent clinical review.'
+        : points.includes(3)
+          ? 'Low-medium clinical risk (a single parameter scores 3): urgent review by a clinician.'
+          : 'Low clinical risk.';
+    return {
+      score,
+      interpretation: missing.length > 0 ? `${interpretation} Incomplete: ${missing.map(item => item.name).join(', ')} not entered.` : interpretation,
+    };
+  },
+};
+
+const chadsVasc: ScoreCalculator = {
+  id: 'cha2ds2-vasc',
+  name: 'CHA2DS2-VASc',
+  description: 'Stroke risk in atrial fibrillation (NICE NG196).',
+  inputs: [
+    { id: 'chf', label: 'Congestive heart failure or LV dysfunction', type: 'boolean' },
+    { id: 'hypertension', label: 'Hypertension', type: 'boolean' },
+    AGE_INPUT,
+    { id: 'diabetes', label: 'Diabetes', type: 'boolean' },
+    { id: 'stroke', label: 'Previous stroke, TIA or thromboembolism', type: 'boolean' },
+    { id: 'vascular', label: 'Vascular disease (MI, peripheral arterial disease, aortic plaque)', type: 'boolean' },
+    SEX_INPUT,
+  ],
+  extract: context => prefills({
+    chf: findFinding(context, /\b(?:heart failure|chf|ccf|lvsd|lv dysfunction|reduced ejection fraction)\b/i),
+    hypertension: findFinding(context, /\b(?:hypertension|htn|high blood pressure)\b/i),
+    age: findAge(context),
+    diabetes: findFinding(context, /\b(?:diabet\w*|t[12]dm|iddm|niddm)\b/i),
+    stroke: findFinding(context, /\b(?:stroke|tia|cva|transient ischaemic attack|thromboembol\w*|pulmonary embol\w*|dvt)\b/i),
+    vascular: findFinding(context, /\b(?:myocardial infarction|n?stemi|\bmi\b|peripheral arterial disease|pad|pvd|aortic plaque)\b/i),
+    sex: findSex(context),
+  }),
+  calculate: values => {
+    const age = numberOr(values.age, 0);
+    const female = values.sex === 'female';
+    const score = sumPoints(values, { chf: 1, hypertension: 1, diabetes: 1, stroke: 2, vascular: 1 })
+      + (age >= 75 ? 2 : age >= 65 ? 1 : 0)
+      + (female ? 1 : 0);
+    const riskFactors = score - (female ? 1 : 0);
+    const interpretation = riskFactors >= 2
+      ? 'Offer anticoagulation, taking bleeding risk into account.'
+      : riskFactors === 1
+        ? (female ? 'Offer anticoagulation, taking bleeding risk into account.' : 'Consider anticoagulation, taking bleeding risk into account.')
+        : 'Low risk: anticoagulation is not recommended.';
+    return { score, interpretation };
+  },
+};
+
+const orbit: ScoreCalculator = {
+  id: 'orbit',
+  name: 'ORBIT',
+  description: 'Bleeding risk on anticoagulation (NICE NG196).',
+  inputs: [
+    { id: 'anaemia', label: 'Low haemoglobin (<130 g/L men, <120 g/L women), haematocrit below range, or history of anaemia', type: 'boolean' },
+    AGE_INPUT,
+    { id: 'bleeding', label: 'Bleeding history (GI bleed, intracranial bleed, haemorrhagic stroke)', type: 'boolean' },
+    { id: 'renal', label: 'eGFR below 60 mL/min/1.73m²', type: 'boolean' },
+    { id: 'antiplatelet', label: 'Treatment with an antiplatelet', type: 'boolean' },
+  ],
+  extract: context => prefills({
+    anaemia: findFinding(context, /\b(?:anaemi\w*|anemi\w*|hb\s*(?:of|:|=)?\s*(?:[4-9]\d|1[01]\d)\b)/i),
+    age: findAge(context),
+    bleeding: findFinding(context, /\b(?:gi bleed\w*|haemorrhag\w*|hemorrhag\w*|haematemesis|melaena|intracranial bleed\w*|bleed(?:ing)? history)\b/i),
+    renal: findFinding(context, /\b(?:ckd\s*(?:stage\s*)?[345]|egfr\s*(?:of|:|=)?\s*[1-5]?\d(?!\d))/i),
+    antiplatelet: findFinding(context, /\b(?:aspirin|clopidogrel|ticagrelor|prasugrel|dipyridamole|antiplatelet)\b/i),
+  }),
+  calculate: values => {
+    const score = sumPoints(values, { anaemia: 2, bleeding: 2, renal: 1, antiplatelet: 1 }) + (numberOr(values.age, 0) > 74 ? 1 : 0);
+    const interpretation = score >= 4
+      ? 'High bleeding risk (8.1 bleeds per 100 patient-years). Review modifiable risk factors.'
+      : score === 3
+        ? 'Medium bleeding risk (4.7 bleeds per 100 patient-years).'
+        : 'Low bleeding risk (2.4 bleeds per 100 patient-years).';
+    return { score, interpretation };
+  },
+};
+
+const QRISK_FACTORS: { id: string; label: string; pattern: RegExp }[] = [
+  { id: 'diabetes', label: 'Diabetes (type 1 or 2)', pattern: /\b(?:diabet\w*|t[12]dm)\b/i },
+  { id: 'familyHistory', label: 'Angina or heart attack in a first-degree relative under 60', pattern: /\bfamily history\b[^.;\n]*\b(?:ihd|mi|heart attack|angina|cvd)\b/i },
+  { id: 'ckd', label: 'Chronic kidney disease (stage 3, 4 or 5)', pattern: /\bckd\s*(?:stage\s*)?[345]\b/i },
+  { id: 'af', label: 'Atrial fibrillation', pattern: /\b(?:atrial fibrillation|af)\b/i },
+  { id: 'bpTreatment', label: 'On blood pressure treatment', pattern: /\b(?:amlodipine|ramipril|lisinopril|losartan|candesartan|indapamide|bendroflumethiazide|antihypertensive\w*)\b/i },
+  { id: 'migraine', label: 'Migraine', pattern: /\bmigraine\w*\b/i },
+  { id: 'rheumatoidArthritis', label: 'Rheumatoid arthritis', pattern: /\b(?:rheumatoid arthritis|ra)\b/i },
+  { id: 'sle', label: 'Systemic lupus erythematosus', pattern: /\b(?:sle|systemic lupus)\b/i },
+  { id: 'severeMentalIllness', label: 'Severe mental illness', pattern: /\b(?:schizophreni\w*|bipolar|severe depression)\b/i },
+  { id: 'antipsychotic', label: 'On atypical antipsychotics', pattern: /\b(?:olanzapine|quetiapine|risperidone|aripiprazole|clozapine)\b/i },
+  { id: 'steroids', label: 'On regular steroid tablets', pattern: /\b(?:prednisolone|dexamethasone|hydrocortisone tablets)\b/i },
+  { id: 'erectileDysfunction', label: 'Erectile dysfunction', pattern: /\berectile dysfunction\b/i },
+];
+
+const qrisk: ScoreCalculator = {
+  id: 'qrisk',
+  name: 'QRISK3 inputs',
+  description: 'Gathers the QRISK3 inputs for entry into the QRISK3 calculator. The 10-year risk itself is not calculated here.',
+  inputs: [
+    AGE_INPUT,
+    SEX_INPUT,
+    {
+      id: 'smoking',
+      label: 'Smoking status',
+      type: 'choice',
+      options: ['Non-smoker', 'Ex-smoker', 'Light smoker (<10/day)', 'Moderate smoker (10-19/day)', 'Heavy smoker (20+/day)'].map(label => ({ value: label, label })),
+    },
+    { id: 'bmi', label: 'BMI', type: 'number', unit: 'kg/m²' },
+    { id: 'cholesterolRatio', label: 'Cholesterol/HDL ratio', type: 'number' },
+    { id: 'systolic', label: 'Systolic blood pressure', type: 'number', unit: 'mmHg' },
+    ...QRISK_FACTORS.map((factor): CalculatorInput => ({ id: factor.id, label: factor.label, type: 'boolean' })),
+  ],
+  extract: context => {
+    const smoker = findFinding(context, /\b(?:smok\w*|cigarettes?)\b/i);
+    const exSmoker = findFinding(context, /\b(?:ex-?smoker|former smoker|stopped smoking|quit smoking)\b/i);
+    const nonSmoker = /\b(?:non-?smoker|never smoked|does not smoke|doesn't smoke)\b/i.exec(context.text);
+    const smoking = exSmoker
+      ? { value: 'Ex-smoker', evidence: exSmoker.evidence }
+      : nonSmoker
+        ? { value: 'Non-smoker', evidence: nonSmoker[0] }
+        : smoker
+          ? { value: 'Light smoker (<10/day)', evidence: smoker.evidence }
+          : undefined;
+    return prefills({
+      age: findAge(context),
+      sex: findSex(context),
+      smoking,
+      bmi: findNumber(context, /\bbmi\s*(?:of|:|=|is)?\s*(\d{2}(?:\.\d)?)/i),
+      cholesterolRatio: findNumber(context, /\b(?:chol(?:esterol)?\s*\/\s*hdl|tc\s*:\s*hdl|cholesterol ratio)\s*(?:ratio)?\s*(?:of|:|=|is)?\s*(\d+(?:\.\d)?)/i),
+      systolic: findNumber(context, BP_PATTERN),
+      ...Object.fromEntries(QRISK_FACTORS.map(factor => [factor.id, findFinding(context, factor.pattern)])),
+    });
+  },
+  calculate: values => {
+    const missing = qrisk.inputs
+      .filter(input => input.type !== 'boolean' && (values[input.id] === null || values[input.id] === '' || values[input.id] === undefined))
+      .map(input => input.label.toLowerCase());
+    const factors = QRISK_FACTORS.filter(factor => yes(values[factor.id])).length;
+    return {
+      score: null,
+      interpretation: `${factors} additional risk factor${factors === 1 ? '' : 's'} recorded. Enter these inputs in the QRISK3 calculator for the 10-year cardiovascular risk; it does not apply to people with existing cardiovascular disease.${missing.length > 0 ? ` Still needed: ${missing.join(', ')}.` : ''}`,
+    };
+  },
+};
+
+const PREVIOUS_VTE_PATTERN = /\b(?:(?:previous|prior|history of|hx of)\s+(?:dvt|pe|vte|pulmonary embol\w*|deep vein thrombosis)|(?:dvt|pe|vte)\s+(?:19|20)\d\d)\b/i;
+const MALIGNANCY_PATTERN = /\b(?:cancer|malignan\w*|metasta\w*|chemotherapy|palliative)\b/i;
+const IMMOBILISATION_PATTERN = /\b(?:immobilis\w*|immobiliz\w*|bed[- ]?bound|bedridden|recent surgery|post[- ]?op\w*|operation)\b/i;
+
+const wellsPe: ScoreCalculator = {
+  id: 'wells-pe',
+  name: 'Wells (PE)',
+  description: 'Two-level Wells score for suspected pulmonary embolism (NICE NG158).',
+  inputs: [
+    { id: 'dvtSigns', label: 'Clinical signs and symptoms of DVT', type: 'boolean' },
+    { id: 'peLikely', label: 'An alternative diagnosis is less likely than PE', type: 'boolean' },
+    { id: 'tachycardia', label: 'Heart rate over 100', type: 'boolean' },
+    { id: 'immobilisation', label: 'Immobilisation for 3+ days or surgery in the previous 4 weeks', type: 'boolean' },
+    { id: 'previousVte', label: 'Previous DVT or PE', type: 'boolean' },
+    { id: 'haemoptysis', label: 'Haemoptysis', type: 'boolean' },
+    { id: 'malignancy', label: 'Malignancy (treated within 6 months or palliative)', type: 'boolean' },
+  ],
+  extract: context => prefills({
+    dvtSigns: findFinding(context, /\b(?:(?:calf|leg) (?:swelling|tenderness)|swollen (?:calf|leg)|signs of (?:a )?dvt)\b/i),
+    tachycardia: threshold(findObservation(context, 'Pulse'), pulse => pulse > 100),
+    immobilisation: findFinding(context, IMMOBILISATION_PATTERN),
+    previousVte: findFinding(context, PREVIOUS_VTE_PATTERN),
+    haemoptysis: findFinding(context, /\b(?:haemoptysis|hemoptysis|coughing (?:up )?blood)\b/i),
+    malignancy: findFinding(context, MALIGNANCY_PATTERN),
+  }),
+  calculate: values => {
+    const score = sumPoints(values, { dvtSigns: 3, peLikely: 3, tachycardia: 1.5, immobilisation: 1.5, previousVte: 1.5, haemoptysis: 1, malignancy: 1 });
+    return {
+      score,
+      interpretation: score > 4
+        ? 'PE likely: arrange an immediate CTPA, with interim anticoagulation if it is delayed.'
+        : 'PE unlikely: arrange a D-dimer test; if positive, a CTPA.',
+    };
+  },
+};
+
+const wellsDvt: ScoreCalculator = {
+  id: 'wells-dvt',
+  name: 'Wells (DVT)',
+  description: 'Two-level Wells score for suspected deep vein thrombosis (NICE NG158).',
+  inputs: [
+    { id: 'cancer', label: 'Active cancer (treatment ongoing, within 6 months, or palliative)', type: 'boolean' },
+    { id: 'paralysis', label: 'Paralysis, paresis or recent plaster cast of the leg', type: 'boolean' },
+    { id: 'bedridden', label: 'Bedridden for 3+ days or major surgery within 12 weeks', type: 'boolean' },
+    { id: 'tenderness', label: 'Localised tenderness along the deep venous system', type: 'boolean' },
+    { id: 'legSwollen', label: 'Entire leg swollen', type: 'boolean' },
+    { id: 'calfSwelling', label: 'Calf swelling 3 cm or more than the other leg', type: 'boolean' },
+    { id: 'pittingOedema', label: 'Pitting oedema confined to the symptomatic leg', type: 'boolean' },
+    { id: 'collateralVeins', label: 'Collateral superficial veins (non-varicose)', type: 'boolean' },
+    { id: 'previousDvt', label: 'Previously documented DVT', type: 'boolean' },
+    { id: 'alternative', label: 'An alternative diagnosis is at least as likely as DVT', type: 'boolean' },
+  ],
+  extract: context => prefills({
+    cancer: findFinding(context, MALIGNANCY_PATTERN),
+    paralysis: findFinding(context, /\b(?:paralys\w*|pare(?:sis|tic)|plaster cast|(?:leg|ankle) (?:in a )?cast)\b/i),
+    bedridden: findFinding(context, IMMOBILISATION_PATTERN),
+    tenderness: findFinding(context, /\btender(?:ness)? (?:along|over) (?:the )?(?:deep vein|calf|thigh)\w*/i),
+    legSwollen: findFinding(context, /\b(?:whole|entire) leg (?:is )?swollen|swelling of the (?:whole|entire) leg\b/i),
+    calfSwelling: findFinding(context, /\bcalf (?:swelling|circumference)\b/i),
+    pittingOedema: findFinding(context, /\bpitting (?:o)?edema\b/i),
+    previousDvt: findFinding(context, PREVIOUS_VTE_PATTERN),
+  }),
+  calculate: values => {
+    const score = sumPoints(values, {
+      cancer: 1, paralysis: 1, bedridden: 1, tenderness: 1, legSwollen: 1, calfSwelling: 1, pittingOedema: 1, collateralVeins: 1, previousDvt: 1, alternative: -2,
+    });
+    return {
+      score,
+      interpretation: score >= 2
+        ? 'DVT likely: proximal leg vein ultrasound within 4 hours, with interim anticoagulation if it is delayed.'
+        : 'DVT unlikely: arrange a D-dimer test; if positive, a proximal leg vein ultrasound.',
+    };
+  },
+};
+
+const curb65: ScoreCalculator = {
+  id: 'curb-65',
+  name: 'CURB-65',
+  description: 'Severity of community-acquired pneumonia (NICE NG138). Without a urea result this is CRB-65.',
+  inputs: [
+    { id: 'confusion', label: 'New confusion', type: 'boolean' },
+    { id: 'urea', label: 'Urea over 7 mmol/L', type: 'boolean' },
+    { id: 'respiratoryRate', label: 'Respiratory rate 30 or more', type: 'boolean' },
+    { id: 'bloodPressure', label: 'Systolic BP below 90 or diastolic 60 or less', type: 'boolean' },
+    AGE_INPUT,
+  ],
+  extract: context => {
+    const bp = findNumber(context, BP_PATTERN);
+    const diastolic = BP_PATTERN.exec(context.text);
+    return prefills({
+      confusion: findFinding(context, CONFUSION_PATTERN),
+      urea: threshold(findNumber(context, /\burea\s*(?:of|:|=|is|was)?\s*(\d+(?:\.\d)?)/i), urea => urea > 7),
+      respiratoryRate: threshold(findObservation(context, 'Respiration rate'), rate => rate >= 30),
+      bloodPressure: bp && diastolic ? { value: (bp.value as number) < 90 || Number(diastolic[2]) <= 60, evidence: bp.evidence } : undefined,
+      age: findAge(context),
+    });
+  },
+  calculate: values => {
+    const score = sumPoints(values, { confusion: 1, urea: 1, respiratoryRate: 1, bloodPressure: 1 }) + (numberOr(values.age, 0) >= 65 ? 1 : 0);
+    const interpretation = score >= 3
+      ? 'High risk: urgent hospital admission; consider critical care assessment.'
+      : score === 2
+        ? 'Moderate risk: consider hospital-based care.'
+        : 'Low risk: consider home-based care.';
+    return { score, interpretation };
+  },
+};
+
+const centor: ScoreCalculator = {
+  id: 'centor',
+  name: 'Centor',
+  description: 'Likelihood of streptococcal sore throat (NICE NG84).',
+  inputs: [
+    { id: 'exudate', label: 'Tonsillar exudate', type: 'boolean' },
+    { id: 'nodes', label: 'Tender anterior cervical lymphadenopathy', type: 'boolean' },
+    { id: 'fever', label: 'History of fever', type: 'boolean' },
+    { id: 'noCough', label: 'Absence of cough', type: 'boolean' },
+  ],
+  extract: context => {
+    // Absence of cough is itself usually written as a negation ("no cough")
+    const coughAbsent = /\b(?:no|denies|nil|without)\s+(?:\w+\s+){0,2}cough\b/i.exec(context.text);
+    const cough = findFinding(context, /\bcough\w*\b/i);
+    return prefills({
+      exudate: findFinding(context, /\b(?:exudat\w*|pus on (?:the )?tonsils)\b/i),
+      nodes: findFinding(context, /\b(?:cervical (?:lymph)?aden\w*|lymphadenopathy|tender (?:neck|cervical) (?:nodes|glands))\b/i),
+      fever: findFinding(context, /\b(?:fever\w*|pyrexi\w*|febrile|temp(?:erature)?\s*(?:of|:)?\s*3[89](?:\.\d)?)\b/i),
+      noCough: coughAbsent ? { value: true, evidence: coughAbsent[0] } : cough ? { value: false, evidence: cough.evidence } : undefined,
+    });
+  },
+  calculate: values => {
+    const score = sumPoints(values, { exudate: 1, nodes: 1, fever: 1, noCough: 1 });
+    return {
+      score,
+      interpretation: score >= 3
+        ? 'Centor 3-4: 32-56% chance of streptococcal infection. Consider an immediate antibiotic or a back-up prescription.'
+        : 'Centor 0-2: 3-17% chance of streptococcal infection. An antibiotic is not recommended.',
+    };
+  },
+};
+
+export const SCORE_CALCULATORS: ScoreCalculator[] = [news2, chadsVasc, orbit, qrisk, wellsPe, wellsDvt, curb65, centor];
+
+// --- Context and saving ---
+
+// Age in whole years on a given date
+export function ageOn(dob: string, on: string): number | undefined {
+  const birth = new Date(dob);
+  const at = new Date(on);
+  if (Number.isNaN(birth.getTime()) || Number.isNaN(at.getTime())) return undefined;
+  const hadBirthday = at.getMonth() > birth.getMonth() || (at.getMonth() === birth.getMonth() && at.getDate() >= birth.getDate());
+  return at.getFullYear() - birth.getFullYear() - (hadBirthday ? 0 : 1);
+}
+
+// Everything the calculators may pre-fill from: the original notes, the summary sections and the medication list
+export function buildScoreContext(record: SummaryRecord, patient: Patient): ScoreContext {
+  const sectionTexts = Object.values(record.summary).flatMap(items => (Array.isArray(items) ? items : []));
+  const medicationTexts = (record.medications || [])
+    .filter(medication => medication.status !== 'stopped')
+    .map(medication => `${medication.drug} ${medication.dose}`.trim());
+  const age = patient.dob ? ageOn(patient.dob, record.timestamp) : undefined;
+  return {
+    text: [record.input?.text || '', ...sectionTexts, ...medicationTexts].filter(Boolean).join('\n'),
+    ...(age !== undefined ? { age: { value: age, evidence: `Date of birth ${patient.dob}` } } : {}),
+  };
+}
+
+export const initialValue = (input: CalculatorInput): ScoreValue => (input.type === 'boolean' ? false : null);
+
+const formatValue = (input: CalculatorInput, value: ScoreValue): string => {
+  if (input.type === 'boolean') return value ? 'Yes' : 'No';
+  if (value === null || value === '') return 'Not entered';
+  if (input.type === 'choice') return input.options?.find(option => option.value === value)?.label || String(value);
+  return input.unit ? `${value} ${input.unit}` : String(value);
+};
+
+// The score as confirmed by the clinician, with every input recorded as it was when saved
+export function createSavedScore(
+  calculator: ScoreCalculator,
+  values: Record<string, ScoreValue>,
+  prefilled: Record<string, Prefill>,
+  clinician: CurrentUser,
+): SavedScore {
+  const { score, interpretation } = calculator.calculate(values);
+  return {
+    calculatorId: calculator.id,
+    name: calculator.name,
+    score,
+    interpretation,
+    inputs: calculator.inputs.map(input => ({
+      label: input.label,
+      value: formatValue(input, values[input.id] ?? initialValue(input)),
+      prefilled: !!prefilled[input.id] && prefilled[input.id].value === values[input.id],
+    })),
+    completedBy: { id: clinician.id, displayName: clinician.displayName },
+    completedAt: new Date().toISOString(),
+  };
+}
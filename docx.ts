@@ -0,0 +1,207 @@
+/**
+ * @license
+ * SPDX-License-Identifier: Apache-2.0
+*/
+
+// A minimal Word (.docx) writer for letters: paragraphs of plain, bold, italic and underlined text,
+// and bulleted or numbered lists. It writes the three Office Open XML parts a document needs and
+// packs them into an uncompressed zip, so nothing is sent anywhere to produce the file.
+
+export interface DocxRun {
+  text: string;
+  bold?: boolean;
+  italic?: boolean;
+  underline?: boolean;
+  lineBreak?: boolean; // A line break before the text
+}
+
+export interface DocxParagraph {
+  runs: DocxRun[];
+  align?: 'left' | 'center' | 'right';
+  listMarker?: string; // e.g. '•' or '2.'; the paragraph is indented as a list item
+  fontSize?: number; // Points
+  spaceAfter?: number; // Points
+}
+
+const DOCX_MIME_TYPE = 'application/vnd.openxmlformats-officedocument.wordprocessingml.document';
+
+// Characters XML 1.0 does not allow are dropped rather than escaped
+const escapeXml = (text: string) => text
+  .replace(/[^\x09\x0A\x0D\x20-\uD7FF\uE000-\uFFFD\u{10000}-\u{10FFFF}]/gu, '')
+  .replace(/&/g, '&amp;')
+  .replace(/</g, '&lt;')
+  .replace(/>/g, '&gt;')
+  .replace(/"/g, '&quot;');
+
+// Property elements must appear in the order the schema defines them
+function runXml(run: DocxRun, fontSize?: number): string {
+  const properties = [
+    run.bold ? '<w:b/>' : '',
+    run.italic ? '<w:i/>' : '',
+    fontSize ? `<w:sz w:val="${fontSize * 2}"/>` : '',
+    run.underline ? '<w:u w:val="single"/>' : '',
+  ].join('');
+  return `<w:r>${properties ? `<w:rPr>${properties}</w:rPr>` : ''}${run.lineBreak ? '<w:br/>' : ''}<w:t xml:space="preserve">${escapeXml(run.text)}</w:t></w:r>`;
+}
+
+function paragraphXml(paragraph: DocxParagraph): string {
+  const properties = [
+    `<w:spacing w:after="${(paragraph.spaceAfter ?? 8) * 20}"/>`,
+    paragraph.listMarker ? '<w:ind w:left="720" w:hanging="360"/>' : '',
+    paragraph.align && paragraph.align !== 'left' ? `<w:jc w:val="${paragraph.align}"/>` : '',
+  ].join('');
+  const runs = paragraph.listMarker ? [{ text: `${paragraph.listMarker}\t` }, ...paragraph.runs] : paragraph.runs;
+  return `<w:p><w:pPr>${properties}</w:pPr>${runs.map(run => runXml(run, paragraph.fontSize)).join('')}</w:p>`;
+}
+
+const documentXml = (paragraphs: DocxParagraph[]) => `<?xml version="1.0" encoding="UTF-8" standalone="yes"?>
+<w:document xmlns:w="http://schemas.openxmlformats.org/wordprocessingml/2006/main"><w:body>${paragraphs.map(paragraphXml).join('')}<w:sectPr><w:pgSz w:w="11906" w:h="16838"/><w:pgMar w:top="1134" w:right="1134" w:bottom="1134" w:left="1134" w:header="567" w:footer="567" w:gutter="0"/></w:sectPr></w:body></w:document>`;
+
+const CONTENT_TYPES_XML = `<?xml version="1.0" encoding="UTF-8" standalone="yes"?>
+<Types xmlns="http://schemas.openxmlformats.org/package/2006/content-types"><Default Extension="rels" ContentType="application/vnd.openxmlformats-package.relationships+xml"/><Default Extension="xml" ContentType="application/xml"/><Override PartName="/word/document.xml" ContentType="application/vnd.openxmlformats-officedocument.wordprocessingml.document.main+xml"/></Types>`;
+
+const RELATIONSHIPS_XML = `<?xml version="1.0" encoding="UTF-8" standalone="yes"?>
+<Relationships xmlns="http://schemas.openxmlformats.org/package/2006/relationships"><Relationship Id="rId1" Type="http://schemas.openxmlformats.org/officeDocument/2006/relationships/officeDocument" Target="word/document.xml"/></Relationships>`;
+
+const CRC_TABLE = Array.from({ length: 256 }, (_, n) => {
+  let c = n;
+  for (let k = 0; k < 8; k++) c = c & 1 ? 0xEDB88320 ^ (c >>> 1) : c >>> 1;
+  return c >>> 0;
+});
+
+function crc32(bytes: Uint8Array): number {
+  let crc = 0xFFFFFFFF;
+  for (const byte of bytes) crc = CRC_TABLE[(crc ^ byte) & 0xFF] ^ (crc >>> 8);
+  return (crc ^ 0xFFFFFFFF) >>> 0;
+}
+
+// Store (no compression) each file in a zip archive
+function zipStored(files: { name: string; content: string }[]): Uint8Array {
+  const encoder = new TextEncoder();
+  const DOS_DATE = (1 << 5) | 1; // 1 January 1980
+  const localParts: Uint8Array[] = [];
+  const centralParts: Uint8Array[] = [];
+  let offset = 0;
+
+  files.forEach(file => {
+    const name = encoder.encode(file.name);
+    const data = encoder.encode(file.content);
+    const crc = crc32(data);
+    const local = new DataView(new ArrayBuffer(30));
+    local.setUint32(0, 0x04034B50, true);
+    local.setUint16(4, 20, true); // Version needed
+    local.setUint16(10, 0, true); // Time
+    local.setUint16(12, DOS_DATE, true);
+    local.setUint32(14, crc, true);
+    local.setUint32(18, data.length, true);
+    local.setUint32(22, data.length, true);
+    local.setUint16(26, name.length, true);
+    localParts.push(new Uint8Array(local.buffer), name, data);
+
+    const central = new DataView(new ArrayBuffer(46));
+    central.setUint32(0, 0x02014B50, true);
+    central.setUint16(4, 20, true); // Version made by
+    central.setUint16(6, 20, true); // Version needed
+    central.setUint16(14, DOS_DATE, true);
+    central.setUint32(16, crc, true);
+    central.setUint32(20, data.length, true);
+    central.setUint32(24, data.length, true);
+    central.setUint16(28, name.length, true);
+    central.setUint32(42, offset, true);
+    centralParts.push(new Uint8Array(central.buffer), name);
+
+    offset += 30 + name.length + data.length;
+  });
+
+  const centralSize = centralParts.reduce((total, part) => total + part.length, 0);
+  const end = new DataView(new ArrayBuffer(22));
+  end.setUint32(0, 0x06054B50, true);
+  end.setUint16(8, files.length, true);
+  end.setUint16(10, files.length, true);
+  end.setUint32(12, centralSize, true);
+  end.setUint32(16, offset, true);
+
+  const parts = [...localParts, ...centralParts, new Uint8Array(end.buffer)];
+  const archive = new Uint8Array(parts.reduce((total, part) => total + part.length, 0));
+  let position = 0;
+  parts.forEach(part => {
+    archive.set(part, position);
+    position += part.length;
+  });
+  return archive;
+}
+
+export function createDocx(paragraphs: DocxParagraph[]): Blob {
+  const archive = zipStored([
+    { name: '[Content_Types].xml', content: CONTENT_TYPES_XML },
+    { name: '_rels/.rels', content: RELATIONSHIPS_XML },
+    { name: 'word/document.xml', content: documentXml(paragraphs) },
+  ]);
+  return new Blob([archive], { type: DOCX_MIME_TYPE });
+}
+
+// Paragraphs from simple HTML: <p>, <br>, <ul>/<ol> with <li>, and <strong>, <em> and <u> inside them.
+// Text outside a paragraph becomes a paragraph of its own.
+export function htmlToDocxParagraphs(html: string): DocxParagraph[] {
+  const root = new DOMParser().parseFromString(`<body>${html}</body>`, 'text/html').body;
+  const paragraphs: DocxParagraph[] = [];
+
+  const collectRuns = (node: Node, style: Omit<DocxRun, 'text'>, runs: DocxRun[]) => {
+    if (node.nodeType === Node.TEXT_NODE) {
+      const text = (node.textContent || '').replace(/\s+/g, ' ');
+      if (text) runs.push({ ...style, text });
+      return;
+    }
+    if (node.nodeType !== Node.ELEMENT_NODE) return;
+    const tag = (node as Element).tagName;
+    if (tag === 'BR') {
+      runs.push({ text: '', lineBreak: true });
+      return;
+    }
+    const nested = {
+      ...style,
+      ...(tag === 'STRONG' || tag === 'B' ? { bold: true } : {}),
+      ...(tag === 'EM' || tag === 'I' ? { italic: true } : {}),
+      ...(tag === 'U' ? { underline: true } : {}),
+    };
+    node.childNodes.forEach(child => collectRuns(child, nested, runs));
+  };
+
+  // Editors often leave a <br> at the end of a paragraph, which would show as a blank line
+  const addParagraph = (runs: DocxRun[], listMarker?: string) => {
+    while (runs.length > 0 && runs[runs.length - 1].lineBreak && !runs[runs.length - 1].text) runs.pop();
+    if (runs.some(run => run.text.trim() || run.lineBreak)) {
+      paragraphs.push({ runs, ...(listMarker ? { listMarker } : {}) });
+    }
+  };
+
+  let loose: DocxRun[] = [];
+  const flushLoose = () => {
+    addParagraph(loose);
+    loose = [];
+  };
+
+  root.childNodes.forEach(node => {
+    const tag = node.nodeType === Node.ELEMENT_NODE ? (node as Element).tagName : '';
+    if (tag === 'UL' || tag === 'OL') {
+      flushLoose();
+      let number = 0;
+      node.childNodes.forEach(item => {
+        if (item.nodeType !== Node.ELEMENT_NODE || (item as Element).tagName !== 'LI') return;
+        number++;
+        const runs: DocxRun[] = [];
+        collectRuns(item, {}, runs);
+        addParagraph(runs, tag === 'OL' ? `${number}.` : '•');
+      });
+    } else if (tag === 'P' || tag === 'DIV') {
+      flushLoose();
+      const runs: DocxRun[] = [];
+      collectRuns(node, {}, runs);
+      addParagraph(runs);
+    } else {
+      collectRuns(node, {}, loose);
+    }
+  });
+  flushLoose();
+  return paragraphs;
+}
@@ -0,0 +1,343 @@
+/**
+ * @license
+ * SPDX-License-Identifier: Apache-2.0
+*/
+import { isNegated } from './red-flags';
+import { Medication, StructuredResponse, SummaryDraft, SummaryRecord, SummarySectionKey } from './types';
+
+// Local allergy and interaction checks on generated plans. Drugs newly started in the plan (or in the
+// structured medication list) are checked against allergies documented in the notes and summaries, and
+// against the medications the patient already takes. The rules are data: a bundled default table that a
+// practice can edit in Settings. The checks are a prompt for the reviewing clinician, not a formulary.
+
+export type SafetySeverity = 'contraindicated' | 'caution';
+
+// A named class of drugs, e.g. penicillins. Rules may refer to a class or to a single drug.
+export interface DrugGroup {
+  name: string;
+  members: string[];
+}
+
+// Drugs to avoid or use with care when the patient is allergic to `allergy`
+export interface CrossReactivityRule {
+  allergy: string;
+  drugs: string;
+  severity: SafetySeverity;
+  advice: string;
+}
+
+export interface InteractionRule {
+  between: [string, string];
+  severity: SafetySeverity;
+  advice: string;
+}
+
+export interface DrugSafetyTable {
+  groups: DrugGroup[];
+  crossReactivity: CrossReactivityRule[];
+  interactions: InteractionRule[];
+}
+
+export interface SafetyWarning {
+  kind: 'allergy' | 'interaction';
+  severity: SafetySeverity;
+  drug: string; // The newly started drug
+  conflictsWith: string; // The documented allergen or the existing medication
+  advice: string;
+  // Index of the plan bullet that starts the drug; absent when it only appears in the medication list
+  itemIndex?: number;
+}
+
+export const SAFETY_SEVERITY_LABELS: Record<SafetySeverity, string> = {
+  contraindicated: 'Contraindicated',
+  caution: 'Caution',
+};
+
+export class DrugSafetyTableError extends Error {}
+
+export const DEFAULT_DRUG_SAFETY_TABLE: DrugSafetyTable = {
+  groups: [
+    { name: 'penicillins', members: ['penicillin', 'amoxicillin', 'amoxycillin', 'ampicillin', 'co-amoxiclav', 'flucloxacillin', 'phenoxymethylpenicillin', 'benzylpenicillin', 'piperacillin', 'tazocin', 'pivmecillinam', 'temocillin'] },
+    { name: 'cephalosporins', members: ['cefalexin', 'cephalexin', 'cefaclor', 'cefadroxil', 'cefuroxime', 'cefixime', 'cefotaxime', 'ceftriaxone', 'ceftazidime'] },
+    { name: 'carbapenems', members: ['meropenem', 'imipenem', 'ertapenem'] },
+    { name: 'macrolides', members: ['clarithromycin', 'erythromycin', 'azithromycin'] },
+    { name: 'fluoroquinolones', members: ['ciprofloxacin', 'levofloxacin', 'ofloxacin', 'moxifloxacin'] },
+    { name: 'sulfonamides', members: ['sulfamethoxazole', 'co-trimoxazole', 'sulfasalazine'] },
+    { name: 'nsaids', members: ['nsaid', 'ibuprofen', 'naproxen', 'diclofenac', 'aspirin', 'mefenamic acid', 'indometacin', 'ketorolac', 'celecoxib', 'etoricoxib'] },
+    { name: 'opioids', members: ['codeine', 'co-codamol', 'dihydrocodeine', 'morphine', 'oxycodone', 'tramadol', 'fentanyl', 'buprenorphine'] },
+    { name: 'anticoagulants', members: ['warfarin', 'apixaban', 'rivaroxaban', 'edoxaban', 'dabigatran'] },
+    { name: 'ace inhibitors', members: ['ramipril', 'lisinopril', 'enalapril', 'perindopril'] },
+    { name: 'angiotensin receptor blockers', members: ['losartan', 'candesartan', 'irbesartan', 'valsartan'] },
+    { name: 'potassium-sparing diuretics', members: ['spironolactone', 'eplerenone', 'amiloride'] },
+    { name: 'ssris', members: ['sertraline', 'citalopram', 'escitalopram', 'fluoxetine', 'paroxetine'] },
+    { name: 'triptans', members: ['sumatriptan', 'zolmitriptan', 'rizatriptan'] },
+    { name: 'nitrates', members: ['glyceryl trinitrate', 'gtn', 'isosorbide mononitrate', 'isosorbide dinitrate'] },
+    { name: 'pde5 inhibitors', members: ['sildenafil', 'tadalafil'] },
+  ],
+  crossReactivity: [
+    { allergy: 'penicillins', drugs: 'cephalosporins', severity: 'caution', advice: 'Cephalosporins can cross-react in penicillin allergy. Avoid if the reaction was immediate (anaphylaxis, angioedema or urticaria).' },
+    { allergy: 'penicillins', drugs: 'carbapenems', severity: 'caution', advice: 'Carbapenems can cross-react in penicillin allergy. Avoid if the reaction was immediate.' },
+    { allergy: 'cephalosporins', drugs: 'penicillins', severity: 'caution', advice: 'Penicillins can cross-react in cephalosporin allergy. Check the nature of the reaction.' },
+  ],
+  interactions: [
+    { between: ['anticoagulants', 'nsaids'], severity: 'contraindicated', advice: 'NSAIDs with an anticoagulant markedly increase the risk of bleeding.' },
+    { between: ['warfarin', 'macrolides'], severity: 'caution', advice: 'Macrolides can raise the INR. Check the INR within a few days of starting.' },
+    { between: ['warfarin', 'fluoroquinolones'], severity: 'caution', advice: 'Fluoroquinolones can raise the INR. Check the INR within a few days of starting.' },
+    { between: ['warfarin', 'metronidazole'], severity: 'contraindicated', advice: 'Metronidazole markedly raises the INR. Avoid, or reduce the warfarin dose and monitor closely.' },
+    { between: ['warfarin', 'co-trimoxazole'], severity: 'contraindicated', advice: 'Co-trimoxazole markedly raises the INR.' },
+    { between: ['simvastatin', 'clarithromycin'], severity: 'contraindicated', advice: 'Clarithromycin raises simvastatin levels with a risk of rhabdomyolysis. Suspend simvastatin during the course.' },
+    { between: ['simvastatin', 'erythromycin'], severity: 'contraindicated', advice: 'Erythromycin raises simvastatin levels with a risk of rhabdomyolysis. Suspend simvastatin during the course.' },
+    { between: ['methotrexate', 'trimethoprim'], severity: 'contraindicated', advice: 'Trimethoprim with methotrexate can cause severe bone marrow suppression.' },
+    { between: ['methotrexate', 'co-trimoxazole'], severity: 'contraindicated', advice: 'Co-trimoxazole with methotrexate can cause severe bone marrow suppression.' },
+    { between: ['lithium', 'nsaids'], severity: 'contraindicated', advice: 'NSAIDs raise lithium levels. Avoid, or monitor lithium levels closely.' },
+    { between: ['ace inhibitors', 'nsaids'], severity: 'caution', advice: 'NSAIDs with an ACE inhibitor increase the risk of acute kidney injury. Check renal function.' },
+    { between: ['ace inhibitors', 'potassium-sparing diuretics'], severity: 'caution', advice: 'Risk of hyperkalaemia. Monitor potassium.' },
+    { between: ['ace inhibitors', 'angiotensin receptor blockers'], severity: 'caution', advice: 'Dual renin-angiotensin blockade increases the risk of hyperkalaemia and kidney injury.' },
+    { between: ['ssris', 'tramadol'], severity: 'caution', advice: 'Risk of serotonin syndrome and lowered seizure threshold.' },
+    { between: ['ssris', 'triptans'], severity: 'caution', advice: 'Risk of serotonin syndrome.' },
+    { between: ['ssris', 'nsaids'], severity: 'caution', advice: 'SSRIs with NSAIDs increase the risk of GI bleeding. Consider gastroprotection.' },
+    { between: ['nitrates', 'pde5 inhibitors'], severity: 'contraindicated', advice: 'Risk of severe hypotension.' },
+    { between: ['clopidogrel', 'omeprazole'], severity: 'caution', advice: 'Omeprazole reduces the effect of clopidogrel. Consider lansoprazole or pantoprazole.' },
+  ],
+};
+
+const DRUG_SAFETY_STORAGE_KEY = 'hx_drug_safety_table';
+
+const normalise = (term: string) => term.trim().toLowerCase();
+
+const isNonEmptyString = (value: unknown): value is string => typeof value === 'string' && value.trim().length > 0;
+const isSeverity = (value: unknown): value is SafetySeverity => value === 'contraindicated' || value === 'caution';
+
+// Check an edited table before it is saved. Throws DrugSafetyTableError naming the first problem found.
+export function parseDrugSafetyTable(json: unknown): DrugSafetyTable {
+  const table = json as Partial<DrugSafetyTable> | null;
+  if (!table || typeof table !== 'object') throw new DrugSafetyTableError('The table must be a JSON object.');
+  const { groups, crossReactivity, interactions } = table;
+  if (!Array.isArray(groups) || !Array.isArray(crossReactivity) || !Array.isArray(interactions)) {
+    throw new DrugSafetyTableError('The table needs "groups", "crossReactivity" and "interactions" lists.');
+  }
+  groups.forEach((group, index) => {
+    if (!isNonEmptyString(group?.name) || !Array.isArray(group.members) || !group.members.every(isNonEmptyString)) {
+      throw new DrugSafetyTableError(`Group ${index + 1} needs a name and a list of member drugs.`);
+    }
+  });
+  crossReactivity.forEach((rule, index) => {
+    if (!isNonEmptyString(rule?.allergy) || !isNonEmptyString(rule.drugs) || !isSeverity(rule.severity) || typeof rule.advice !== 'string') {
+      throw new DrugSafetyTableError(`Cross-reactivity rule ${index + 1} needs "allergy", "drugs", "severity" (contraindicated or caution) and "advice".`);
+    }
+  });
+  interactions.forEach((rule, index) => {
+    if (!Array.isArray(rule?.between) || rule.between.length !== 2 || !rule.between.every(isNonEmptyString) || !isSeverity(rule.severity) || typeof rule.advice !== 'string') {
+      throw new DrugSafetyTableError(`Interaction ${index + 1} needs two drugs or groups in "between", "severity" (contraindicated or caution) and "advice".`);
+    }
+  });
+  return { groups, crossReactivity, interactions };
+}
+
+export function loadDrugSafetyTable(): DrugSafetyTable {
+  try {
+    const saved = localStorage.getItem(DRUG_SAFETY_STORAGE_KEY);
+    return saved ? parseDrugSafetyTable(JSON.parse(saved)) : DEFAULT_DRUG_SAFETY_TABLE;
+  } catch (e) {
+    console.error("Failed to read the drug safety table from localStorage", e);
+    return DEFAULT_DRUG_SAFETY_TABLE;
+  }
+}
+
+export function saveDrugSafetyTable(table: DrugSafetyTable) {
+  localStorage.setItem(DRUG_SAFETY_STORAGE_KEY, JSON.stringify(table));
+}
+
+// --- Matching ---
+
+const escapeRegExp = (text: string) => text.replace(/[.*+?^${}()|[\]\\]/g, '\\$&');
+
+interface DrugVocabulary {
+  // Every drug and group name the table knows, longest first so "co-amoxiclav" wins over "amoxiclav"
+  terms: string[];
+  groupsOf: Map<string, string[]>;
+  groupNames: Set<string>;
+}
+
+function buildVocabulary(table: DrugSafetyTable): DrugVocabulary {
+  const groupsOf = new Map<string, string[]>();
+  const add = (term: string, group?: string) => {
+    const key = normalise(term);
+    const groups = groupsOf.get(key) || [];
+    if (group && !groups.includes(group)) groups.push(group);
+    groupsOf.set(key, groups);
+  };
+  table.groups.forEach(group => {
+    add(group.name);
+    group.members.forEach(member => add(member, normalise(group.name)));
+  });
+  table.crossReactivity.forEach(rule => { add(rule.allergy); add(rule.drugs); });
+  table.interactions.forEach(rule => rule.between.forEach(term => add(term)));
+  return {
+    terms: [...groupsOf.keys()].sort((a, b) => b.length - a.length),
+    groupsOf,
+    groupNames: new Set(table.groups.map(group => normalise(group.name))),
+  };
+}
+
+// Drugs and groups named in the text, allowing a plural "s" (e.g. "NSAIDs", "statins")
+function findDrugs(text: string, vocabulary: DrugVocabulary): string[] {
+  let remaining = text.toLowerCase();
+  const found: string[] = [];
+  vocabulary.terms.forEach(term => {
+    const pattern = new RegExp(`(?<![a-z])${escapeRegExp(term)}s?(?![a-z])`, 'g');
+    if (pattern.test(remaining)) {
+      found.push(term);
+      remaining = remaining.replace(pattern, ' ');
+    }
+  });
+  return found;
+}
+
+// Does a drug (or group) fall under a rule's drug or group?
+function matches(term: string, ruleTerm: string, vocabulary: DrugVocabulary): boolean {
+  const target = normalise(ruleTerm);
+  return term === target || (vocabulary.groupsOf.get(term) || []).includes(target);
+}
+
+// Does the new drug fall under the documented allergen, directly or through a shared group?
+function sharesGroup(drug: string, allergen: string, vocabulary: DrugVocabulary): boolean {
+  const drugGroups = [drug, ...(vocabulary.groupsOf.get(drug) || [])];
+  const allergenGroups = [allergen, ...(vocabulary.groupsOf.get(allergen) || [])];
+  return drugGroups.some(group => allergenGroups.includes(group));
+}
+
+// --- Documented allergies ---
+
+const ALLERGY_WORDS = '(?:allerg(?:y|ies|ic)|intoleran(?:t|ce)|hypersensitiv(?:e|ity)|anaphylaxis)';
+// "allergic to penicillin and codeine", "Allergies: NSAIDs"
+const ALLERGY_AFTER = new RegExp(`\\b${ALLERGY_WORDS}\\s*(?:to|of|with|:|-)\\s*([^.;\\n]+)`, 'gi');
+// "penicillin allergy", "NSAID-intolerant"
+const ALLERGY_BEFORE = new RegExp(`([a-z][a-z-]*(?:\\s+[a-z][a-z-]*)?)[\\s-]+${ALLERGY_WORDS}\\b`, 'gi');
+// Where a list of allergens ends and the sentence moves on, e.g. "allergic to penicillin so started clarithromycin"
+const CLAUSE_END = /\b(?:so|but|therefore|hence|thus|start(?:ed|ing)?|commenc(?:e|ed|ing)|prescrib(?:e|ed|ing)|given|switch(?:ed)?|uses?|using|used|instead|with|as|due|reaction|causing|causes?)\b/i;
+// "Allergies: none", "Allergies: no known drug allergies"
+const NONE_DOCUMENTED = /^\s*(?:no|nil|none|nkda|nka)\b/i;
+
+// Allergens documented in free text. Negated statements ("no known drug allergies") are ignored; only the
+// clause just before the allergy phrase counts, so "No fever, allergic to penicillin" is still recorded.
+export function findDocumentedAllergies(texts: string[], table: DrugSafetyTable): string[] {
+  const vocabulary = buildVocabulary(table);
+  const allergens = new Set<string>();
+  texts.forEach(text => {
+    text.split(/[.;\n]/).forEach(sentence => {
+      for (const match of sentence.matchAll(ALLERGY_AFTER)) {
+        if (isNegated(sentence.slice(0, match.index)) || NONE_DOCUMENTED.test(match[1])) continue;
+        const list = match[1].split(CLAUSE_END)[0];
+        findDrugs(list, vocabulary).forEach(drug => allergens.add(drug));
+      }
+      for (const match of sentence.matchAll(ALLERGY_BEFORE)) {
+        if (isNegated(sentence.slice(0, match.index! + match[1].length))) continue;
+        findDrugs(match[1], vocabulary).forEach(drug => allergens.add(drug));
+      }
+    });
+  });
+  return [...allergens];
+}
+
+// --- Plan checks ---
+
+const START_WORDS = /\b(?:start(?:ed|ing)?|commenc(?:e|ed|ing)|prescrib(?:e|ed|ing)|initiat(?:e|ed|ing)|begin|add(?:ed)?|trial of|course of)\b/i;
+
+// Drugs a plan bullet starts. Allergy phrases are removed first so "penicillin allergic, started clarithromycin"
+// only starts clarithromycin.
+function drugsStartedIn(item: string, vocabulary: DrugVocabulary): string[] {
+  if (!START_WORDS.test(item)) return [];
+  const withoutAllergies = item
+    .replace(ALLERGY_AFTER, (_match, list: string) => ` ${list.slice(list.split(CLAUSE_END)[0].length)}`)
+    .replace(ALLERGY_BEFORE, ' ');
+  // Group names describe a class, not a prescription
+  return findDrugs(withoutAllergies, vocabulary).filter(drug => !vocabulary.groupNames.has(drug));
+}
+
+export interface PlanSafetyInput {
+  plan: string[];
+  // Medications the structured list marks as newly started
+  startedMedications: Medication[];
+  // Medications the patient already takes
+  currentMedications: Medication[];
+  // Free text that may document allergies: the notes and summary sections
+  allergyTexts: string[];
+}
+
+export function checkPlanSafety(input: PlanSafetyInput, table: DrugSafetyTable): SafetyWarning[] {
+  const vocabulary = buildVocabulary(table);
+  const allergens = findDocumentedAllergies(input.allergyTexts, table);
+
+  // Each newly started drug, with the first plan bullet that starts (or failing that, mentions) it
+  const started = new Map<string, number | undefined>();
+  input.plan.forEach((item, index) => {
+    drugsStartedIn(item, vocabulary).forEach(drug => { if (!started.has(drug)) started.set(drug, index); });
+  });
+  input.startedMedications.forEach(medication => {
+    findDrugs(medication.drug, vocabulary).forEach(drug => {
+      if (started.has(drug)) return;
+      const index = input.plan.findIndex(item => findDrugs(item, vocabulary).includes(drug));
+      started.set(drug, index === -1 ? undefined : index);
+    });
+  });
+  const existing = input.currentMedications
+    .flatMap(medication => findDrugs(medication.drug, vocabulary))
+    .filter(drug => !started.has(drug));
+
+  const warnings: SafetyWarning[] = [];
+  const seen = new Set<string>();
+  const warn = (warning: SafetyWarning) => {
+    const key = `${warning.kind}|${[warning.drug, warning.conflictsWith].sort().join('|')}|${warning.advice}`;
+    if (seen.has(key)) return;
+    seen.add(key);
+    warnings.push(warning);
+  };
+
+  started.forEach((itemIndex, drug) => {
+    const at = itemIndex === undefined ? {} : { itemIndex };
+    allergens.forEach(allergen => {
+      if (sharesGroup(drug, allergen, vocabulary)) {
+        warn({ kind: 'allergy', severity: 'contraindicated', drug, conflictsWith: allergen, advice: `Documented allergy to ${allergen}.`, ...at });
+      }
+      table.crossReactivity
+        .filter(rule => matches(allergen, rule.allergy, vocabulary) && matches(drug, rule.drugs, vocabulary))
+        .forEach(rule => warn({ kind: 'allergy', severity: rule.severity, drug, conflictsWith: allergen, advice: rule.advice, ...at }));
+    });
+
+    const others = [...existing, ...[...started.keys()].filter(other => other !== drug)];
+    others.forEach(other => {
+      table.interactions
+        .filter(({ between: [a, b] }) =>
+          (matches(drug, a, vocabulary) && matches(other, b, vocabulary)) || (matches(drug, b, vocabulary) && matches(other, a, vocabulary)))
+        .forEach(rule => warn({ kind: 'interaction', severity: rule.severity, drug, conflictsWith: other, advice: rule.advice, ...at }));
+    });
+  });
+  return warnings;
+}
+
+const summaryTexts = (summary: Partial<StructuredResponse>) =>
+  Object.values(summary).flatMap(items => (Array.isArray(items) ? items : []));
+
+// Check a draft's plan against the notes it was generated from and the summary it updates.
+// `planSection` is the plan section of the draft's template; drafts without one have nothing to check.
+export function checkDraftSafety(
+  draft: SummaryDraft,
+  previous: SummaryRecord | undefined,
+  table: DrugSafetyTable,
+  planSection: SummarySectionKey | undefined,
+): SafetyWarning[] {
+  const sectionTexts = Object.values(draft.sections).flatMap(items => (items || []).map(item => item.text));
+  // Older records and drafts have no structured list; fall back to the previous summary's
+  const medications = draft.medications || previous?.medications || [];
+  return checkPlanSafety({
+    plan: (planSection ? draft.sections[planSection] || [] : []).map(item => item.text),
+    startedMedications: medications.filter(medication => medication.status === 'started'),
+    currentMedications: medications.filter(medication => medication.status === 'current' || medication.status === 'changed'),
+    allergyTexts: [
+      ...sectionTexts,
+      draft.input?.text || '',
+      ...(previous ? summaryTexts(previous.summary) : []),
+    ],
+  }, table);
+}
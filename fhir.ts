@@ -0,0 +1,346 @@
+/**
+ * @license
+ * SPDX-License-Identifier: Apache-2.0
+*/
+import { CitedItem, CitedResponse } from './citations';
+import { sectionOrder } from './summary-templates';
+import { Medication, Patient, SummaryRecord } from './types';
+
+// FHIR R4 exchange with other clinical systems (e.g. the GP record).
+// Export: a patient becomes a collection Bundle with one Patient, one Composition per summary
+// record, and one Condition per distinct past medical history entry, referenced from the Compositions.
+// Import: a Bundle, or a Patient with Condition/MedicationStatement resources, seeds a new patient
+// and an initial summary built locally from the structured data.
+
+export const NHS_NUMBER_SYSTEM = 'https://fhir.nhs.uk/Id/nhs-number';
+const LOINC_SYSTEM = 'http://loinc.org';
+const CONDITION_CATEGORY_SYSTEM = 'http://terminology.hl7.org/CodeSystem/condition-category';
+
+export interface FhirReference {
+  reference?: string;
+  display?: string;
+}
+
+export interface FhirCodeableConcept {
+  coding?: { system: string; code: string; display?: string }[];
+  text?: string;
+}
+
+export interface FhirNarrative {
+  status: 'generated';
+  div: string;
+}
+
+export interface FhirPatient {
+  resourceType: 'Patient';
+  id: string;
+  identifier?: { system: string; value: string }[];
+  name: { text: string; family?: string; given?: string[] }[];
+  birthDate?: string;
+}
+
+export interface FhirCompositionSection {
+  title: string;
+  text: FhirNarrative;
+  entry?: FhirReference[];
+}
+
+export interface FhirComposition {
+  resourceType: 'Composition';
+  id: string;
+  status: 'preliminary' | 'final';
+  type: FhirCodeableConcept;
+  subject: FhirReference;
+  date: string;
+  author: FhirReference[];
+  title: string;
+  attester?: { mode: 'legal'; time: string; party: FhirReference }[];
+  section: FhirCompositionSection[];
+}
+
+export interface FhirCondition {
+  resourceType: 'Condition';
+  id: string;
+  category: FhirCodeableConcept[];
+  code: FhirCodeableConcept;
+  subject: FhirReference;
+  recordedDate: string;
+}
+
+export type FhirResource = FhirPatient | FhirComposition | FhirCondition;
+
+export interface FhirBundle {
+  resourceType: 'Bundle';
+  id: string;
+  type: 'collection';
+  timestamp: string;
+  entry: { fullUrl: string; resource: FhirResource }[];
+}
+
+const escapeXml = (value: string) =>
+  value.replace(/&/g, '&amp;').replace(/</g, '&lt;').replace(/>/g, '&gt;').replace(/"/g, '&quot;');
+
+const listNarrative = (items: string[]): FhirNarrative => ({
+  status: 'generated',
+  div: `<div xmlns="http://www.w3.org/1999/xhtml"><ul>${items.map(item => `<li>${escapeXml(item)}</li>`).join('')}</ul></div>`,
+});
+
+// Condition entries are shared across records, so the same history item is matched regardless of case and spacing
+const conditionKey = (text: string) => text.trim().replace(/\s+/g, ' ').toLowerCase();
+
+function toFhirPatient(patient: Patient, id: string): FhirPatient {
+  const nameParts = patient.name.trim().split(/\s+/);
+  const nhsNumber = patient.nhsNumber.replace(/\s+/g, '');
+  return {
+    resourceType: 'Patient',
+    id,
+    ...(nhsNumber ? { identifier: [{ system: NHS_NUMBER_SYSTEM, value: nhsNumber }] } : {}),
+    name: [{
+      text: patient.name,
+      ...(nameParts.length > 1 ? { family: nameParts[nameParts.length - 1], given: nameParts.slice(0, -1) } : {}),
+    }],
+    ...(/^\d{4}-\d{2}-\d{2}$/.test(patient.dob) ? { birthDate: patient.dob } : {}),
+  };
+}
+
+function toFhirComposition(record: SummaryRecord, id: string, patientRef: string, conditionRefs: Map<string, string>): FhirComposition {
+  const approver = record.approval ? { display: record.approval.approvedBy.displayName } : { display: 'Hx Summariser (unreviewed)' };
+  return {
+    resourceType: 'Composition',
+    id,
+    status: record.approval ? 'final' : 'preliminary',
+    type: { coding: [{ system: LOINC_SYSTEM, code: '34133-9', display: 'Summary of episode note' }], text: 'Clinical summary' },
+    subject: { reference: patientRef },
+    date: record.timestamp,
+    author: [approver],
+    title: 'Clinical Summary',
+    ...(record.approval ? { attester: [{ mode: 'legal', time: record.approval.approvedAt, party: approver }] } : {}),
+    section: sectionOrder(record.summary)
+      .filter(key => Array.isArray(record.summary[key]) && record.summary[key]!.length > 0)
+      .map(key => {
+        const items = record.summary[key]!;
+        return {
+          title: key,
+          text: listNarrative(items),
+          ...(key === 'Past medical history'
+            ? { entry: items.map(item => ({ reference: conditionRefs.get(conditionKey(item)), display: item })) }
+            : {}),
+        };
+      }),
+  };
+}
+
+export function buildFhirBundle(patient: Patient): FhirBundle {
+  const fullUrl = () => `urn:uuid:${crypto.randomUUID()}`;
+  const idOf = (url: string) => url.slice('urn:uuid:'.length);
+  const entry: FhirBundle['entry'] = [];
+
+  const patientUrl = fullUrl();
+  entry.push({ fullUrl: patientUrl, resource: toFhirPatient(patient, idOf(patientUrl)) });
+
+  // One Condition per distinct history entry, recorded at the earliest summary that mentions it
+  const conditionRefs = new Map<string, string>();
+  [...patient.summaries].reverse().forEach(record => {
+    (record.summary['Past medical history'] || []).forEach(item => {
+      const key = conditionKey(item);
+      if (!key || conditionRefs.has(key)) return;
+      const url = fullUrl();
+      conditionRefs.set(key, url);
+      const condition: FhirCondition = {
+        resourceType: 'Condition',
+        id: idOf(url),
+        category: [{ coding: [{ system: CONDITION_CATEGORY_SYSTEM, code: 'problem-list-item', display: 'Problem List Item' }] }],
+        code: { text: item.trim() },
+        subject: { reference: patientUrl },
+        recordedDate: record.timestamp,
+      };
+      entry.push({ fullUrl: url, resource: condition });
+    });
+  });
+
+  patient.summaries.forEach(record => {
+    const url = fullUrl();
+    entry.push({ fullUrl: url, resource: toFhirComposition(record, idOf(url), patientUrl, conditionRefs) });
+  });
+
+  return {
+    resourceType: 'Bundle',
+    id: crypto.randomUUID(),
+    type: 'collection',
+    timestamp: new Date().toISOString(),
+    entry,
+  };
+}
+
+// --- Import ---
+
+export const FHIR_IMPORT_SOURCE_ID = 'fhir-import';
+
+export class FhirImportError extends Error {}
+
+export interface ImportedCondition {
+  name: string;
+  clinicalStatus?: string; // e.g. active, resolved, inactive
+  onset?: string;
+  isEncounterDiagnosis: boolean;
+}
+
+export interface ImportedMedication {
+  name: string;
+  dosage?: string;
+  status?: string; // e.g. active, completed, stopped
+}
+
+export interface FhirImport {
+  patient: { name: string; dob: string; nhsNumber: string };
+  conditions: ImportedCondition[];
+  medications: ImportedMedication[];
+}
+
+// Imported files are untrusted, so every field is checked before it is used
+type FhirJson = Record<string, unknown>;
+
+const isJsonObject = (value: unknown): value is FhirJson => !!value && typeof value === 'object' && !Array.isArray(value);
+const asText = (value: unknown): string | undefined => (typeof value === 'string' ? value : undefined);
+const objectsIn = (value: unknown): FhirJson[] => (Array.isArray(value) ? value.filter(isJsonObject) : []);
+
+const conceptText = (concept: unknown): string | undefined => {
+  if (!isJsonObject(concept)) return undefined;
+  return asText(concept.text) || asText(objectsIn(concept.coding).find(coding => asText(coding.display))?.display);
+};
+
+const statusCode = (concept: unknown): string | undefined => {
+  if (!isJsonObject(concept)) return undefined;
+  return asText(objectsIn(concept.coding).find(coding => asText(coding.code))?.code) || asText(concept.text);
+};
+
+function patientName(resource: FhirJson): string {
+  const names = objectsIn(resource.name);
+  const name = names.find(candidate => candidate.use === 'official') || names[0];
+  if (!name) return '';
+  const text = asText(name.text);
+  if (text) return text.trim();
+  const given = Array.isArray(name.given) ? name.given.filter((part): part is string => typeof part === 'string') : [];
+  return [...given, asText(name.family)].filter(Boolean).join(' ').trim();
+}
+
+// Accepts a Bundle, a JSON array of resources, or a single Patient resource
+function collectResources(json: unknown): FhirJson[] {
+  if (Array.isArray(json)) return json.filter(isJsonObject);
+  if (isJsonObject(json) && json.resourceType === 'Bundle') {
+    return objectsIn(json.entry).map(entry => entry.resource).filter(isJsonObject);
+  }
+  if (isJsonObject(json) && typeof json.resourceType === 'string') return [json];
+  throw new FhirImportError('The file is not a FHIR resource or Bundle.');
+}
+
+// Throws FhirImportError when the file has no usable Patient resource
+export function parseFhirImport(json: unknown): FhirImport {
+  const resources = collectResources(json);
+  const patientResource = resources.find(resource => resource.resourceType === 'Patient');
+  if (!patientResource) throw new FhirImportError('The file does not contain a Patient resource.');
+  const name = patientName(patientResource);
+  if (!name) throw new FhirImportError('The Patient resource has no name.');
+
+  const nhsIdentifier = objectsIn(patientResource.identifier).find(identifier => identifier.system === NHS_NUMBER_SYSTEM);
+  const conditions: ImportedCondition[] = resources
+    .filter(resource => resource.resourceType === 'Condition' && conceptText(resource.code))
+    .filter(resource => statusCode(resource.verificationStatus) !== 'entered-in-error')
+    .map(resource => ({
+      name: conceptText(resource.code)!.trim(),
+      clinicalStatus: statusCode(resource.clinicalStatus),
+      onset: asText(resource.onsetDateTime) || asText(resource.onsetString)
+        || (isJsonObject(resource.onsetPeriod) ? asText(resource.onsetPeriod.start) : undefined),
+      isEncounterDiagnosis: Array.isArray(resource.category) && resource.category.some(category => statusCode(category) === 'encounter-diagnosis'),
+    }));
+  const medications: ImportedMedication[] = resources
+    .filter(resource => resource.resourceType === 'MedicationStatement')
+    .map(resource => ({
+      name: (conceptText(resource.medicationCodeableConcept)
+        || (isJsonObject(resource.medicationReference) ? asText(resource.medicationReference.display) : undefined)
+        || '').trim(),
+      dosage: Array.isArray(resource.dosage) && isJsonObject(resource.dosage[0]) ? asText(resource.dosage[0].text) : undefined,
+      status: asText(resource.status),
+    }))
+    .filter(medication => medication.name && medication.status !== 'entered-in-error');
+
+  return {
+    patient: {
+      name,
+      dob: asText(patientResource.birthDate)?.slice(0, 10) ?? '',
+      nhsNumber: asText(nhsIdentifier?.value)?.replace(/\s+/g, '') ?? '',
+    },
+    conditions,
+    medications,
+  };
+}
+
+const ACTIVE_STATUSES = ['active', 'recurrence', 'relapse'];
+const year = (date?: string) => (date && /^\d{4}/.test(date) ? date.slice(0, 4) : undefined);
+
+function describeCondition(condition: ImportedCondition): string {
+  const details = [
+    condition.clinicalStatus && !ACTIVE_STATUSES.includes(condition.clinicalStatus) ? condition.clinicalStatus : undefined,
+    year(condition.onset) ? `since ${year(condition.onset)}` : undefined,
+  ].filter(Boolean);
+  return details.length > 0 ? `${condition.name} (${details.join(', ')})` : condition.name;
+}
+
+const isCurrentMedication = (medication: ImportedMedication) =>
+  !medication.status || ['active', 'intended', 'on-hold'].includes(medication.status);
+
+const describeMedication = (medication: ImportedMedication) =>
+  medication.dosage ? `${medication.name} — ${medication.dosage}` : medication.name;
+
+// A readable listing of the imported resources. It is the citation source for the initial summary,
+// and each cited quote is one of its lines.
+export function describeFhirImport(data: FhirImport): string {
+  return [
+    `Patient: ${data.patient.name}${data.patient.dob ? `, born ${data.patient.dob}` : ''}${data.patient.nhsNumber ? `, NHS number ${data.patient.nhsNumber}` : ''}`,
+    ...data.conditions.map(condition => `Condition: ${describeCondition(condition)}`),
+    ...data.medications.map(medication => `Medication: ${describeMedication(medication)}${medication.status ? ` (${medication.status})` : ''}`),
+  ].join('\n');
+}
+
+// Build the initial summary from structured problems and medications, in the same cited shape the model returns.
+// Active encounter diagnoses are acute issues; other conditions and past medications are history;
+// current medications are carried into the plan.
+export function buildImportedSummary(data: FhirImport): CitedResponse {
+  const lines = describeFhirImport(data).split('\n');
+  const cite = (text: string, linePrefix: string): CitedItem => ({
+    text,
+    sourceId: FHIR_IMPORT_SOURCE_ID,
+    quote: lines.find(line => line.startsWith(linePrefix)) || linePrefix,
+  });
+  const isActive = (status?: string) => !status || ACTIVE_STATUSES.includes(status);
+
+  return {
+    'Acute Issues': data.conditions
+      .filter(condition => condition.isEncounterDiagnosis && isActive(condition.clinicalStatus))
+      .map(condition => cite(describeCondition(condition), `Condition: ${describeCondition(condition)}`)),
+    'Pending Tasks and action Plan': data.medications
+      .filter(isCurrentMedication)
+      .map(medication => cite(`Continue ${describeMedication(medication)}`, `Medication: ${describeMedication(medication)}`)),
+    'Past medical history': [
+      ...data.conditions
+        .filter(condition => !(condition.isEncounterDiagnosis && isActive(condition.clinicalStatus)))
+        .map(condition => cite(describeCondition(condition), `Condition: ${describeCondition(condition)}`)),
+      ...data.medications
+        .filter(medication => !isCurrentMedication(medication))
+        .map(medication => cite(`Previously on ${describeMedication(medication)}${medication.status ? ` (${medication.status})` : ''}`, `Medication: ${describeMedication(medication)}`)),
+    ],
+  };
+}
+
+// The structured medication list for the imported summary. FHIR dosage is free text, so it is kept whole as the dose.
+export function buildImportedMedications(data: FhirImport): Medication[] {
+  return data.medications.map(medication => ({
+    drug: medication.name,
+    dose: medication.dosage || '',
+    route: '',
+    frequency: '',
+    startDate: '',
+    stopDate: '',
+    status: isCurrentMedication(medication) ? 'current' : 'stopped',
+  }));
+}
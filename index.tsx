@@ -2,10 +2,32 @@
  * @license
  * SPDX-License-Identifier: Apache-2.0
 */
-import {GoogleGenAI, Part, Type} from '@google/genai';
+import {Type} from '@google/genai';
 import React, {useState, useMemo, useEffect, useRef} from 'react';
 import ReactDOM from 'react-dom/client';
-import { AUTH_PASSWORD } from './auth-config';
+import { AUTH_CONFIG } from './auth-config';
+import { DEFAULT_LLM_SETTINGS, LLM_PROVIDER_LABELS, LLM_TASK_LABELS, LlmPart, LlmProviderId, LlmSettings, LlmTask, SUGGESTED_MODELS, generateJson, generateJsonStream, generateText, isAbortError, loadLlmSettings, saveLlmSettings, validateAgainstSchema } from './llm-providers';
+import { AttachmentMeta, DifferentialDiagnosis, ItemCitation, Medication, Patient, PromptVersionRef, RedFlagAssessment, ReferralLetter, ReferralUrgency, SavedScore, StructuredResponse, SummaryDraft, SummaryInput, SummaryItemMetaMap, SummaryRecord, SummarySectionKey, SummarySource } from './types';
+import { deleteAttachments, loadAttachment, restoreAttachment, saveAttachment } from './attachment-store';
+import { BACKUP_FILE_EXTENSION, BackupContents, BackupError, ConflictChoice, attachmentBytes, attachmentsToRestore, createBackup, findConflicts, mergePatients, readBackup } from './backup';
+import { StoreKey } from './secure-store';
+import { DUPLICATE_REASON_LABELS, PatientDetails, findDuplicatePatients, formatNhsNumber, isFutureDate, mergePatientHistories, nhsNumberProblem, normaliseNhsNumber } from './patient-identity';
+import { FHIR_IMPORT_SOURCE_ID, FhirImportError, buildFhirBundle, buildImportedMedications, buildImportedSummary, describeFhirImport, parseFhirImport } from './fhir';
+import { CitedResponse, buildSources, describeSourcesForPrompt, findQuoteRange, splitCitedResponse } from './citations';
+import { addDraftItem, approveDraft, attachmentIdsOf, createDraft, editDraftItem, patientAttachmentIds, removeDraftItem } from './summary-review';
+import { AccountError, CurrentUser, SessionSettings, UserProfile, createUser, loadUsers, toCurrentUser, updateSessionSettings, verifyUser } from './user-accounts';
+import { PatientRepository, RepositoryError, isLocalStorageStoreEncrypted, openPatientRepository, readLocalStorageStore } from './patient-repository';
+import { MEDICATIONS_KEY, MEDICATION_STATUSES, MEDICATION_STATUS_LABELS, ResponseWithMedications, describeMedication, isActiveMedication, reconcileMedications, splitMedications } from './medications';
+import { DEFAULT_DRUG_SAFETY_TABLE, DrugSafetyTable, DrugSafetyTableError, SAFETY_SEVERITY_LABELS, SafetyWarning, checkDraftSafety, loadDrugSafetyTable, parseDrugSafetyTable, saveDrugSafetyTable } from './drug-safety';
+import { DEFAULT_SUMMARY_RULES, SummaryRule, SummaryRuleError, applySummaryRules, loadSummaryRules, parseSummaryRules, runRuleTests, saveSummaryRules } from './summary-rules';
+import { ClassifiedRedFlag, RED_FLAG_CLASSIFIER_SCHEMA, RED_FLAG_URGENCY_LABELS, buildRedFlagPrompt, detectRedFlags, mergeClassifiedRedFlags } from './red-flags';
+import { CalculatorInput, SCORE_CALCULATORS, ScoreValue, buildScoreContext, createSavedScore, initialValue } from './clinical-scores';
+import { ITEM_CHANGE_LABELS, KeyChangeDiscrepancy, checkKeyChanges, diffSummaries, hasChanges } from './summary-diff';
+import { PROBLEM_CHANGE_LABELS, ProblemChange, buildProblemTimeline } from './problem-list';
+import { DEFAULT_PROMPT_LIBRARY, PROMPT_IDS, PROMPT_VARIABLES, PromptId, PromptLibrary, PromptTemplateError, findPromptVersion, loadPromptLibrary, promptLabel, promptVersionLabel, promptVersionRef, renderPrompt, savePromptLibrary, updatePromptLibrary } from './prompt-library';
+import { DEMOGRAPHIC_PLACEHOLDERS, Letterhead, REFERRAL_TEMPLATES, REFERRAL_URGENCY_LABELS, createReferral, findReferralTemplate, letterDocumentHtml, letterDocx, loadLetterhead, mergeDemographics, referralFileName, sanitiseLetterHtml, saveLetterhead, textToLetterHtml, unfilledPlaceholders } from './referral-letters';
+import { DEFAULT_SUMMARY_TEMPLATES, KEY_CHANGES_SECTION, STANDARD_TEMPLATE_ID, SummaryTemplate, SummaryTemplateError, findTemplate, itemsWithRole, loadSummaryTemplates, parseSummaryTemplates, planSectionOf, ruleSectionMap, saveSummaryTemplates, sectionOrder } from './summary-templates';
+import { IDENTIFIER_LABELS, PASS_THROUGH_REDACTOR, REDACTION_INSTRUCTION, RedactionEntry, Redactor, createRedactor } from './redaction';
 
 // Helper function to convert string to kebab-case for CSS classes
 const toKebabCase = (str: string) =>
@@ -13,74 +35,56 @@ const toKebabCase = (str: string) =>
      .replace(/[^a-zA-Z0-9 ]/g, "")
      .replace(/\s+/g, '-');
 
-// Define the structure of a single summary
-interface StructuredResponse {
-  'Acute Issues': string[];
-  'Pending Tasks and action Plan': string[];
-  'Past medical history': string[];
-  'Key Changes'?: string[]; // Optional field for updates
-}
-
-// Define the structure for a summary record with a timestamp
-interface SummaryRecord {
-  summary: StructuredResponse;
-  timestamp: string;
-}
-
-// Define the structure for a patient
-interface Patient {
-  id: string;
-  name: string;
-  dob: string;
-  nhsNumber: string;
-  summaries: SummaryRecord[];
-}
-
-// Define the structure for a differential diagnosis
-interface DifferentialDiagnosis {
-  diagnosis: string;
-  rationale: string;
-  likelihood: string;
-}
-
-// Define the base schema for the Gemini API call
-const baseSchema = {
-  'Acute Issues': {
-    type: Type.ARRAY,
-    items: { type: Type.STRING },
-    description: 'List of acute medical issues.'
-  },
-  'Pending Tasks and action Plan': {
-    type: Type.ARRAY,
-    items: { type: Type.STRING },
-    description: 'List of pending tasks and the plan of action, including immediate and long-term plans.'
-  },
-  'Past medical history': {
-    type: Type.ARRAY,
-    items: { type: Type.STRING },
-    description: 'List of relevant past medical history.'
+// Each summary item is returned with the source it came from and a verbatim quote
+const citedItemsSchema = (description: string) => ({
+  type: Type.ARRAY,
+  description,
+  items: {
+    type: Type.OBJECT,
+    properties: {
+      text: { type: Type.STRING, description: 'The summary item.' },
+      sourceId: { type: Type.STRING, description: 'Id of the source this item is based on.' },
+      quote: { type: Type.STRING, description: 'A short span copied verbatim from that source.' },
+    },
+    required: ['text', 'sourceId', 'quote'],
   },
-};
-
-const newSummaryResponseSchema = {
-  type: Type.OBJECT,
-  properties: baseSchema,
-  required: ['Acute Issues', 'Pending Tasks and action Plan', 'Past medical history'],
-};
+});
 
-const updateSummaryResponseSchema = {
+// The structured medication list returned next to the summary sections; undocumented fields are ''
+const medicationsSchema = {
+  type: Type.ARRAY,
+  description: 'Every medication the patient is taking, has been started on, or has stopped.',
+  items: {
     type: Type.OBJECT,
     properties: {
-        ...baseSchema,
-        'Key Changes': {
-            type: Type.ARRAY,
-            items: { type: Type.STRING },
-            description: 'List the key changes from the previous summary based on the new information.'
-        }
+      drug: { type: Type.STRING, description: 'The drug name.' },
+      dose: { type: Type.STRING, description: 'The dose, e.g. "500mg".' },
+      route: { type: Type.STRING, description: 'The route, e.g. "oral".' },
+      frequency: { type: Type.STRING, description: 'How often it is taken, e.g. "three times daily".' },
+      startDate: { type: Type.STRING, description: 'The start date (YYYY-MM-DD) if documented.' },
+      stopDate: { type: Type.STRING, description: 'The stop date (YYYY-MM-DD) if documented.' },
+      status: { type: Type.STRING, enum: MEDICATION_STATUSES, description: 'How the medication stands relative to the previous summary.' },
     },
-    required: ['Acute Issues', 'Pending Tasks and action Plan', 'Past medical history', 'Key Changes'],
+    required: ['drug', 'dose', 'route', 'frequency', 'startDate', 'stopDate', 'status'],
+  },
 };
 
+// The response schema for a summary template: one cited list per section, the medication list,
+// and Key Changes when updating a previous summary
+const summaryResponseSchema = (template: SummaryTemplate, update: boolean) => ({
+  type: Type.OBJECT,
+  properties: {
+    ...Object.fromEntries(template.sections.map(section => [section.name, citedItemsSchema(section.description)])),
+    [MEDICATIONS_KEY]: medicationsSchema,
+    ...(update ? { [KEY_CHANGES_SECTION]: citedItemsSchema('List the key changes from the previous summary based on the new information.') } : {}),
+  },
+  required: [
+    ...template.sections.filter(section => section.required).map(section => section.name),
+    MEDICATIONS_KEY,
+    ...(update ? [KEY_CHANGES_SECTION] : []),
+  ],
+});
+
 const differentialDiagnosisSchema = {
     type: Type.OBJECT,
     properties: {
@@ -110,6 +114,27 @@ const differentialDiagnosisSchema = {
     required: ["diagnoses"]
 };
 
+// Fill in any of the template's sections missing from a (possibly partial) model response and run the
+// post-processing rules, e.g. standard and condition-specific safety netting
+function finaliseSummary(summary: Partial<StructuredResponse>, rules: SummaryRule[], template: SummaryTemplate): StructuredResponse {
+  const processed = applySummaryRules(summary, rules, ruleSectionMap(template));
+  const filled: StructuredResponse = {};
+  template.sections.forEach(section => {
+    filled[section.name] = processed[section.name] || [];
+  });
+  Object.keys(processed).forEach(key => {
+    filled[key] = processed[key] || [];
+  });
+  return filled;
+}
+
+// Badges shown against items a clinician changed; AI and standard items are unmarked
+const ITEM_ORIGIN_LABELS: Record<string, string> = { edited: 'Edited', clinician: 'Added by clinician', imported: 'Imported' };
+
+const hasSummaryContent = (summary: Partial<StructuredResponse>) =>
+  Object.values(summary).some(items => Array.isArray(items) && items.length > 0);
+
+
 // Helper function to convert a File object to a base64 string
 async function fileToBase64(file: File): Promise<string> {
   return new Promise((resolve, reject) => {
@@ -123,28 +148,161 @@ async function fileToBase64(file: File): Promise<string> {
   });
 }
 
-function LoginModal({ onAuthenticate }: { onAuthenticate: () => void }) {
+// Shared store written before per-user accounts existed. Imported into the first account that claims it.
+const LEGACY_PATIENT_STORE_KEY = 'patientData';
+
+// The logged-in identity, readable by any component below App
+const CurrentUserContext = React.createContext<CurrentUser | null>(null);
+const useCurrentUser = () => React.useContext(CurrentUserContext);
+
+function CurrentUserBadge() {
+  const user = useCurrentUser();
+  if (!user) return null;
+  return <span className="current-user-badge" title={`Signed in as ${user.username}`}>{user.displayName}</span>;
+}
+
+type LockReason = 'idle' | 'expired' | 'manual';
+
+const LOCK_MESSAGES: Record<LockReason, string> = {
+  idle: 'Locked after a period of inactivity.',
+  expired: 'Your session has reached its maximum length. Please sign in again.',
+  manual: 'Session locked.',
+};
+
+const ACTIVITY_EVENTS = ['mousemove', 'mousedown', 'keydown', 'touchstart', 'wheel', 'scroll'];
+
+// Locks the session after the user's idle timeout or maximum session length,
+// and on the lock-now keyboard shortcut (Ctrl/Cmd+Shift+L).
+function useSessionTimeout(
+  settings: SessionSettings | null,
+  sessionStartedAt: number | null,
+  isLocked: boolean,
+  onLock: (reason: LockReason) => void,
+) {
+  const lastActivityRef = useRef(Date.now());
+  const onLockRef = useRef(onLock);
+  onLockRef.current = onLock;
+
+  useEffect(() => {
+    if (!settings || !sessionStartedAt || isLocked) return;
+    lastActivityRef.current = Date.now();
+
+    const recordActivity = () => {
+      lastActivityRef.current = Date.now();
+    };
+    const handleShortcut = (e: KeyboardEvent) => {
+      if ((e.ctrlKey || e.metaKey) && e.shiftKey && e.key.toLowerCase() === 'l') {
+        e.preventDefault();
+        onLockRef.current('manual');
+      }
+    };
+    const checkTimeouts = () => {
+      const now = Date.now();
+      if (settings.maxSessionHours > 0 && now - sessionStartedAt >= settings.maxSessionHours * 3600000) {
+        onLockRef.current('expired');
+      } else if (settings.idleTimeoutMinutes > 0 && now - lastActivityRef.current >= settings.idleTimeoutMinutes * 60000) {
+        onLockRef.current('idle');
+      }
+    };
+
+    ACTIVITY_EVENTS.forEach(event => window.addEventListener(event, recordActivity, { passive: true }));
+    window.addEventListener('keydown', handleShortcut);
+    // Timers are throttled in background tabs, so also check as soon as the tab becomes visible again
+    document.addEventListener('visibilitychange', checkTimeouts);
+    const intervalId = window.setInterval(checkTimeouts, 15000);
+
+    return () => {
+      ACTIVITY_EVENTS.forEach(event => window.removeEventListener(event, recordActivity));
+      window.removeEventListener('keydown', handleShortcut);
+      document.removeEventListener('visibilitychange', checkTimeouts);
+      window.clearInterval(intervalId);
+    };
+  }, [settings, sessionStartedAt, isLocked]);
+}
+
+interface LoginModalProps {
+  onUnlock: (profile: UserProfile, password: string, legacyPatients?: unknown[]) => Promise<void>;
+  onAuthenticate: () => void;
+  // When set, the modal re-authenticates this user over a locked session instead of offering sign-in/registration
+  lockedUser?: CurrentUser | null;
+  lockReason?: LockReason | null;
+  onSignOut?: () => void;
+}
+
+function LoginModal({ onUnlock, onAuthenticate, lockedUser, lockReason, onSignOut }: LoginModalProps) {
+  const [mode, setMode] = useState<'signin' | 'register'>(() => lockedUser || loadUsers().length > 0 ? 'signin' : 'register');
+  const [username, setUsername] = useState(() => lockedUser?.username || localStorage.getItem(AUTH_CONFIG.lastUserStorageKey) || '');
+  const [displayName, setDisplayName] = useState('');
   const [password, setPassword] = useState('');
+  const [confirmPassword, setConfirmPassword] = useState('');
+  const [legacyPassphrase, setLegacyPassphrase] = useState('');
   const [showPassword, setShowPassword] = useState(false);
-  const [error, setError] = useState(false);
+  const [error, setError] = useState<string | null>(null);
   const [isClosing, setIsClosing] = useState(false);
+  const [isUnlocking, setIsUnlocking] = useState(false);
+  const usernameInputRef = useRef<HTMLInputElement>(null);
   const passwordInputRef = useRef<HTMLInputElement>(null);
 
+  const isRegistering = mode === 'register';
+  // The pre-accounts store is claimed by the next account to sign in; only an encrypted one needs its passphrase
+  const hasLegacyStore = !lockedUser && !!localStorage.getItem(LEGACY_PATIENT_STORE_KEY);
+  const legacyStoreEncrypted = hasLegacyStore && isLocalStorageStoreEncrypted(LEGACY_PATIENT_STORE_KEY);
+
   useEffect(() => {
-    passwordInputRef.current?.focus();
-  }, []);
+    if (username && !isRegistering) {
+      passwordInputRef.current?.focus();
+    } else {
+      usernameInputRef.current?.focus();
+    }
+  }, [mode]);
 
-  const handleSubmit = () => {
-    if (!password) return;
-    
-    if (password === AUTH_PASSWORD) {
+  const handleSubmit = async () => {
+    if (!username.trim() || !password || isUnlocking) return;
+
+    if (isRegistering && password !== confirmPassword) {
+      setError('Passwords do not match.');
+      return;
+    }
+
+    setIsUnlocking(true);
+    setError(null);
+    // Read the pre-accounts store before creating or opening an account, so a wrong passphrase changes nothing
+    let legacyPatients: unknown[] | undefined;
+    if (hasLegacyStore && (!legacyStoreEncrypted || legacyPassphrase)) {
+      try {
+        legacyPatients = (await readLocalStorageStore(LEGACY_PATIENT_STORE_KEY, legacyPassphrase))?.patients;
+      } catch (err) {
+        console.error('Failed to read existing patient data', err);
+        setError(legacyStoreEncrypted
+          ? 'The existing patient data could not be decrypted with that passphrase.'
+          : 'The existing patient data could not be read.');
+        setIsUnlocking(false);
+        return;
+      }
+    }
+    try {
+      const profile = isRegistering
+        ? await createUser(username, displayName, password)
+        : await verifyUser(username, password);
+      if (!profile) {
+        setError('Incorrect username or password. Please try again.');
+        setIsUnlocking(false);
+        return;
+      }
+      // The password doubles as the passphrase for the user's encrypted patient store
+      await onUnlock(profile, password, legacyPatients);
+      localStorage.setItem(AUTH_CONFIG.lastUserStorageKey, profile.username);
       setIsClosing(true);
-      setTimeout(() => {
-        sessionStorage.setItem('hx_auth', 'true');
-        onAuthenticate();
-      }, 400);
-    } else {
-      setError(true);
+      setTimeout(onAuthenticate, 400);
+    } catch (err) {
+      if (err instanceof AccountError) {
+        setError(err.message);
+      } else {
+        console.error('Failed to unlock patient data', err);
+        setError('Patient data could not be decrypted with this password.');
+        if (isRegistering) setMode('signin');
+      }
+      setIsUnlocking(false);
     }
   };
 
@@ -154,18 +312,56 @@ function LoginModal({ onAuthenticate }: { onAuthenticate: () => void }) {
     }
   };
 
-  const handlePasswordChange = (e: React.ChangeEvent<HTMLInputElement>) => {
-    setPassword(e.target.value);
-    if (error) setError(false);
+  const handleSwitchMode = () => {
+    setMode(isRegistering ? 'signin' : 'register');
+    setPassword('');
+    setConfirmPassword('');
+    setError(null);
+  };
+
+  const clearError = () => {
+    if (error) setError(null);
   };
 
   return (
     <div className={`auth-overlay ${isClosing ? 'closing' : ''}`}>
       <div className="auth-modal">
         <div className="auth-lock-icon">🔒</div>
-        <h2 className="auth-title">Authentication Required</h2>
-        <p className="auth-subtitle">AI Clinical Summariser</p>
+        <h2 className="auth-title">{lockedUser ? 'Session Locked' : (isRegistering ? 'Create Account' : 'Sign In')}</h2>
+        <p className="auth-subtitle">
+          {lockedUser && lockReason ? `${LOCK_MESSAGES[lockReason]} Enter the password for ${lockedUser.displayName} to continue.` : 'AI Clinical Summariser'}
+        </p>
         
+        <div className="auth-input-group" hidden={!!lockedUser}>
+          <label htmlFor="username-input" className="auth-label">Username</label>
+          <input
+            ref={usernameInputRef}
+            id="username-input"
+            type="text"
+            value={username}
+            onChange={e => { setUsername(e.target.value); clearError(); }}
+            onKeyPress={handleKeyPress}
+            placeholder="Enter username"
+            className="auth-input"
+            autoComplete="username"
+          />
+        </div>
+
+        {isRegistering && (
+          <div className="auth-input-group">
+            <label htmlFor="display-name-input" className="auth-label">Display Name</label>
+            <input
+              id="display-name-input"
+              type="text"
+              value={displayName}
+              onChange={e => setDisplayName(e.target.value)}
+              onKeyPress={handleKeyPress}
+              placeholder="e.g. Dr A. Smith"
+              className="auth-input"
+            />
+          </div>
+        )}
+
         <div className="auth-input-group">
           <label htmlFor="password-input" className="auth-label">Password</label>
           <div className="password-input-wrapper">
@@ -174,10 +370,11 @@ function LoginModal({ onAuthenticate }: { onAuthenticate: () => void }) {
               id="password-input"
               type={showPassword ? 'text' : 'password'}
               value={password}
-              onChange={handlePasswordChange}
+              onChange={e => { setPassword(e.target.value); clearError(); }}
               onKeyPress={handleKeyPress}
               placeholder="Enter password"
               className="auth-input"
+              autoComplete={isRegistering ? 'new-password' : 'current-password'}
             />
             <button
               type="button"
@@ -188,12 +385,667 @@ function LoginModal({ onAuthenticate }: { onAuthenticate: () => void }) {
               {showPassword ? '👁️' : '👁️‍🗨️'}
             </button>
           </div>
-          {error && <span className="auth-error">Incorrect password. Please try again.</span>}
+          {!isRegistering && error && <span className="auth-error">{error}</span>}
         </div>
+
+        {isRegistering && (
+          <>
+            <div className="auth-input-group">
+              <label htmlFor="confirm-password-input" className="auth-label">Confirm Password</label>
+              <input
+                id="confirm-password-input"
+                type={showPassword ? 'text' : 'password'}
+                value={confirmPassword}
+                onChange={e => { setConfirmPassword(e.target.value); clearError(); }}
+                onKeyPress={handleKeyPress}
+                placeholder="Re-enter password"
+                className="auth-input"
+                autoComplete="new-password"
+              />
+            </div>
+            {error && <span className="auth-error">{error}</span>}
+          </>
+        )}
+
+        {/* Offered at sign-in too, until the pre-accounts store has been claimed */}
+        {hasLegacyStore && !legacyStoreEncrypted && (
+          <p className="auth-note">Patients saved on this device before accounts were added will be moved into this account.</p>
+        )}
+        {legacyStoreEncrypted && (
+          <div className="auth-input-group">
+            <label htmlFor="legacy-passphrase-input" className="auth-label">Existing Data Passphrase (optional)</label>
+            <input
+              id="legacy-passphrase-input"
+              type="password"
+              value={legacyPassphrase}
+              onChange={e => { setLegacyPassphrase(e.target.value); clearError(); }}
+              onKeyPress={handleKeyPress}
+              placeholder="Import patients saved before accounts"
+              className="auth-input"
+            />
+          </div>
+        )}
         
-        <button onClick={handleSubmit} className="auth-submit-btn" disabled={!password}>
-          Unlock
+        <button onClick={handleSubmit} className="auth-submit-btn" disabled={!username.trim() || !password || isUnlocking}>
+          {isUnlocking ? 'Unlocking...' : (isRegistering ? 'Create Account' : 'Unlock')}
         </button>
+        {lockedUser ? (
+          <button type="button" onClick={onSignOut} className="link-button auth-switch-btn" disabled={isUnlocking}>
+            Not {lockedUser.displayName}? Sign out
+          </button>
+        ) : (
+          <button type="button" onClick={handleSwitchMode} className="link-button auth-switch-btn" disabled={isUnlocking}>
+            {isRegistering ? 'Already have an account? Sign in' : 'New clinician? Create an account'}
+          </button>
+        )}
+      </div>
+    </div>
+  );
+}
+
+interface ScoreCalculatorsPanelProps {
+  record: SummaryRecord;
+  patient: Patient;
+  onSave: (score: SavedScore) => void;
+}
+
+// Clinical score calculators pre-filled from the viewed summary and its notes. Each input shows where its
+// value came from; nothing is saved until the clinician confirms the inputs.
+function ScoreCalculatorsPanel({ record, patient, onSave }: ScoreCalculatorsPanelProps) {
+  const user = useCurrentUser();
+  const [calculatorId, setCalculatorId] = useState(SCORE_CALCULATORS[0].id);
+  const [values, setValues] = useState<Record<string, ScoreValue>>({});
+  const calculator = SCORE_CALCULATORS.find(candidate => candidate.id === calculatorId) || SCORE_CALCULATORS[0];
+
+  // Keyed on the record's content so saving a score does not discard the clinician's corrections
+  const prefilled = useMemo(
+    () => calculator.extract(buildScoreContext(record, patient)),
+    [calculator, record.summary, record.input, record.medications, record.timestamp, patient.dob]
+  );
+
+  useEffect(() => {
+    setValues(Object.fromEntries(calculator.inputs.map(input => [input.id, prefilled[input.id]?.value ?? initialValue(input)])));
+  }, [calculator, prefilled]);
+
+  const result = calculator.calculate(values);
+  const savedScores = record.scores || [];
+
+  const setValue = (id: string, value: ScoreValue) => setValues(prev => ({ ...prev, [id]: value }));
+
+  const renderInput = (input: CalculatorInput) => {
+    const value = values[input.id] ?? initialValue(input);
+    if (input.type === 'boolean') {
+      return <input type="checkbox" checked={value === true} onChange={e => setValue(input.id, e.target.checked)} />;
+    }
+    if (input.type === 'choice') {
+      return (
+        <select value={typeof value === 'string' ? value : ''} onChange={e => setValue(input.id, e.target.value || null)}>
+          <option value="">Select...</option>
+          {input.options?.map(option => <option key={option.value} value={option.value}>{option.label}</option>)}
+        </select>
+      );
+    }
+    return (
+      <input
+        type="number"
+        value={typeof value === 'number' ? value : ''}
+        onChange={e => setValue(input.id, e.target.value === '' ? null : Number(e.target.value))}
+      />
+    );
+  };
+
+  return (
+    <div className="score-calculators">
+      <select value={calculatorId} onChange={e => setCalculatorId(e.target.value)} aria-label="Score calculator">
+        {SCORE_CALCULATORS.map(candidate => (
+          <option key={candidate.id} value={candidate.id}>
+            {candidate.name}{savedScores.some(score => score.calculatorId === candidate.id) ? ' (saved)' : ''}
+          </option>
+        ))}
+      </select>
+      <p className="settings-hint">{calculator.description}</p>
+      <ul className="score-inputs">
+        {calculator.inputs.map(input => {
+          const prefill = prefilled[input.id];
+          return (
+            <li key={input.id} className="score-input">
+              <label>
+                <span className="score-input-label">{input.label}{input.unit ? ` (${input.unit})` : ''}</span>
+                {renderInput(input)}
+              </label>
+              {prefill
+                ? <span className="score-evidence">From notes: &ldquo;{prefill.evidence}&rdquo;</span>
+                : <span className="score-evidence score-not-found">Not found in the notes</span>}
+            </li>
+          );
+        })}
+      </ul>
+      <div className="score-result">
+        <strong>{result.score === null ? calculator.name : `${calculator.name}: ${result.score}`}</strong>
+        <p>{result.interpretation}</p>
+      </div>
+      <button onClick={() => user && onSave(createSavedScore(calculator, values, prefilled, user))} disabled={!user}>
+        Confirm Inputs and Save
+      </button>
+      {savedScores.length > 0 && (
+        <div className="saved-scores">
+          <h4>Saved Scores</h4>
+          <ul>
+            {savedScores.map(score => (
+              <li key={score.calculatorId}>
+                <strong>{score.score === null ? score.name : `${score.name}: ${score.score}`}</strong> &mdash; {score.interpretation}
+                <div className="saved-score-meta">
+                  {score.completedBy.displayName}, {new Date(score.completedAt).toLocaleString()}
+                </div>
+              </li>
+            ))}
+          </ul>
+        </div>
+      )}
+    </div>
+  );
+}
+
+// The letterhead settings form, in the order the fields are shown
+const LETTERHEAD_FIELDS: { key: keyof Letterhead; label: string; placeholder?: string; multiline?: boolean }[] = [
+  { key: 'practiceName', label: 'Practice name' },
+  { key: 'address', label: 'Address', multiline: true },
+  { key: 'telephone', label: 'Telephone' },
+  { key: 'email', label: 'Email' },
+  { key: 'odsCode', label: 'ODS code', placeholder: 'e.g. A81001' },
+  { key: 'clinicianName', label: 'Signing clinician', placeholder: 'Defaults to your display name' },
+  { key: 'clinicianRole', label: 'Role', placeholder: 'e.g. General Practitioner' },
+  { key: 'registration', label: 'Registration number', placeholder: 'e.g. GMC 1234567' },
+];
+
+interface ReferralBuilderModalProps {
+  referral: ReferralLetter;
+  patient: Patient;
+  letterhead: Letterhead;
+  // Drafts the body with the model; resolves to null if the clinician cancels the request
+  onDraft: (referral: ReferralLetter) => Promise<{ body: string; promptVersion: PromptVersionRef } | null>;
+  onSave: (referral: ReferralLetter) => void;
+  onClose: () => void;
+}
+
+// Build a referral letter from a specialty template: draft the body from the summary, edit it, then save
+// it to the patient's history and export it. Patient details are merged in on this device.
+function ReferralBuilderModal({ referral, patient, letterhead, onDraft, onSave, onClose }: ReferralBuilderModalProps) {
+  const [templateId, setTemplateId] = useState(referral.templateId);
+  const [specialty, setSpecialty] = useState(referral.specialty);
+  const [urgency, setUrgency] = useState<ReferralUrgency>(referral.urgency);
+  // Stored bodies may come from a restored backup, so they are sanitised before reaching the editor
+  const [body, setBody] = useState(() => sanitiseLetterHtml(referral.body));
+  const [promptVersion, setPromptVersion] = useState(referral.promptVersion);
+  const [isDrafting, setIsDrafting] = useState(false);
+  const [isExporting, setIsExporting] = useState(false);
+  const [notice, setNotice] = useState<string | null>(null);
+  const [error, setError] = useState<string | null>(null);
+  const editorRef = useRef<HTMLDivElement>(null);
+  const template = findReferralTemplate(templateId);
+  const unfilled = unfilledPlaceholders(body);
+
+  // The editor's content is only replaced when a letter is opened or drafted, so typing keeps the caret in place
+  const loadBody = (html: string) => {
+    const clean = sanitiseLetterHtml(html);
+    setBody(clean);
+    if (editorRef.current) editorRef.current.innerHTML = clean;
+  };
+
+  // Mounted afresh for each letter opened
+  useEffect(() => {
+    if (editorRef.current) editorRef.current.innerHTML = body;
+  }, []);
+
+  const currentLetter = (): ReferralLetter => ({
+    ...referral,
+    templateId,
+    specialty: specialty.trim(),
+    urgency,
+    body: sanitiseLetterHtml(body),
+    ...(promptVersion ? { promptVersion } : {}),
+    updatedAt: new Date().toISOString(),
+  });
+
+  const handleChooseTemplate = (id: string) => {
+    const chosen = findReferralTemplate(id);
+    setTemplateId(chosen.id);
+    if (chosen.specialty) setSpecialty(chosen.specialty);
+    setUrgency(chosen.urgency);
+  };
+
+  const handleDraft = async () => {
+    if (body.trim() && !window.confirm('Replace the letter text with a new draft?')) return;
+    setIsDrafting(true);
+    setError(null);
+    setNotice(null);
+    try {
+      const drafted = await onDraft(currentLetter());
+      if (drafted) {
+        loadBody(drafted.body);
+        setPromptVersion(drafted.promptVersion);
+      }
+    } catch (err) {
+      console.error('Error drafting referral letter:', err);
+      setError('Could not draft the referral letter at this time.');
+    } finally {
+      setIsDrafting(false);
+    }
+  };
+
+  // Formatting for the selected text; the buttons keep focus in the editor so the selection survives
+  const format = (command: string) => (e: React.MouseEvent) => {
+    e.preventDefault();
+    document.execCommand(command);
+    setBody(editorRef.current?.innerHTML || '');
+  };
+
+  const handleSave = () => {
+    onSave(currentLetter());
+    setNotice("Saved to the patient's referrals.");
+  };
+
+  const download = (blob: Blob, fileName: string) => {
+    const url = URL.createObjectURL(blob);
+    const link = document.createElement('a');
+    link.href = url;
+    link.download = fileName;
+    link.click();
+    setTimeout(() => URL.revokeObjectURL(url), 60000);
+  };
+
+  // Exported letters are saved first, so the history holds exactly what was sent
+  const handleExportPdf = () => {
+    if (typeof (window as any).html2pdf === 'undefined') {
+      setError('PDF export library not available. Please try again later.');
+      return;
+    }
+    const letter = currentLetter();
+    onSave(letter);
+    setIsExporting(true);
+    setError(null);
+    const options = {
+      margin: 20,
+      filename: referralFileName(letter, patient, 'pdf'),
+      image: { type: 'jpeg', quality: 0.98 },
+      html2canvas: { scale: 2, useCORS: true, letterRendering: true },
+      jsPDF: { unit: 'mm', format: 'a4', orientation: 'portrait' },
+    };
+    (window as any).html2pdf().from(letterDocumentHtml(letter, patient, letterhead)).set(options).save()
+      .then(() => setNotice('Saved and exported as PDF.'))
+      .catch((err: Error) => {
+        console.error('PDF generation failed:', err);
+        setError('Sorry, there was an error exporting the PDF.');
+      })
+      .finally(() => setIsExporting(false));
+  };
+
+  const handleExportDocx = () => {
+    const letter = currentLetter();
+    onSave(letter);
+    try {
+      download(letterDocx(letter, patient, letterhead), referralFileName(letter, patient, 'docx'));
+      setError(null);
+      setNotice('Saved and exported as a Word document.');
+    } catch (err) {
+      console.error('DOCX generation failed:', err);
+      setError('Sorry, there was an error exporting the Word document.');
+    }
+  };
+
+  return (
+    <div className="modal-overlay" onClick={onClose}>
+      <div className="modal-content referral-modal-content" onClick={e => e.stopPropagation()}>
+        <div className="modal-header">
+          <h3>Referral Letter</h3>
+          <button onClick={onClose} className="close-modal-btn">&times;</button>
+        </div>
+        <div className="modal-body">
+          <div className="referral-options">
+            <div className="form-group">
+              <label htmlFor="referral-template">Template</label>
+              <select id="referral-template" value={templateId} onChange={e => handleChooseTemplate(e.target.value)} disabled={isDrafting}>
+                {REFERRAL_TEMPLATES.map(candidate => <option key={candidate.id} value={candidate.id}>{candidate.name}</option>)}
+              </select>
+            </div>
+            <div className="form-group">
+              <label htmlFor="referral-specialty">Specialty</label>
+              <input id="referral-specialty" type="text" value={specialty} onChange={e => setSpecialty(e.target.value)} placeholder="e.g. Gastroenterology" disabled={isDrafting} />
+            </div>
+            <div className="form-group">
+              <label htmlFor="referral-urgency">Urgency</label>
+              <select id="referral-urgency" value={urgency} onChange={e => setUrgency(e.target.value as ReferralUrgency)} disabled={isDrafting}>
+                {(Object.keys(REFERRAL_URGENCY_LABELS) as ReferralUrgency[]).map(option => (
+                  <option key={option} value={option}>{REFERRAL_URGENCY_LABELS[option]}</option>
+                ))}
+              </select>
+            </div>
+          </div>
+          <p className="settings-hint">{template.guidance}</p>
+          <div className="referral-header-preview">
+            {letterhead.practiceName
+              ? <strong>{letterhead.practiceName}</strong>
+              : <span className="field-warning">No practice letterhead set. Add one in Settings.</span>}
+            <div>Re: {patient.name}{patient.dob && `, born ${patient.dob}`}{patient.nhsNumber && `, NHS ${patient.nhsNumber}`}</div>
+          </div>
+          <div className="referral-toolbar">
+            <button type="button" onMouseDown={format('bold')} aria-label="Bold"><strong>B</strong></button>
+            <button type="button" onMouseDown={format('italic')} aria-label="Italic"><em>I</em></button>
+            <button type="button" onMouseDown={format('underline')} aria-label="Underline"><u>U</u></button>
+            <button type="button" onMouseDown={format('insertUnorderedList')} aria-label="Bulleted list">&bull; List</button>
+            <button type="button" onClick={handleDraft} disabled={isDrafting || !specialty.trim()} className="referral-draft-btn">
+              {isDrafting ? 'Drafting...' : body.trim() ? 'Redraft with AI' : 'Draft with AI'}
+            </button>
+          </div>
+          <div
+            ref={editorRef}
+            className="referral-editor"
+            contentEditable={!isDrafting}
+            suppressContentEditableWarning
+            onInput={e => setBody(e.currentTarget.innerHTML)}
+            role="textbox"
+            aria-multiline="true"
+            aria-label="Referral letter text"
+          />
+          {unfilled.length > 0 && (
+            <div className="field-warning">Still to fill in: {unfilled.join(', ')}</div>
+          )}
+          {promptVersion && <div className="prompt-version">Drafted with the {promptVersionLabel(promptVersion)}</div>}
+          {error && <p className="auth-error">{error}</p>}
+          {notice && <p className="backup-notice">{notice}</p>}
+        </div>
+        <div className="modal-footer">
+          <button onClick={onClose} className="cancel-button">Close</button>
+          <button onClick={handleSave} disabled={!body.trim() || isDrafting}>Save</button>
+          <button onClick={handleExportPdf} disabled={!body.trim() || isDrafting || isExporting}>{isExporting ? 'Exporting...' : 'Export PDF'}</button>
+          <button onClick={handleExportDocx} disabled={!body.trim() || isDrafting}>Export DOCX</button>
+        </div>
+      </div>
+    </div>
+  );
+}
+
+interface BackupModalProps {
+  patients: Patient[];
+  userId: string;
+  storeKey: StoreKey;
+  onRestore: (patients: Patient[]) => void;
+  onClose: () => void;
+}
+
+// Export every patient to a passphrase-encrypted archive, or restore one by merging or replacing
+function BackupModal({ patients, userId, storeKey, onRestore, onClose }: BackupModalProps) {
+  const [tab, setTab] = useState<'export' | 'restore'>('export');
+  const [passphrase, setPassphrase] = useState('');
+  const [confirmPassphrase, setConfirmPassphrase] = useState('');
+  const [backupFile, setBackupFile] = useState<File | null>(null);
+  const [contents, setContents] = useState<BackupContents | null>(null);
+  const [restoreMode, setRestoreMode] = useState<'merge' | 'replace'>('merge');
+  const [choices, setChoices] = useState<Record<string, ConflictChoice>>({});
+  const [isWorking, setIsWorking] = useState(false);
+  const [notice, setNotice] = useState<string | null>(null);
+  const [error, setError] = useState<string | null>(null);
+
+  const conflicts = useMemo(() => (contents ? findConflicts(patients, contents.patients) : []), [contents, patients]);
+  const newPatientCount = contents ? contents.patients.filter(p => !patients.some(local => local.id === p.id)).length : 0;
+
+  const handleSwitchTab = (next: 'export' | 'restore') => {
+    setTab(next);
+    setPassphrase('');
+    setConfirmPassphrase('');
+    setBackupFile(null);
+    setContents(null);
+    setNotice(null);
+    setError(null);
+  };
+
+  const handleExport = async () => {
+    if (passphrase.length < AUTH_CONFIG.minPasswordLength) {
+      setError(`Use a passphrase of at least ${AUTH_CONFIG.minPasswordLength} characters.`);
+      return;
+    }
+    if (passphrase !== confirmPassphrase) {
+      setError('Passphrases do not match.');
+      return;
+    }
+    setIsWorking(true);
+    setError(null);
+    try {
+      const { blob, missingAttachments } = await createBackup(patients, meta => loadAttachment(meta, userId, storeKey), passphrase);
+      const url = URL.createObjectURL(blob);
+      const link = document.createElement('a');
+      link.href = url;
+      link.download = `hx-backup-${new Date().toISOString().slice(0, 10)}${BACKUP_FILE_EXTENSION}`;
+      link.click();
+      setTimeout(() => URL.revokeObjectURL(url), 60000);
+      setNotice(`Backup of ${patients.length} patient${patients.length === 1 ? '' : 's'} downloaded.`
+        + (missingAttachments > 0 ? ` ${missingAttachments} stored document${missingAttachments === 1 ? ' was' : 's were'} missing and could not be included.` : ''));
+      setPassphrase('');
+      setConfirmPassphrase('');
+    } catch (err) {
+      console.error('Backup export failed', err);
+      setError('The backup could not be created.');
+    } finally {
+      setIsWorking(false);
+    }
+  };
+
+  const handleReadBackup = async () => {
+    if (!backupFile || !passphrase) return;
+    setIsWorking(true);
+    setError(null);
+    try {
+      const read = await readBackup(backupFile, passphrase);
+      // Default each conflict to whichever copy was changed most recently
+      setChoices(Object.fromEntries(findConflicts(patients, read.patients).map(conflict => [conflict.patientId, conflict.newer])));
+      setContents(read);
+    } catch (err) {
+      console.error('Backup could not be read', err);
+      setError(err instanceof BackupError ? err.message : 'The backup could not be read.');
+    } finally {
+      setIsWorking(false);
+    }
+  };
+
+  const handleRestore = async () => {
+    if (!contents) return;
+    if (restoreMode === 'replace' && !window.confirm(`Replace all ${patients.length} patients on this device with the ${contents.patients.length} in the backup? This cannot be undone.`)) {
+      return;
+    }
+    setIsWorking(true);
+    setError(null);
+    try {
+      const restored = restoreMode === 'replace' ? contents.patients : mergePatients(patients, contents.patients, choices);
+      // Documents are written first so restored records never point at missing attachments
+      for (const attachment of attachmentsToRestore(contents, restored)) {
+        await restoreAttachment(attachment.meta, attachmentBytes(attachment), userId, storeKey);
+      }
+      onRestore(restored);
+      setNotice(`Backup restored: ${restored.length} patient${restored.length === 1 ? '' : 's'} on this device.`);
+      setContents(null);
+      setBackupFile(null);
+      setPassphrase('');
+    } catch (err) {
+      console.error('Backup restore failed', err);
+      setError(err instanceof Error ? err.message : 'The backup could not be restored.');
+    } finally {
+      setIsWorking(false);
+    }
+  };
+
+  return (
+    <div className="modal-overlay" onClick={onClose}>
+      <div className="modal-content backup-modal-content" onClick={e => e.stopPropagation()}>
+        <div className="modal-header">
+          <h3>Backup & Restore</h3>
+          <button onClick={onClose} className="close-modal-btn">&times;</button>
+        </div>
+        <div className="modal-body">
+          <div className="backup-tabs">
+            <button className={tab === 'export' ? 'active' : ''} onClick={() => handleSwitchTab('export')}>Export</button>
+            <button className={tab === 'restore' ? 'active' : ''} onClick={() => handleSwitchTab('restore')}>Restore</button>
+          </div>
+          {tab === 'export' ? (
+            <>
+              <p className="settings-hint">
+                Saves every patient, summary, draft and stored document into one encrypted file.
+                The passphrase is needed to restore it and cannot be recovered if lost.
+              </p>
+              <div className="form-group">
+                <label htmlFor="backup-passphrase">Backup passphrase</label>
+                <input id="backup-passphrase" type="password" value={passphrase} onChange={e => setPassphrase(e.target.value)} autoComplete="new-password" />
+              </div>
+              <div className="form-group">
+                <label htmlFor="backup-passphrase-confirm">Confirm passphrase</label>
+                <input id="backup-passphrase-confirm" type="password" value={confirmPassphrase} onChange={e => setConfirmPassphrase(e.target.value)} autoComplete="new-password" />
+              </div>
+            </>
+          ) : !contents ? (
+            <>
+              <div className="form-group">
+                <label htmlFor="backup-file">Backup file</label>
+                <input id="backup-file" type="file" accept={`${BACKUP_FILE_EXTENSION},application/json`} onChange={e => setBackupFile(e.target.files?.[0] || null)} />
+              </div>
+              <div className="form-group">
+                <label htmlFor="restore-passphrase">Backup passphrase</label>
+                <input id="restore-passphrase" type="password" value={passphrase} onChange={e => setPassphrase(e.target.value)} />
+              </div>
+            </>
+          ) : (
+            <>
+              <p className="settings-hint">
+                Backup from {new Date(contents.exportedAt).toLocaleString()}: {contents.patients.length} patient{contents.patients.length === 1 ? '' : 's'}
+                {' '}({newPatientCount} new, {conflicts.length} in conflict with this device).
+              </p>
+              <div className="form-group backup-mode">
+                <label><input type="radio" checked={restoreMode === 'merge'} onChange={() => setRestoreMode('merge')} /> Merge with the patients on this device</label>
+                <label><input type="radio" checked={restoreMode === 'replace'} onChange={() => setRestoreMode('replace')} /> Replace all patients on this device</label>
+              </div>
+              {restoreMode === 'merge' && conflicts.length > 0 && (
+                <table className="backup-conflict-table">
+                  <thead>
+                    <tr><th>Patient</th><th>This device</th><th>Backup</th><th>Keep</th></tr>
+                  </thead>
+                  <tbody>
+                    {conflicts.map(conflict => (
+                      <tr key={conflict.patientId}>
+                        <td>{conflict.name}</td>
+                        <td>{conflict.localModified ? new Date(conflict.localModified).toLocaleString() : '—'}</td>
+                        <td>{conflict.backupModified ? new Date(conflict.backupModified).toLocaleString() : '—'}</td>
+                        <td>
+                          <select
+                            value={choices[conflict.patientId]}
+                            onChange={e => setChoices({ ...choices, [conflict.patientId]: e.target.value as ConflictChoice })}
+                          >
+                            <option value="local">This device{conflict.newer === 'local' ? ' (newer)' : ''}</option>
+                            <option value="backup">Backup{conflict.newer === 'backup' ? ' (newer)' : ''}</option>
+                          </select>
+                        </td>
+                      </tr>
+                    ))}
+                  </tbody>
+                </table>
+              )}
+            </>
+          )}
+          {error && <p className="auth-error">{error}</p>}
+          {notice && <p className="backup-notice">{notice}</p>}
+        </div>
+        <div className="modal-footer">
+          {tab === 'restore' && contents && (
+            <button onClick={() => setContents(null)} className="cancel-button" disabled={isWorking}>Back</button>
+          )}
+          <button onClick={onClose} className="cancel-button">Close</button>
+          {tab === 'export' && (
+            <button onClick={handleExport} disabled={isWorking || !passphrase}>{isWorking ? 'Encrypting...' : 'Download Backup'}</button>
+          )}
+          {tab === 'restore' && !contents && (
+            <button onClick={handleReadBackup} disabled={isWorking || !backupFile || !passphrase}>{isWorking ? 'Checking...' : 'Check Backup'}</button>
+          )}
+          {tab === 'restore' && contents && (
+            <button onClick={handleRestore} disabled={isWorking}>{isWorking ? 'Restoring...' : 'Restore'}</button>
+          )}
+        </div>
+      </div>
+    </div>
+  );
+}
+
+// A request as it will leave the browser, held until the clinician confirms it
+interface OutgoingRequest {
+  task: LlmTask;
+  parts: LlmPart[];
+  // Names of the inline files, in the order they appear in `parts`
+  fileNames: string[];
+  redaction: RedactionEntry[];
+  redactionEnabled: boolean;
+}
+
+// Tokens are highlighted so the clinician can see what was replaced
+const highlightTokens = (text: string) =>
+  text.split(/(\[(?:NAME|NHS_NUMBER|DOB|POSTCODE|PHONE|EMAIL)_\d+\])/g).map((segment, index) =>
+    index % 2 === 1 ? <mark key={index} className="redaction-token">{segment}</mark> : segment
+  );
+
+interface OutgoingPreviewModalProps {
+  request: OutgoingRequest;
+  onSend: () => void;
+  onCancel: () => void;
+}
+
+// Shows exactly what a request will send. The token table stays on this device.
+function OutgoingPreviewModal({ request, onSend, onCancel }: OutgoingPreviewModalProps) {
+  let fileIndex = 0;
+  return (
+    <div className="modal-overlay" onClick={onCancel}>
+      <div className="modal-content outgoing-preview-content" onClick={e => e.stopPropagation()}>
+        <div className="modal-header">
+          <h3>Review Before Sending: {LLM_TASK_LABELS[request.task]}</h3>
+          <button onClick={onCancel} className="close-modal-btn">&times;</button>
+        </div>
+        <div className="modal-body">
+          {!request.redactionEnabled && (
+            <p className="outgoing-warning">Identifier redaction is switched off in Settings. The text below is sent as written.</p>
+          )}
+          {request.parts.map((part, index) => {
+            if ('text' in part) {
+              return <pre key={index} className="outgoing-text">{highlightTokens(part.text)}</pre>;
+            }
+            const name = request.fileNames[fileIndex++] || 'Attached file';
+            return (
+              <p key={index} className="outgoing-warning">
+                <strong>{name}</strong> ({part.inlineData.mimeType || 'unknown type'}) is sent as an attachment and cannot be redacted.
+              </p>
+            );
+          })}
+          {request.redaction.length > 0 && (
+            <>
+              <h4 className="settings-section-title">Replaced identifiers (kept on this device)</h4>
+              <table className="redaction-table">
+                <thead>
+                  <tr><th>Token</th><th>Type</th><th>Original</th><th>Times</th></tr>
+                </thead>
+                <tbody>
+                  {request.redaction.map(entry => (
+                    <tr key={entry.token}>
+                      <td><code>{entry.token}</code></td>
+                      <td>{IDENTIFIER_LABELS[entry.kind]}</td>
+                      <td>{entry.original}</td>
+                      <td>{entry.occurrences}</td>
+                    </tr>
+                  ))}
+                </tbody>
+              </table>
+            </>
+          )}
+          {request.redactionEnabled && request.redaction.length === 0 && (
+            <p className="settings-hint">No identifiers were detected. Check the text above before sending.</p>
+          )}
+        </div>
+        <div className="modal-footer">
+          <button onClick={onCancel} className="cancel-button">Cancel</button>
+          <button onClick={onSend}>Send</button>
+        </div>
       </div>
     </div>
   );
@@ -207,68 +1059,133 @@ function App() {
   const [error, setError] = useState<string | null>(null);
   const [copied, setCopied] = useState(false);
 
+  // Streaming summary state: sections render as partial JSON arrives
+  const [streamingSummary, setStreamingSummary] = useState<Partial<StructuredResponse> | null>(null);
+  const generationAbortRef = useRef<AbortController | null>(null);
+  // The local red-flag check on notes whose generation stopped before any summary arrived
+  const [inputRedFlags, setInputRedFlags] = useState<RedFlagAssessment | null>(null);
+
+  // The citation whose source text is shown, for the draft or the viewed history record
+  const [activeCitation, setActiveCitation] = useState<{ scope: 'draft' | 'summary'; citation: ItemCitation; sources: SummarySource[] } | null>(null);
+  const citationMarkRef = useRef<HTMLElement>(null);
+
   // AI Insights state
   const [insights, setInsights] = useState<string | null>(null);
   const [insightsLoading, setInsightsLoading] = useState(false);
   
-  // Referral Letter state
-  const [referralLetter, setReferralLetter] = useState<string | null>(null);
-  const [referralSpecialty, setReferralSpecialty] = useState<string | null>(null);
-  const [referralLetterLoading, setReferralLetterLoading] = useState(false);
-  const [referralCopied, setReferralCopied] = useState(false);
-  const [showReferralInput, setShowReferralInput] = useState(false);
-  const [referralSpecialtyInput, setReferralSpecialtyInput] = useState('');
+  // The referral letter open in the builder, new or from the patient's history
+  const [openReferral, setOpenReferral] = useState<ReferralLetter | null>(null);
   const [isExportingPdf, setIsExportingPdf] = useState(false);
-  const referralContainerRef = useRef<HTMLDivElement>(null);
 
   // Differential Diagnosis state
   const [differentialDiagnosis, setDifferentialDiagnosis] = useState<DifferentialDiagnosis[] | null>(null);
   const [differentialDiagnosisLoading, setDifferentialDiagnosisLoading] = useState(false);
 
+  // The prompt version behind each assistant output currently shown
+  const [outputPromptVersions, setOutputPromptVersions] = useState<Partial<Record<PromptId, PromptVersionRef>>>({});
+
   // Voice Dictation state
   const [isListening, setIsListening] = useState(false);
   // FIX: Use `any` for SpeechRecognition type as it is not defined in the current TS scope
   // and is shadowed by a constant with the same name.
   const recognitionRef = useRef<any | null>(null);
 
-  // Patient management state with autosave from localStorage
-  const [patients, setPatients] = useState<Patient[]>(() => {
-    try {
-      const savedData = localStorage.getItem('patientData');
-      return savedData ? JSON.parse(savedData) : [];
-    } catch (e) {
-      console.error("Failed to parse patient data from localStorage", e);
-      return [];
-    }
-  });
+  // Patient management state, decrypted from the patient repository at unlock time
+  const [patients, setPatients] = useState<Patient[]>([]);
+  // The unlocked repository holds the store key in memory only; it is discarded on logout
+  const [repository, setRepository] = useState<PatientRepository | null>(null);
+  const storeKey = repository?.storeKey ?? null;
+  // The patient objects last handed to the repository, used to write only what changed
+  const savedPatientsRef = useRef<Map<string, Patient>>(new Map());
+  // Failed or impossible writes (e.g. storage full), shown until a later save succeeds
+  const [storageError, setStorageError] = useState<string | null>(null);
 
   const [newPatientName, setNewPatientName] = useState('');
   const [selectedPatientId, setSelectedPatientId] = useState<string | null>(null);
   const [searchTerm, setSearchTerm] = useState('');
   const [viewingSummaryIndex, setViewingSummaryIndex] = useState(0);
+  // Timestamps of the summaries picked for comparison; null when the timeline is not in compare mode
+  const [compareTimestamps, setCompareTimestamps] = useState<string[] | null>(null);
+  const [problemView, setProblemView] = useState<'list' | 'timeline'>('list');
   const [isSidebarOpen, setIsSidebarOpen] = useState(true);
 
   // Patient Edit Modal State
   const [isEditModalOpen, setIsEditModalOpen] = useState(false);
-  const [editingPatientDetails, setEditingPatientDetails] = useState<Omit<Patient, 'summaries'> | null>(null);
+  const [editingPatientDetails, setEditingPatientDetails] = useState<PatientDetails | null>(null);
 
-  // Authentication State
-  const [isAuthenticated, setIsAuthenticated] = useState<boolean>(() => {
-    return sessionStorage.getItem('hx_auth') === 'true';
-  });
+  // Authentication State. The store key is never persisted, so every page load requires unlocking.
+  const [isAuthenticated, setIsAuthenticated] = useState(false);
+  const [currentUser, setCurrentUser] = useState<CurrentUser | null>(null);
+
+  // Remove stored documents that no record or draft refers to any more. A failure only leaves an orphaned encrypted blob.
+  const discardAttachments = (ids: string[]) => {
+    if (!currentUser) return;
+    deleteAttachments(ids, currentUser.id).catch(err => console.error('Error deleting attachments:', err));
+  };
+  // A locked session keeps its decrypted data and in-progress input, but hides them until the user re-authenticates
+  const [lockReason, setLockReason] = useState<LockReason | null>(null);
+  const [sessionStartedAt, setSessionStartedAt] = useState<number | null>(null);
 
   // GDPR & Privacy State
   const [showGdprBanner, setShowGdprBanner] = useState(false);
   const [isPrivacyModalOpen, setIsPrivacyModalOpen] = useState(false);
+  const [isBackupModalOpen, setIsBackupModalOpen] = useState(false);
+
+  // Settings Modal State
+  const [isSettingsModalOpen, setIsSettingsModalOpen] = useState(false);
+  const [editingSessionSettings, setEditingSessionSettings] = useState<SessionSettings | null>(null);
+  const [editingLlmSettings, setEditingLlmSettings] = useState<LlmSettings | null>(null);
+  // The drug safety table is edited as JSON and only replaces the saved table once it parses
+  const [editingDrugSafetyText, setEditingDrugSafetyText] = useState('');
+  const [drugSafetyError, setDrugSafetyError] = useState<string | null>(null);
+  const [editingSummaryRulesText, setEditingSummaryRulesText] = useState('');
+  const [summaryRulesError, setSummaryRulesError] = useState<string | null>(null);
+  const [editingSummaryTemplatesText, setEditingSummaryTemplatesText] = useState('');
+  const [summaryTemplatesError, setSummaryTemplatesError] = useState<string | null>(null);
+  const [editingPromptTexts, setEditingPromptTexts] = useState<Record<PromptId, string> | null>(null);
+  const [promptLibraryError, setPromptLibraryError] = useState<string | null>(null);
+  const [editingLetterhead, setEditingLetterhead] = useState<Letterhead | null>(null);
+
+  // Provider and model routing for each AI task
+  const [llmSettings, setLlmSettings] = useState<LlmSettings>(loadLlmSettings);
+  // Allergy cross-reactivity and interaction rules used to check generated plans
+  const [drugSafetyTable, setDrugSafetyTable] = useState<DrugSafetyTable>(loadDrugSafetyTable);
+  // Safety-netting and other post-processing rules applied to every summary
+  const [summaryRules, setSummaryRules] = useState<SummaryRule[]>(loadSummaryRules);
+  // The sections and prompt wording a summary can be generated with
+  const [summaryTemplates, setSummaryTemplates] = useState<SummaryTemplate[]>(loadSummaryTemplates);
+  // Versioned wording for each prompt the app sends
+  const [promptLibrary, setPromptLibrary] = useState<PromptLibrary>(loadPromptLibrary);
+  // Practice details printed on referral letters
+  const [letterhead, setLetterhead] = useState<Letterhead>(loadLetterhead);
+  // The template picked for the next generation; null follows the patient's latest summary
+  const [chosenTemplateId, setChosenTemplateId] = useState<string | null>(null);
+  // A request waiting in the outgoing preview, and the callback that sends or cancels it
+  const [outgoingRequest, setOutgoingRequest] = useState<{ request: OutgoingRequest; resolve: (send: boolean) => void } | null>(null);
 
   // Check for SpeechRecognition API
   const SpeechRecognition = (window as any).SpeechRecognition || (window as any).webkitSpeechRecognition;
   const isSpeechRecognitionSupported = !!SpeechRecognition;
   
-  // Effect to save patients to localStorage whenever they change
+  // Effect to save changed patients to the repository. Updates replace patient objects,
+  // so comparing against the last saved objects finds exactly the patients to write.
   useEffect(() => {
-    localStorage.setItem('patientData', JSON.stringify(patients));
-  }, [patients]);
+    if (!repository) return; // Nothing is written until the store has been unlocked
+    const saved = savedPatientsRef.current;
+    const changed = patients.filter(p => saved.get(p.id) !== p);
+    const removedIds = [...saved.keys()].filter(id => !patients.some(p => p.id === id));
+    if (changed.length === 0 && removedIds.length === 0) return;
+    savedPatientsRef.current = new Map(patients.map(p => [p.id, p]));
+
+    Promise.all([...changed.map(p => repository.save(p)), ...removedIds.map(id => repository.remove(id))])
+      .then(() => setStorageError(null))
+      .catch(err => {
+        console.error("Failed to save patient data", err);
+        // Forget the failed patients so the next change retries them
+        changed.forEach(p => savedPatientsRef.current.delete(p.id));
+        setStorageError(err instanceof RepositoryError ? err.message : "Patient data could not be saved securely.");
+      });
+  }, [patients, repository]);
 
   // Effect to check for GDPR acknowledgment
   useEffect(() => {
@@ -278,13 +1195,6 @@ function App() {
     }
   }, []);
   
-  // Effect to scroll to the referral letter when it's generated
-  useEffect(() => {
-    if (referralLetter && referralContainerRef.current) {
-      referralContainerRef.current.scrollIntoView({ behavior: 'smooth', block: 'start' });
-    }
-  }, [referralLetter]);
-
   // Effect to set up Speech Recognition
   useEffect(() => {
     if (!isSpeechRecognitionSupported) {
@@ -343,6 +1253,17 @@ function App() {
     return patients.find(p => p.id === selectedPatientId) || null;
   }, [patients, selectedPatientId]);
 
+  const selectedDuplicates = useMemo(
+    () => (selectedPatient ? findDuplicatePatients(selectedPatient, patients) : []),
+    [selectedPatient, patients]
+  );
+
+  // Patients that look like another record, flagged in the patient list
+  const duplicatePatientIds = useMemo(
+    () => new Set(patients.filter(p => findDuplicatePatients(p, patients).length > 0).map(p => p.id)),
+    [patients]
+  );
+
   const currentSummary = useMemo(() => {
     if (!selectedPatient || !selectedPatient.summaries[viewingSummaryIndex]) {
         return null;
@@ -350,14 +1271,63 @@ function App() {
     return selectedPatient.summaries[viewingSummaryIndex];
   }, [selectedPatient, viewingSummaryIndex]);
 
-  // Clear insights and referral letter when the viewed summary changes
+  const currentTemplate = findTemplate(summaryTemplates, currentSummary?.templateId);
+  const draftTemplate = findTemplate(summaryTemplates, selectedPatient?.draft?.templateId);
+  // New summaries use the picked template, else the one the patient's latest summary used
+  const generationTemplate = findTemplate(summaryTemplates, chosenTemplateId ?? selectedPatient?.summaries[0]?.templateId);
+
+  // Allergy and interaction warnings for the draft's plan, re-checked as the clinician edits it
+  const draftSafetyWarnings = useMemo(
+    () => (selectedPatient?.draft
+      ? checkDraftSafety(selectedPatient.draft, selectedPatient.summaries[0], drugSafetyTable, planSectionOf(draftTemplate))
+      : []),
+    [selectedPatient, drugSafetyTable, draftTemplate]
+  );
+
+  // Two picked summaries diffed oldest to newest. Key Changes only describe the step from the
+  // immediately preceding summary, so they are checked for consecutive summaries only.
+  const summaryComparison = useMemo(() => {
+    if (!selectedPatient || !compareTimestamps || compareTimestamps.length < 2) return null;
+    const indices = compareTimestamps
+      .map(timestamp => selectedPatient.summaries.findIndex(record => record.timestamp === timestamp))
+      .filter(index => index !== -1)
+      .sort((a, b) => b - a); // Summaries are stored newest first
+    if (indices.length < 2) return null;
+    const [olderIndex, newerIndex] = indices;
+    const older = selectedPatient.summaries[olderIndex];
+    const newer = selectedPatient.summaries[newerIndex];
+    const diff = diffSummaries(older.summary, newer.summary, findTemplate(summaryTemplates, newer.templateId));
+    const consecutive = olderIndex - newerIndex === 1;
+    const keyChanges = newer.summary[KEY_CHANGES_SECTION];
+    return { older, newer, diff, consecutive, discrepancies: consecutive && keyChanges ? checkKeyChanges(diff, keyChanges) : null };
+  }, [selectedPatient, compareTimestamps, summaryTemplates]);
+
+  // Every acute issue and past-history item followed across the patient's summaries
+  const problemTimeline = useMemo(
+    () => (selectedPatient && selectedPatient.summaries.length > 0 ? buildProblemTimeline(selectedPatient.summaries, summaryTemplates) : null),
+    [selectedPatient?.summaries, summaryTemplates]
+  );
+
+  // Leave compare mode, go back to the patient's own template and close any referral when switching patient
+  useEffect(() => {
+    setCompareTimestamps(null);
+    setChosenTemplateId(null);
+    setOpenReferral(null);
+    setInputRedFlags(null);
+  }, [selectedPatientId]);
+
+  // Clear insights and differentials when the viewed summary changes. Referrals are kept in the patient's history.
   useEffect(() => {
     setInsights(null);
-    setReferralLetter(null);
-    setReferralSpecialty(null);
     setDifferentialDiagnosis(null);
+    setActiveCitation(null);
   }, [currentSummary]);
 
+  // Bring the highlighted quote into view when a citation is opened
+  useEffect(() => {
+    citationMarkRef.current?.scrollIntoView({ block: 'center', behavior: 'smooth' });
+  }, [activeCitation]);
+
   const handleFileChange = (e: React.ChangeEvent<HTMLInputElement>) => {
     if (e.target.files) {
       setFiles(prevFiles => [...prevFiles, ...Array.from(e.target.files!)]);
@@ -368,128 +1338,319 @@ function App() {
     setFiles(prevFiles => prevFiles.filter((_, index) => index !== indexToRemove));
   };
 
-  const handleSubmit = async (e: React.FormEvent) => {
-    e.preventDefault();
-    if (!prompt.trim() && files.length === 0) return;
-    if (!selectedPatientId && !newPatientName.trim()) {
-        setError("Please enter a patient name.");
-        return;
+  // A fresh redactor per request, primed with the identifiers already on the patient record
+  const createRequestRedactor = (): Redactor => {
+    if (!llmSettings.redaction.enabled) return PASS_THROUGH_REDACTOR;
+    return createRedactor(selectedPatient
+      ? { name: selectedPatient.name, dob: selectedPatient.dob, nhsNumber: selectedPatient.nhsNumber }
+      : { name: newPatientName });
+  };
+
+  // Redact prompt text, telling the model to keep any tokens intact so they can be swapped back
+  const redactPrompt = (text: string, redactor: Redactor) => {
+    const redacted = redactor.redact(text);
+    return redactor.entries().length > 0 ? `${redacted}\n\n${REDACTION_INSTRUCTION}` : redacted;
+  };
+
+  // Show the request exactly as it will be sent and wait for the clinician, when previews are switched on
+  const confirmOutgoing = (task: LlmTask, parts: LlmPart[], redactor: Redactor, fileNames: string[] = []) => {
+    if (!llmSettings.redaction.previewBeforeSend) return Promise.resolve(true);
+    const request: OutgoingRequest = { task, parts, fileNames, redaction: redactor.entries(), redactionEnabled: redactor.enabled };
+    return new Promise<boolean>(resolve => setOutgoingRequest({ request, resolve }));
+  };
+
+  const handleResolveOutgoing = (send: boolean) => {
+    outgoingRequest?.resolve(send);
+    setOutgoingRequest(null);
+  };
+
+  // Check the notes and the generated acute issues for red flags. The local rules always run;
+  // the model classifier adds to them unless the request is declined or fails.
+  const assessRedFlags = async (notes: string, acuteIssues: string[], redactor: Redactor, signal: AbortSignal): Promise<RedFlagAssessment> => {
+    const local = detectRedFlags(notes, acuteIssues);
+    try {
+      const triagePrompt = redactPrompt(buildRedFlagPrompt(promptLibrary.triage, notes, acuteIssues), redactor);
+      if (!(await confirmOutgoing('triage', [{ text: triagePrompt }], redactor))) return local;
+      const { redFlags } = await generateJson<{ redFlags: ClassifiedRedFlag[] }>(llmSettings, 'triage', triagePrompt, RED_FLAG_CLASSIFIER_SCHEMA, { userId: currentUser?.id, signal });
+      return mergeClassifiedRedFlags(local, redactor.restoreDeep(redFlags || []), promptLibrary.triage);
+    } catch (err) {
+      if (!isAbortError(err)) console.error('Red-flag classifier failed:', err);
+      return local;
     }
+  };
+
+  // Store the documents, stream a summary with the template's sections and keep the result as a draft for review.
+  // `previousRecord` is the summary being updated, if any. Returns true when generation completed.
+  const generateSummary = async (noteText: string, inputFiles: File[], previousRecord: SummaryRecord | undefined, template: SummaryTemplate) => {
+    if (!storeKey || !currentUser) return false;
+    if (selectedPatient?.draft && !window.confirm("This patient has a draft awaiting review. Replace it with a new summary?")) {
+        return false;
+    }
+    const replacedDraft = selectedPatient?.draft;
 
     setLoading(true);
     setError(null);
+    setInputRedFlags(null);
     setCopied(false);
     setInsights(null);
-    setReferralLetter(null);
-    setReferralSpecialty(null);
     setDifferentialDiagnosis(null);
+    setActiveCitation(null);
 
+    // Keep the original documents with the draft so they can be reopened from the history later
+    let attachments: AttachmentMeta[] = [];
     try {
-      const ai = new GoogleGenAI({apiKey: process.env.API_KEY});
-      const parts: Part[] = [];
-
-      if (files.length > 0) {
-        for (const file of files) {
-          const base64Data = await fileToBase64(file);
-          parts.push({
-            inlineData: { mimeType: file.type, data: base64Data },
-          });
-        }
+      for (const file of inputFiles) {
+        attachments.push(await saveAttachment(file, currentUser.id, storeKey));
       }
+    } catch (err) {
+      console.error('Error storing attachments:', err);
+      discardAttachments(attachments.map(attachment => attachment.id));
+      setError('The uploaded documents could not be stored on this device. Free up browser storage and try again.');
+      setLoading(false);
+      return false;
+    }
+    const input: SummaryInput = { text: noteText, attachments };
+    // The new draft takes over from any draft it replaces, including ownership of stored documents
+    const keepDraft = (draft: SummaryDraft) => {
+      updateOrCreatePatient(p => ({ ...p, draft }));
+      if (replacedDraft) discardAttachments(attachmentIdsOf(replacedDraft));
+    };
 
-      let finalPrompt = '';
-      let schemaForRequest = newSummaryResponseSchema;
-      const patientToUpdate = selectedPatient;
-      const latestExistingSummary = patientToUpdate?.summaries[0];
+    const controller = new AbortController();
+    generationAbortRef.current = controller;
+    let partialSummary: ResponseWithMedications = {};
+    let sources: SummarySource[] = [];
+    const fileSources: { name: string; text?: string; attachmentId?: string }[] = [];
+    const notesForTriage = () => [noteText, ...fileSources.map(source => source.text || '')].filter(text => text.trim()).join('\n\n');
+    const redactor = createRequestRedactor();
+    const task: PromptId = previousRecord ? 'update' : 'summarise';
+    const promptVersion = promptVersionRef(promptLibrary[task], previousRecord ? template.updatePrompt : template.prompt);
 
-      if (patientToUpdate && latestExistingSummary) {
-        finalPrompt = `Act as a clinical assistant responsible for patient records. A patient has presented with new acute concerns. Based on these and their previous clinical summary, provide an updated summary.
+    try {
+      const parts: LlmPart[] = [];
+      const inlineFileNames: string[] = [];
+
+      for (const [index, file] of inputFiles.entries()) {
+        const isText = file.type.startsWith('text/');
+        const text = isText ? await file.text() : undefined;
+        if (text !== undefined && redactor.enabled) {
+          // Text documents are sent as redacted text; other formats cannot be redacted and go as they are
+          parts.push({ text: redactor.redact(`ATTACHED DOCUMENT "${file.name}":\n${text}`) });
+        } else {
+          parts.push({ inlineData: { mimeType: file.type, data: await fileToBase64(file) } });
+          inlineFileNames.push(file.name);
+        }
+        // Plain-text uploads can be shown when a citation is opened; other files are referenced by name
+        fileSources.push({
+          name: file.name,
+          attachmentId: attachments[index].id,
+          ...(text !== undefined ? { text } : {}),
+        });
+      }
 
-Crucially, within the "Pending Tasks and action Plan" section, you must explicitly document a detailed treatment plan for the new acute concerns, formatted clearly for inclusion in an Electronic Health Record (EHR). This plan must be actionable and follow standard UK clinical practice (NICE/CKS guidelines).
+      sources = buildSources(noteText, fileSources, previousRecord?.summary);
+      const finalPrompt = previousRecord
+        ? renderPrompt(promptLibrary.update, {
+            instructions: template.updatePrompt,
+            medicationsKey: MEDICATIONS_KEY,
+            sources: describeSourcesForPrompt(sources),
+            previousSummary: JSON.stringify(previousRecord.summary),
+            // Records from before medications were structured have no list; the model works from the summary text instead
+            previousMedications: previousRecord.medications
+              ? JSON.stringify(previousRecord.medications.filter(isActiveMedication))
+              : 'Not recorded. Take them from the PREVIOUS SUMMARY.',
+            notes: noteText,
+          })
+        : renderPrompt(promptLibrary.summarise, {
+            instructions: template.prompt,
+            medicationsKey: MEDICATIONS_KEY,
+            sources: describeSourcesForPrompt(sources),
+            notes: noteText,
+          });
 
-The plan for the new concerns should include specific management instructions (e.g., "Started on Amoxicillin 500mg three times daily," "Prescribed Lactulose 10ml twice daily"). Also, generate a long-term management plan and identify key changes from the previous summary.
+      parts.push({ text: redactPrompt(finalPrompt, redactor) });
+      if (!(await confirmOutgoing(task, parts, redactor, inlineFileNames))) {
+        discardAttachments(attachments.map(attachment => attachment.id));
+        return false;
+      }
 
-PREVIOUS SUMMARY:
-${JSON.stringify(latestExistingSummary.summary)}
+      // Tokens are swapped back as the response streams in, so quotes match the original notes
+      const citedResponse = await generateJsonStream<ResponseWithMedications>(
+        llmSettings,
+        task,
+        parts,
+        summaryResponseSchema(template, !!previousRecord),
+        partial => {
+          partialSummary = redactor.restoreDeep(partial);
+          setStreamingSummary(splitCitedResponse(splitMedications(partialSummary).cited).summary);
+        },
+        { userId: currentUser.id, signal: controller.signal },
+      );
+
+      // The result waits as a draft for clinician review; it joins the history only once approved
+      const { cited, medications } = splitMedications(redactor.restoreDeep(citedResponse));
+      const { summary: newSummaryData, items } = splitCitedResponse(cited);
+      const reconciledMedications = reconcileMedications(previousRecord?.medications, medications);
+      const redFlags = await assessRedFlags(notesForTriage(), itemsWithRole(newSummaryData, template, 'acute'), redactor, controller.signal);
+      const draft = createDraft(items, finaliseSummary(newSummaryData, summaryRules, template), 'complete', sources, input, reconciledMedications);
+      keepDraft({ ...draft, templateId: template.id, promptVersion, redFlags });
+      return true;
 
-NEW ACUTE CONCERNS:
-${prompt}`;
-        schemaForRequest = updateSummaryResponseSchema;
+    } catch (err) {
+      const cancelled = isAbortError(err);
+      // Keep whatever arrived before the stream stopped as a draft rather than discarding it.
+      // The prompt and files are left in place so the generation can be retried.
+      const { cited, medications } = splitMedications(partialSummary);
+      const { summary: partialData, items } = splitCitedResponse(cited);
+      // The local rules need no model, so the notes are still checked for red flags
+      const redFlags = detectRedFlags(notesForTriage(), itemsWithRole(partialData, template, 'acute'));
+      if (hasSummaryContent(partialData)) {
+        const reconciledMedications = reconcileMedications(previousRecord?.medications, medications);
+        keepDraft({ ...createDraft(items, partialData, cancelled ? 'cancelled' : 'failed', sources, input, reconciledMedications), templateId: template.id, promptVersion, redFlags });
       } else {
-        finalPrompt = `Act as a clinical assistant responsible for patient records. Create a concise, structured clinical summary from the information provided. For any acute issues identified, you must explicitly document a detailed treatment plan within the "Pending Tasks and action Plan" section. This plan must be formatted clearly for inclusion in an Electronic Health Record (EHR), be actionable, and follow standard UK clinical practice (NICE/CKS guidelines).
+        discardAttachments(attachments.map(attachment => attachment.id));
+        setInputRedFlags(redFlags);
+      }
+      if (!cancelled) {
+        console.error('Error generating content:', err);
+        setError('Sorry, something went wrong. The response might not be in the correct format.');
+      }
+      return false;
+    } finally {
+      setLoading(false);
+      setStreamingSummary(null);
+      generationAbortRef.current = null;
+    }
+  };
 
-The plan should include specific management instructions (e.g., "Started on Amoxicillin 500mg three times daily," "Prescribed Lactulose 10ml twice daily") and a suggested long-term management plan.
+  const handleSubmit = async (e: React.FormEvent) => {
+    e.preventDefault();
+    if (!prompt.trim() && files.length === 0) return;
+    if (!selectedPatientId && !newPatientName.trim()) {
+        setError("Please enter a patient name.");
+        return;
+    }
+    if (await generateSummary(prompt, files, selectedPatient?.summaries[0], generationTemplate)) {
+      setPrompt('');
+      clearFiles();
+    }
+  };
 
-PATIENT INFORMATION:
-${prompt}`;
-      }
-      
-      parts.push({text: finalPrompt});
-
-      const result = await ai.models.generateContent({
-        model: 'gemini-2.5-flash',
-        contents: {parts},
-        config: {
-          responseMimeType: 'application/json',
-          responseSchema: schemaForRequest,
-        },
-      });
+  // Load a record's stored documents back into File objects
+  const loadRecordFiles = (input: SummaryInput) => {
+    if (!storeKey || !currentUser) return Promise.reject(new Error('The patient store is locked.'));
+    return Promise.all(input.attachments.map(attachment => loadAttachment(attachment, currentUser.id, storeKey)));
+  };
 
-      const jsonText = result.text.trim();
-      const newSummaryData: StructuredResponse = JSON.parse(jsonText);
+  // Put a record's original note and documents back into the input form
+  const handleReopenInputs = async (input: SummaryInput) => {
+    try {
+      const reopenedFiles = await loadRecordFiles(input);
+      setPrompt(input.text);
+      setFiles(reopenedFiles);
+      setError(null);
+    } catch (err) {
+      console.error('Error loading attachments:', err);
+      setError(err instanceof Error ? err.message : 'The original documents could not be loaded.');
+    }
+  };
 
-      // --- Programmatically handle safety netting advice ---
-      const SAFETY_NETTING_ADVICE = "If symptoms worsen, or if new symptoms develop, please seek urgent medical advice by calling 111, your GP surgery, or 999 in an emergency.";
+  // Generate again from a record's original inputs, against the summary that preceded it
+  const handleResummarise = async (recordIndex: number) => {
+    if (!selectedPatient || loading) return;
+    const input = selectedPatient.summaries[recordIndex]?.input;
+    if (!input) return;
+    try {
+      const originalFiles = await loadRecordFiles(input);
+      const record = selectedPatient.summaries[recordIndex];
+      await generateSummary(input.text, originalFiles, selectedPatient.summaries[recordIndex + 1], findTemplate(summaryTemplates, record.templateId));
+    } catch (err) {
+      console.error('Error loading attachments:', err);
+      setError(err instanceof Error ? err.message : 'The original documents could not be loaded.');
+    }
+  };
 
-      // Ensure the 'Pending Tasks and action Plan' exists and is an array
-      if (!newSummaryData['Pending Tasks and action Plan'] || !Array.isArray(newSummaryData['Pending Tasks and action Plan'])) {
-        newSummaryData['Pending Tasks and action Plan'] = [];
-      }
-      // Filter out any existing/similar safety netting advice to prevent duplicates
-      newSummaryData['Pending Tasks and action Plan'] = newSummaryData['Pending Tasks and action Plan'].filter(
-          item => !item.toLowerCase().includes('symptoms worsen') && !item.toLowerCase().includes('999')
-      );
-      // Add the standardized advice to the end of the plan
-      newSummaryData['Pending Tasks and action Plan'].push(SAFETY_NETTING_ADVICE);
-      // --- End of safety netting logic ---
-
-      const newSummaryRecord: SummaryRecord = {
-        summary: newSummaryData,
-        timestamp: new Date().toISOString(),
-      };
-      
-      setViewingSummaryIndex(0); // Always view the newest summary after submission
-
-      if (selectedPatientId) {
-        // Update existing patient
-        setPatients(prevPatients =>
-          prevPatients.map(p =>
-            p.id === selectedPatientId
-              ? { ...p, summaries: [newSummaryRecord, ...p.summaries] }
-              : p
-          )
-        );
+  const handleOpenAttachment = async (attachment: AttachmentMeta, download: boolean) => {
+    if (!storeKey || !currentUser) return;
+    try {
+      const file = await loadAttachment(attachment, currentUser.id, storeKey);
+      const url = URL.createObjectURL(file);
+      if (download) {
+        const link = document.createElement('a');
+        link.href = url;
+        link.download = attachment.name;
+        link.click();
       } else {
-        // Create new patient
-        const newPatient: Patient = {
-          id: Date.now().toString(),
-          name: newPatientName.trim(),
-          dob: '',
-          nhsNumber: '',
-          summaries: [newSummaryRecord],
-        };
-        setPatients(prevPatients => [newPatient, ...prevPatients]);
-        setSelectedPatientId(newPatient.id);
-        setNewPatientName('');
+        window.open(url, '_blank', 'noopener');
       }
-      setPrompt('');
-      clearFiles();
-
+      // Give the new tab or download time to read the blob before releasing it
+      setTimeout(() => URL.revokeObjectURL(url), 60000);
     } catch (err) {
-      console.error('Error generating content:', err);
-      setError('Sorry, something went wrong. The response might not be in the correct format.');
-    } finally {
-      setLoading(false);
+      console.error('Error opening attachment:', err);
+      setError(err instanceof Error ? err.message : 'The document could not be opened.');
+    }
+  };
+
+  const handleCancelGeneration = () => {
+    generationAbortRef.current?.abort();
+  };
+
+  // Apply a change to the selected patient, creating the patient first when summarising someone new
+  const updateOrCreatePatient = (update: (patient: Patient) => Patient) => {
+    if (selectedPatientId) {
+      setPatients(prevPatients =>
+        prevPatients.map(p => (p.id === selectedPatientId ? update(p) : p))
+      );
+    } else {
+      const newPatient = update({
+        id: Date.now().toString(),
+        name: newPatientName.trim(),
+        dob: '',
+        nhsNumber: '',
+        summaries: [],
+      });
+      setPatients(prevPatients => [newPatient, ...prevPatients]);
+      setSelectedPatientId(newPatient.id);
+      setNewPatientName('');
+    }
+  };
+
+  const updateDraft = (change: (draft: SummaryDraft) => SummaryDraft) => {
+    if (!selectedPatientId) return;
+    setPatients(prevPatients =>
+      prevPatients.map(p => (p.id === selectedPatientId && p.draft ? { ...p, draft: change(p.draft) } : p))
+    );
+  };
+
+  const handleApproveDraft = () => {
+    if (!selectedPatient?.draft || !currentUser) return;
+    if (draftSafetyWarnings.length > 0 && !window.confirm(`This plan has ${draftSafetyWarnings.length} unresolved safety warning${draftSafetyWarnings.length === 1 ? '' : 's'}. Approve it anyway?`)) {
+      return;
+    }
+    const newSummaryRecord = approveDraft(selectedPatient.draft, summary => finaliseSummary(summary, summaryRules, draftTemplate), currentUser);
+    setViewingSummaryIndex(0); // Always view the newest summary after approval
+    updateOrCreatePatient(p => ({ ...p, summaries: [newSummaryRecord, ...p.summaries], draft: undefined }));
+  };
+
+  // Keeps one score per calculator on the viewed summary; re-saving a calculator replaces its score
+  const handleSaveScore = (score: SavedScore) => {
+    if (!selectedPatientId) return;
+    setPatients(prevPatients =>
+      prevPatients.map(p => (p.id === selectedPatientId ? {
+        ...p,
+        summaries: p.summaries.map((record, index) => (index === viewingSummaryIndex ? {
+          ...record,
+          scores: [...(record.scores || []).filter(existing => existing.calculatorId !== score.calculatorId), score],
+        } : record)),
+      } : p))
+    );
+  };
+
+  const handleRejectDraft = () => {
+    if (!selectedPatient?.draft) return;
+    if (window.confirm("Reject this draft? It will not be added to the patient's history.")) {
+      discardAttachments(attachmentIdsOf(selectedPatient.draft));
+      updateOrCreatePatient(p => ({ ...p, draft: undefined }));
     }
   };
 
@@ -501,23 +1662,13 @@ ${prompt}`;
     setError(null);
 
     try {
-        const ai = new GoogleGenAI({ apiKey: process.env.API_KEY });
-        const insightsPrompt = `You are a clinical decision support assistant for UK clinicians. Based on the provided clinical summary, provide a very brief, rapid-fire action plan.
+        const redactor = createRequestRedactor();
+        const template = promptLibrary.insights;
+        const insightsPrompt = redactPrompt(renderPrompt(template, { summary: JSON.stringify(currentSummary.summary, null, 2) }), redactor);
+        if (!(await confirmOutgoing('insights', [{ text: insightsPrompt }], redactor))) return;
 
-Your response must be in British English and explicitly aligned with UK NICE (National Institute for Health and Care Excellence) and CKS (Clinical Knowledge Summaries) guidelines.
-
-Please outline 5 critical bullet points for immediate management. Be extremely concise.
-
----
-**PATIENT SUMMARY:**
-${JSON.stringify(currentSummary.summary, null, 2)}`;
-        
-        const response = await ai.models.generateContent({
-            model: 'gemini-2.5-flash',
-            contents: insightsPrompt,
-        });
-
-        setInsights(response.text);
+        setInsights(redactor.restore(await generateText(llmSettings, 'insights', insightsPrompt, { userId: currentUser?.id })));
+        setOutputPromptVersions(versions => ({ ...versions, insights: promptVersionRef(template) }));
 
     } catch (err) {
         console.error("Error generating insights:", err);
@@ -527,40 +1678,46 @@ ${JSON.stringify(currentSummary.summary, null, 2)}`;
     }
   };
 
-  const handleGenerateReferral = async () => {
-    if (!currentSummary || !selectedPatient || !referralSpecialtyInput.trim()) return;
-
-    setReferralLetterLoading(true);
-    setReferralLetter(null);
-    setReferralSpecialty(referralSpecialtyInput.trim());
-    setError(null);
-
-    try {
-        const ai = new GoogleGenAI({ apiKey: process.env.API_KEY });
-        const referralPrompt = `You are an assistant for a UK clinician. Draft an extremely concise, to-the-point, UK-style referral letter to a ${referralSpecialtyInput.trim()} specialist for the patient.
-
-The entire letter must be a maximum of 3-4 lines. It should only contain the most critical information for the specialist. Use placeholders like [Patient Name] and [NHS Number] for demographic details.
-
----
-**PATIENT SUMMARY:**
-${JSON.stringify(currentSummary.summary, null, 2)}`;
-
-        const response = await ai.models.generateContent({
-            model: 'gemini-2.5-pro', // Upgraded model for higher quality
-            contents: referralPrompt,
-        });
+  const handleNewReferral = () => {
+    if (!currentUser) return;
+    setOpenReferral(createReferral(REFERRAL_TEMPLATES[0], currentUser, currentSummary?.timestamp));
+  };
 
-        setReferralLetter(response.text);
-        setShowReferralInput(false); // Hide form on success
-        setReferralSpecialtyInput(''); // Clear input on success
+  // Draft a referral body from the summary it was started from. Patient details go into the
+  // placeholders the model leaves only once the response is back on this device.
+  const handleDraftReferral = async (referral: ReferralLetter) => {
+    if (!selectedPatient) return null;
+    const record = selectedPatient.summaries.find(summary => summary.timestamp === referral.summaryTimestamp) || currentSummary;
+    if (!record) throw new Error('There is no summary to draft the referral from.');
+
+    const redactor = createRequestRedactor();
+    const template = promptLibrary.referral;
+    const referralPrompt = redactPrompt(renderPrompt(template, {
+      specialty: referral.specialty,
+      urgency: REFERRAL_URGENCY_LABELS[referral.urgency].toLowerCase(),
+      guidance: findReferralTemplate(referral.templateId).guidance,
+      placeholders: DEMOGRAPHIC_PLACEHOLDERS.join(', '),
+      summary: JSON.stringify(record.summary, null, 2),
+    }), redactor);
+    if (!(await confirmOutgoing('referral', [{ text: referralPrompt }], redactor))) return null;
+
+    const text = redactor.restore(await generateText(llmSettings, 'referral', referralPrompt, { userId: currentUser?.id }));
+    return {
+      body: mergeDemographics(textToLetterHtml(text), referral, selectedPatient, letterhead),
+      promptVersion: promptVersionRef(template),
+    };
+  };
 
-    } catch (err) {
-        console.error("Error drafting referral letter:", err);
-        setError("Could not draft the referral letter at this time.");
-        setReferralSpecialty(null); // Clear specialty on error
-    } finally {
-        setReferralLetterLoading(false);
-    }
+  // Saving again replaces the earlier copy of the same letter
+  const handleSaveReferral = (referral: ReferralLetter) => {
+    if (!selectedPatientId) return;
+    setPatients(prevPatients =>
+      prevPatients.map(p => (p.id === selectedPatientId ? {
+        ...p,
+        referrals: [referral, ...(p.referrals || []).filter(existing => existing.id !== referral.id)]
+          .sort((a, b) => b.createdAt.localeCompare(a.createdAt)),
+      } : p))
+    );
   };
 
   const handleSuggestDifferentials = async () => {
@@ -571,27 +1728,14 @@ ${JSON.stringify(currentSummary.summary, null, 2)}`;
     setError(null);
 
     try {
-        const ai = new GoogleGenAI({ apiKey: process.env.API_KEY });
-        const diffPrompt = `Act as an expert clinical reasoning assistant for a UK clinician. Based on the provided clinical summary, generate a list of potential differential diagnoses.
+        const redactor = createRequestRedactor();
+        const template = promptLibrary.differentials;
+        const diffPrompt = redactPrompt(renderPrompt(template, { summary: JSON.stringify(currentSummary.summary, null, 2) }), redactor);
+        if (!(await confirmOutgoing('differentials', [{ text: diffPrompt }], redactor))) return;
 
-For each diagnosis, provide a concise rationale citing specific evidence from the summary. Also, provide an estimated likelihood (High, Medium, or Low). Order the list from most to least likely.
-
----
-**PATIENT SUMMARY:**
-${JSON.stringify(currentSummary.summary, null, 2)}`;
-        
-        const result = await ai.models.generateContent({
-            model: 'gemini-2.5-pro', // Using a more advanced model for complex reasoning
-            contents: { parts: [{ text: diffPrompt }] },
-            config: {
-                responseMimeType: 'application/json',
-                responseSchema: differentialDiagnosisSchema,
-            },
-        });
-        
-        const jsonText = result.text.trim();
-        const responseData = JSON.parse(jsonText);
-        setDifferentialDiagnosis(responseData.diagnoses);
+        const responseData = await generateJson<{ diagnoses: DifferentialDiagnosis[] }>(llmSettings, 'differentials', diffPrompt, differentialDiagnosisSchema, { userId: currentUser?.id });
+        setDifferentialDiagnosis(redactor.restoreDeep(responseData).diagnoses);
+        setOutputPromptVersions(versions => ({ ...versions, differentials: promptVersionRef(template) }));
 
     } catch (err) {
         console.error("Error generating differential diagnosis:", err);
@@ -601,14 +1745,6 @@ ${JSON.stringify(currentSummary.summary, null, 2)}`;
     }
   };
 
-  const handleCopyReferral = () => {
-    if (!referralLetter) return;
-    navigator.clipboard.writeText(referralLetter).then(() => {
-        setReferralCopied(true);
-        setTimeout(() => setReferralCopied(false), 2000);
-    }).catch(err => console.error('Failed to copy referral: ', err));
-  };
-
   const handleExportPdf = () => {
     if (typeof (window as any).html2pdf === 'undefined') {
       setError("PDF export library not available. Please try again later.");
@@ -629,6 +1765,7 @@ ${JSON.stringify(currentSummary.summary, null, 2)}`;
         .replace(/>/g, "&gt;")
         .replace(/"/g, "&quot;")
         .replace(/'/g, "&#039;");
+    const pdfPromptVersion = (ref?: PromptVersionRef) => ref ? `<p class="prompt-version">Generated with the ${escapeHtml(promptVersionLabel(ref))}</p>` : '';
   
     let contentHtml = `
       <div class="pdf-document">
@@ -637,13 +1774,13 @@ ${JSON.stringify(currentSummary.summary, null, 2)}`;
           <h2>${escapeHtml(selectedPatient.name)}</h2>
           <p>DOB: ${escapeHtml(selectedPatient.dob || 'N/A')} | NHS Number: ${escapeHtml(selectedPatient.nhsNumber || 'N/A')}</p>
           <p><em>Report Generated: ${new Date().toLocaleString()} | Summary Date: ${new Date(currentSummary.timestamp).toLocaleString()}</em></p>
+          ${pdfPromptVersion(currentSummary.promptVersion)}
         </div>
     `;
   
     const { summary } = currentSummary;
-    const sectionsOrder: (keyof StructuredResponse)[] = ['Key Changes', 'Acute Issues', 'Pending Tasks and action Plan', 'Past medical history'];
   
-    sectionsOrder.forEach(key => {
+    sectionOrder(summary, currentTemplate).forEach(key => {
         const sectionData = summary[key];
         if (sectionData && Array.isArray(sectionData) && sectionData.length > 0) {
             contentHtml += `<div class="section">`;
@@ -656,8 +1793,18 @@ ${JSON.stringify(currentSummary.summary, null, 2)}`;
         }
     });
   
+    if (currentSummary.scores && currentSummary.scores.length > 0) {
+        contentHtml += `<div class="section"><h3 class="section-title">Clinical Scores</h3><ul class="score-list">`;
+        currentSummary.scores.forEach(score => {
+            const heading = score.score === null ? score.name : `${score.name}: ${score.score}`;
+            const inputs = score.inputs.map(input => `${escapeHtml(input.label)}: ${escapeHtml(input.value)}`).join('; ');
+            contentHtml += `<li class="score-item"><strong>${escapeHtml(heading)}</strong><p>${escapeHtml(score.interpretation)}</p><p class="score-inputs">${inputs}</p><p class="score-meta">Completed by ${escapeHtml(score.completedBy.displayName)} on ${new Date(score.completedAt).toLocaleString()}</p></li>`;
+        });
+        contentHtml += '</ul></div>';
+    }
+
     if (insights) {
-      contentHtml += `<div class="page-break"></div><div class="section"><h3 class="section-title">AI-Powered Insights</h3><div class="ai-content-box">${escapeHtml(insights).replace(/\n/g, '<br>')}</div></div>`;
+      contentHtml += `<div class="page-break"></div><div class="section"><h3 class="section-title">AI-Powered Insights</h3><div class="ai-content-box">${escapeHtml(insights).replace(/\n/g, '<br>')}</div>${pdfPromptVersion(outputPromptVersions.insights)}</div>`;
     }
 
     if (differentialDiagnosis && differentialDiagnosis.length > 0) {
@@ -666,7 +1813,7 @@ ${JSON.stringify(currentSummary.summary, null, 2)}`;
         differentialDiagnosis.forEach(item => {
             contentHtml += `<li class="differential-item"><strong>${escapeHtml(item.diagnosis)}</strong><span class="likelihood">Likelihood: ${escapeHtml(item.likelihood)}</span><p>${escapeHtml(item.rationale)}</p></li>`;
         });
-        contentHtml += '</ul></div>';
+        contentHtml += `</ul>${pdfPromptVersion(outputPromptVersions.differentials)}</div>`;
     }
   
     contentHtml += `</div>`;
@@ -697,6 +1844,13 @@ ${JSON.stringify(currentSummary.summary, null, 2)}`;
       .differential-item strong { display: block; font-size: 13pt; font-weight: bold; margin-bottom: 5px; }
       .likelihood { font-size: 11pt; color: #444; font-style: italic; margin-bottom: 8px; display: block; }
       .differential-item p { margin: 0; font-style: normal; color: #222; }
+      /* Clinical Scores */
+      .score-list { list-style-type: none; padding-left: 0; margin: 0; }
+      .score-item { margin-bottom: 0.2in; }
+      .score-item p { margin: 4px 0 0 0; }
+      .score-inputs { font-size: 10pt; color: #444; }
+      .score-meta { font-size: 10pt; color: #555; font-style: italic; }
+      .prompt-version { font-size: 9pt; color: #777; }
     `;
 
     const fullHtml = `
@@ -751,6 +1905,8 @@ ${JSON.stringify(currentSummary.summary, null, 2)}`;
 
   const handleDeletePatient = (patientIdToDelete: string, patientName: string) => {
     if (window.confirm(`Are you sure you want to delete all records for ${patientName}?`)) {
+        const patient = patients.find(p => p.id === patientIdToDelete);
+        if (patient) discardAttachments(patientAttachmentIds(patient));
         setPatients(prev => prev.filter(p => p.id !== patientIdToDelete));
         if (selectedPatientId === patientIdToDelete) {
             setSelectedPatientId(null);
@@ -768,19 +1924,81 @@ ${JSON.stringify(currentSummary.summary, null, 2)}`;
     setInsights(null);
   }
 
+  // Create a patient from a FHIR file. The summary built from its problems and medications waits as a draft for review.
+  const handleImportFhir = async (e: React.ChangeEvent<HTMLInputElement>) => {
+    const file = e.target.files?.[0];
+    e.target.value = '';
+    if (!file || !storeKey || !currentUser) return;
+    setError(null);
+    try {
+      const data = parseFhirImport(JSON.parse(await file.text()));
+      const cited = buildImportedSummary(data);
+      const medications = buildImportedMedications(data);
+      // Imported content is stored in the same shape as generated summaries, so hold it to the standard template's schema
+      const standardTemplate = findTemplate(DEFAULT_SUMMARY_TEMPLATES, STANDARD_TEMPLATE_ID);
+      const problems = validateAgainstSchema({ ...cited, [MEDICATIONS_KEY]: medications }, summaryResponseSchema(standardTemplate, false));
+      if (problems.length > 0) {
+        throw new FhirImportError(`The imported data does not fit the summary format: ${problems.slice(0, 3).join(' ')}`);
+      }
+
+      const { summary, items } = splitCitedResponse(cited, 'imported');
+      let draft: SummaryDraft | undefined;
+      if (hasSummaryContent(summary)) {
+        // Keep the original file so the imported data can be checked against it later
+        const attachment = await saveAttachment(file, currentUser.id, storeKey);
+        const sources: SummarySource[] = [{ id: FHIR_IMPORT_SOURCE_ID, kind: 'file', label: file.name, text: describeFhirImport(data), attachmentId: attachment.id }];
+        draft = {
+          ...createDraft(items, finaliseSummary(summary, summaryRules, standardTemplate), 'complete', sources, { text: '', attachments: [attachment] }, medications),
+          templateId: STANDARD_TEMPLATE_ID,
+        };
+      }
+      const newPatient: Patient = { id: Date.now().toString(), ...data.patient, summaries: [], ...(draft ? { draft } : {}) };
+      setPrompt('');
+      clearFiles();
+
+      // Offer to add the import to an existing record for the same person instead of creating a duplicate
+      const [match] = findDuplicatePatients(newPatient, patients);
+      if (match && window.confirm(`${newPatient.name} looks like an existing patient, ${match.patient.name} (${DUPLICATE_REASON_LABELS[match.reason]}). Add the import to their record instead of creating a new patient?`)) {
+        const replaceDraft = !!draft && (!match.patient.draft || window.confirm(`${match.patient.name} has a draft awaiting review. Replace it with the imported summary?`));
+        const existing = replaceDraft ? { ...match.patient, draft } : match.patient;
+        mergeIntoPatient(existing, newPatient);
+        if (replaceDraft && match.patient.draft) discardAttachments(attachmentIdsOf(match.patient.draft));
+        return;
+      }
+      if (nhsNumberProblem(newPatient.nhsNumber)) {
+        setError(`The imported NHS number for ${newPatient.name} fails check-digit validation. Please check it in the patient details.`);
+      }
+      setPatients(prevPatients => [newPatient, ...prevPatients]);
+      setSelectedPatientId(newPatient.id);
+      setViewingSummaryIndex(0);
+    } catch (err) {
+      console.error('FHIR import failed', err);
+      setError(err instanceof FhirImportError
+        ? err.message
+        : err instanceof SyntaxError ? 'The selected file is not valid JSON.' : 'The FHIR file could not be imported.');
+    }
+  };
+
+  // Download the patient and all their summaries as a FHIR R4 Bundle for other clinical systems
+  const handleExportFhir = () => {
+    if (!selectedPatient) return;
+    const bundle = buildFhirBundle(selectedPatient);
+    const url = URL.createObjectURL(new Blob([JSON.stringify(bundle, null, 2)], { type: 'application/fhir+json' }));
+    const link = document.createElement('a');
+    link.href = url;
+    link.download = `${toKebabCase(selectedPatient.name) || 'patient'}-fhir-bundle.json`;
+    link.click();
+    setTimeout(() => URL.revokeObjectURL(url), 60000);
+  };
+
   const handleCopy = () => {
     if (!currentSummary) return;
     
     const { summary } = currentSummary;
-    const keyChanges = summary['Key Changes'] ? `Key Changes:\n${summary['Key Changes'].map(item => `- ${item}`).join('\n')}\n\n` : '';
-    
-    const formattedResponse = `${keyChanges}${Object.entries(summary)
-      .filter(([key]) => key !== 'Key Changes')
-      .map(([key, value]) => {
-        const listItems = Array.isArray(value) ? value.map(item => `- ${item}`).join('\n') : value;
-        return `${key}:\n${listItems}`;
-      })
-      .join('\n\n')}`;
+    const formattedResponse = sectionOrder(summary, currentTemplate)
+      .filter(key => Array.isArray(summary[key]) && (key !== KEY_CHANGES_SECTION || summary[key].length > 0))
+      .map(key => `${key}:\n${summary[key].map(item => `- ${item}`).join('\n')}`)
+      .join('\n\n');
 
     navigator.clipboard.writeText(formattedResponse).then(() => {
       setCopied(true);
@@ -793,7 +2011,7 @@ ${JSON.stringify(currentSummary.summary, null, 2)}`;
         id: patient.id,
         name: patient.name,
         dob: patient.dob || '',
-        nhsNumber: patient.nhsNumber || '',
+        nhsNumber: patient.nhsNumber ? formatNhsNumber(patient.nhsNumber) : '',
     });
     setIsEditModalOpen(true);
   };
@@ -803,16 +2021,143 @@ ${JSON.stringify(currentSummary.summary, null, 2)}`;
     setEditingPatientDetails(null);
   };
 
-  const handleSavePatientDetails = () => {
-    if (!editingPatientDetails) return;
-    setPatients(prev => 
-        prev.map(p => 
-            p.id === editingPatientDetails.id 
-                ? { ...p, ...editingPatientDetails } 
-                : p
-        )
-    );
-    handleCloseEditModal();
+  // NHS numbers are stored as bare digits and formatted for display
+  const normalisedDetails = (details: PatientDetails): PatientDetails => ({
+    ...details,
+    name: details.name.trim(),
+    nhsNumber: normaliseNhsNumber(details.nhsNumber),
+  });
+
+  const handleSavePatientDetails = () => {
+    if (!editingPatientDetails || nhsNumberProblem(editingPatientDetails.nhsNumber)) return;
+    const details = normalisedDetails(editingPatientDetails);
+    setPatients(prev => 
+        prev.map(p => 
+            p.id === details.id 
+                ? { ...p, ...details } 
+                : p
+        )
+    );
+    handleCloseEditModal();
+  };
+
+  // Fold a duplicate record into the one being kept and remove the duplicate.
+  // Stored documents only the discarded parts referred to (e.g. a second draft) are deleted.
+  const mergeIntoPatient = (keep: Patient, duplicate: Patient) => {
+    const merged = mergePatientHistories(keep, duplicate);
+    const keptAttachmentIds = new Set(patientAttachmentIds(merged));
+    discardAttachments([...patientAttachmentIds(keep), ...patientAttachmentIds(duplicate)].filter(id => !keptAttachmentIds.has(id)));
+    setPatients(prev => prev.filter(p => p.id !== duplicate.id).map(p => (p.id === keep.id ? merged : p)));
+    setSelectedPatientId(keep.id);
+    setViewingSummaryIndex(0);
+  };
+
+  const handleMergeDuplicate = (keepId: string, duplicateId: string) => {
+    const keep = patients.find(p => p.id === keepId);
+    const duplicate = patients.find(p => p.id === duplicateId);
+    if (!keep || !duplicate) return;
+    const draftNote = keep.draft && duplicate.draft ? ` ${duplicate.name}'s pending draft will be discarded.` : '';
+    if (!window.confirm(`Merge ${duplicate.summaries.length} summar${duplicate.summaries.length === 1 ? 'y' : 'ies'} from ${duplicate.name} into ${keep.name}'s record and remove the duplicate?${draftNote}`)) {
+      return;
+    }
+    // Apply any unsaved edits from the details modal to the record being kept
+    const details = editingPatientDetails?.id === keepId && !nhsNumberProblem(editingPatientDetails.nhsNumber)
+      ? normalisedDetails(editingPatientDetails)
+      : {};
+    mergeIntoPatient({ ...keep, ...details }, duplicate);
+    handleCloseEditModal();
+  };
+
+  const handleOpenSettingsModal = () => {
+    if (!currentUser) return;
+    setEditingSessionSettings(currentUser.sessionSettings);
+    setEditingLlmSettings(llmSettings);
+    setEditingDrugSafetyText(JSON.stringify(drugSafetyTable, null, 2));
+    setDrugSafetyError(null);
+    setEditingSummaryRulesText(JSON.stringify(summaryRules, null, 2));
+    setSummaryRulesError(null);
+    setEditingSummaryTemplatesText(JSON.stringify(summaryTemplates, null, 2));
+    setSummaryTemplatesError(null);
+    setEditingPromptTexts(Object.fromEntries(PROMPT_IDS.map(id => [id, promptLibrary[id].text])) as Record<PromptId, string>);
+    setPromptLibraryError(null);
+    setEditingLetterhead(letterhead);
+    setIsSettingsModalOpen(true);
+  };
+
+  const handleCloseSettingsModal = () => {
+    setIsSettingsModalOpen(false);
+    setEditingSessionSettings(null);
+    setEditingLlmSettings(null);
+    setDrugSafetyError(null);
+    setSummaryRulesError(null);
+    setSummaryTemplatesError(null);
+    setEditingPromptTexts(null);
+    setPromptLibraryError(null);
+    setEditingLetterhead(null);
+  };
+
+  const handleSaveSettings = () => {
+    if (!currentUser || !editingSessionSettings || !editingLlmSettings || !editingPromptTexts || !editingLetterhead) return;
+    let table: DrugSafetyTable;
+    try {
+      table = parseDrugSafetyTable(JSON.parse(editingDrugSafetyText));
+    } catch (err) {
+      setDrugSafetyError(err instanceof DrugSafetyTableError ? err.message : 'The drug safety table is not valid JSON.');
+      return;
+    }
+    // Rules are only saved when every rule's own tests pass
+    let rules: SummaryRule[];
+    try {
+      rules = parseSummaryRules(JSON.parse(editingSummaryRulesText));
+    } catch (err) {
+      setSummaryRulesError(err instanceof SummaryRuleError ? err.message : 'The summary rules are not valid JSON.');
+      return;
+    }
+    const failures = runRuleTests(rules);
+    if (failures.length > 0) {
+      setSummaryRulesError(`${failures.length} rule test${failures.length === 1 ? '' : 's'} failed: ${failures.map(failure => `${failure.ruleId} (${failure.description})`).join('; ')}`);
+      return;
+    }
+    let templates: SummaryTemplate[];
+    try {
+      templates = parseSummaryTemplates(JSON.parse(editingSummaryTemplatesText));
+    } catch (err) {
+      setSummaryTemplatesError(err instanceof SummaryTemplateError ? err.message : 'The summary templates are not valid JSON.');
+      return;
+    }
+    // Changed prompts are saved as new versions
+    let library: PromptLibrary;
+    try {
+      library = updatePromptLibrary(promptLibrary, editingPromptTexts);
+    } catch (err) {
+      setPromptLibraryError(err instanceof PromptTemplateError ? err.message : 'The prompts could not be saved.');
+      return;
+    }
+    const updatedProfile = updateSessionSettings(currentUser.id, editingSessionSettings);
+    if (updatedProfile) {
+      setCurrentUser(toCurrentUser(updatedProfile));
+    }
+    saveLlmSettings(editingLlmSettings);
+    setLlmSettings(editingLlmSettings);
+    saveDrugSafetyTable(table);
+    setDrugSafetyTable(table);
+    saveSummaryRules(rules);
+    setSummaryRules(rules);
+    saveSummaryTemplates(templates);
+    setSummaryTemplates(templates);
+    savePromptLibrary(library);
+    setPromptLibrary(library);
+    saveLetterhead(editingLetterhead);
+    setLetterhead(editingLetterhead);
+    handleCloseSettingsModal();
+  };
+
+  const handleEditLlmTask = (task: LlmTask, provider: LlmProviderId, model: string) => {
+    if (!editingLlmSettings) return;
+    setEditingLlmSettings({
+      ...editingLlmSettings,
+      tasks: { ...editingLlmSettings.tasks, [task]: { provider, model } },
+    });
   };
 
   const handleAcknowledgeGdpr = () => {
@@ -821,8 +2166,16 @@ ${JSON.stringify(currentSummary.summary, null, 2)}`;
   };
 
   const handleClearAllData = () => {
-    if (window.confirm("Are you sure you want to permanently delete ALL patient data from this browser? This action cannot be undone.")) {
-      localStorage.removeItem('patientData');
+    if (!repository) return;
+    if (window.confirm("Are you sure you want to permanently delete ALL of your patient data from this browser? This action cannot be undone.")) {
+      repository.clear()
+        .then(() => setStorageError(null))
+        .catch(err => {
+          console.error("Failed to clear patient data", err);
+          setStorageError("Patient data could not be cleared from storage.");
+        });
+      discardAttachments(patients.flatMap(patientAttachmentIds));
+      savedPatientsRef.current = new Map();
       setPatients([]);
       setSelectedPatientId(null);
       // Optional: also clear the GDPR acknowledgement if you want it to reappear for a fresh start
@@ -830,8 +2183,68 @@ ${JSON.stringify(currentSummary.summary, null, 2)}`;
     }
   };
 
+  // Swap in restored patients; the autosave effect writes and deletes the difference
+  const handleRestoreBackup = (restored: Patient[]) => {
+    const keptAttachmentIds = new Set(restored.flatMap(patientAttachmentIds));
+    discardAttachments(patients.flatMap(patientAttachmentIds).filter(id => !keptAttachmentIds.has(id)));
+    setPatients(restored);
+    setSelectedPatientId(null);
+    setViewingSummaryIndex(0);
+  };
+
+  const handleLock = (reason: LockReason) => {
+    if (recognitionRef.current && isListening) recognitionRef.current.stop();
+    setLockReason(reason);
+  };
+
+  useSessionTimeout(currentUser?.sessionSettings || null, sessionStartedAt, !!lockReason, handleLock);
+
+  const handleUnlock = async (profile: UserProfile, password: string, legacyPatients?: unknown[]) => {
+    if (lockReason && currentUser?.id === profile.id) {
+      // Re-authenticated over a locked session: the store is still unlocked in memory
+      return;
+    }
+    const unlockedRepository = await openPatientRepository(profile.id, password);
+
+    if (legacyPatients) {
+      // Claim the pre-accounts shared store: write it into this user's repository before removing the original
+      await unlockedRepository.importPatients(legacyPatients);
+      localStorage.removeItem(LEGACY_PATIENT_STORE_KEY);
+    }
+
+    const { patients: unlockedPatients, unreadable } = await unlockedRepository.loadAll();
+    savedPatientsRef.current = new Map(unlockedPatients.map(p => [p.id, p]));
+    setStorageError(unreadable.length > 0
+      ? `${unreadable.length} patient record${unreadable.length === 1 ? '' : 's'} could not be read and ${unreadable.length === 1 ? 'has' : 'have'} been left untouched in storage.`
+      : null);
+    setPatients(unlockedPatients);
+    setRepository(unlockedRepository);
+    setCurrentUser(toCurrentUser(profile));
+  };
+
+  const handleAuthenticated = () => {
+    // Unlocking after idle keeps the original sign-in time so the maximum session length stays absolute
+    if (!lockReason || lockReason === 'expired') {
+      setSessionStartedAt(Date.now());
+    }
+    setIsAuthenticated(true);
+    setLockReason(null);
+  };
+
   const handleLogout = () => {
-    sessionStorage.removeItem('hx_auth');
+    // Drop decrypted data and the key from memory; the encrypted store stays on disk
+    setRepository(null);
+    setIsBackupModalOpen(false);
+    handleResolveOutgoing(false);
+    savedPatientsRef.current = new Map();
+    setStorageError(null);
+    setPatients([]);
+    setSelectedPatientId(null);
+    setCurrentUser(null);
+    setLockReason(null);
+    setSessionStartedAt(null);
+    setPrompt('');
+    clearFiles();
     setIsAuthenticated(false);
   };
   
@@ -839,35 +2252,452 @@ ${JSON.stringify(currentSummary.summary, null, 2)}`;
     p.name.toLowerCase().includes(searchTerm.toLowerCase())
   );
 
+  const toggleCitation = (scope: 'draft' | 'summary', citation: ItemCitation, sources: SummarySource[]) => {
+    setActiveCitation(active =>
+      active && active.scope === scope && active.citation === citation ? null : { scope, citation, sources }
+    );
+  };
+
+  const renderSummarySections = (summary: Partial<StructuredResponse>, template?: SummaryTemplate, itemMeta?: SummaryItemMetaMap, sources?: SummarySource[]) => (
+    <>
+      {sectionOrder(summary, template).map(key => {
+        const values = summary[key];
+        if (values && Array.isArray(values) && values.length > 0) {
+          return (
+            <div key={key} className={`response-section section-${toKebabCase(key)}`}>
+              <h3>{key}</h3>
+              <ul>
+                {values.map((item, index) => {
+                  const meta = itemMeta?.[key]?.[index];
+                  const originLabel = meta && ITEM_ORIGIN_LABELS[meta.origin];
+                  const citation = sources && meta?.citation;
+                  const classNames = [
+                    meta ? `origin-${meta.origin}` : '',
+                    citation ? 'cited-item' : '',
+                    citation && activeCitation?.citation === citation ? 'active' : '',
+                  ].filter(Boolean).join(' ');
+                  return (
+                    <li
+                      key={index}
+                      className={classNames}
+                      {...(citation ? {
+                        role: 'button',
+                        tabIndex: 0,
+                        title: 'Show source',
+                        onClick: () => toggleCitation('summary', citation, sources),
+                        onKeyDown: (e: React.KeyboardEvent) => {
+                          if (e.key === 'Enter' || e.key === ' ') {
+                            e.preventDefault();
+                            toggleCitation('summary', citation, sources);
+                          }
+                        },
+                      } : {})}
+                    >
+                      {item}
+                      {originLabel && (
+                        <span className="item-origin-badge" title={meta.originalText ? `Original wording: ${meta.originalText}` : undefined}>
+                          {originLabel}
+                        </span>
+                      )}
+                    </li>
+                  );
+                })}
+              </ul>
+            </div>
+          );
+        }
+        return null;
+      })}
+    </>
+  );
+
+  // Medications grouped by status, newly started and changed first
+  const renderMedicationList = (medications: Medication[]) => {
+    if (medications.length === 0) return <p className="placeholder-text">No medications recorded.</p>;
+    const ordered = MEDICATION_STATUSES.flatMap(status => medications.filter(medication => medication.status === status));
+    return (
+      <ul className="medication-list">
+        {ordered.map((medication, index) => (
+          <li key={index} className={`medication-item medication-${medication.status}`}>
+            <span className="medication-status-badge">{MEDICATION_STATUS_LABELS[medication.status]}</span>
+            <span className="medication-description">{describeMedication(medication)}</span>
+            {medication.previous && (
+              <span className="medication-detail">
+                Previously {[medication.previous.dose, medication.previous.route, medication.previous.frequency].filter(Boolean).join(' ') || 'not specified'}
+              </span>
+            )}
+            {(medication.startDate || medication.stopDate) && (
+              <span className="medication-detail">
+                {medication.startDate && `Started ${medication.startDate}`}
+                {medication.startDate && medication.stopDate && ' · '}
+                {medication.stopDate && `Stopped ${medication.stopDate}`}
+              </span>
+            )}
+          </li>
+        ))}
+      </ul>
+    );
+  };
+
+  const renderProblemList = () => {
+    if (!problemTimeline || problemTimeline.problems.length === 0) return <p className="placeholder-text">No problems recorded.</p>;
+    return (
+      <div className="problem-list">
+        {(['active', 'inactive'] as const).map(status => {
+          const group = problemTimeline.problems.filter(problem => problem.status === status);
+          if (group.length === 0) return null;
+          return (
+            <div key={status} className={`problem-group problem-group-${status}`}>
+              <h4>{status === 'active' ? 'Active' : 'Inactive'} ({group.length})</h4>
+              <ul>
+                {group.map(problem => (
+                  <li key={problem.id} className="problem-item">
+                    <span className="problem-text">{problem.text}</span>
+                    <span className="problem-meta">
+                      {problem.section} · first recorded {new Date(problem.firstSeen).toLocaleDateString()}
+                      {problem.history.some(occurrence => occurrence.change === 'changed') && ' · wording changed'}
+                      {problem.resolvedAt && ` · not listed since ${new Date(problem.resolvedAt).toLocaleDateString()}`}
+                    </span>
+                  </li>
+                ))}
+              </ul>
+            </div>
+          );
+        })}
+      </div>
+    );
+  };
+
+  // One row per problem, one column per summary; clicking a date opens that summary
+  const renderProblemTimeline = () => {
+    if (!selectedPatient || !problemTimeline || problemTimeline.problems.length === 0) return <p className="placeholder-text">No problems recorded.</p>;
+    const { timestamps, problems } = problemTimeline;
+    return (
+      <>
+        <div className="problem-timeline-scroll">
+          <table className="problem-timeline">
+            <thead>
+              <tr>
+                <th>Problem</th>
+                {timestamps.map((timestamp, index) => (
+                  <th key={timestamp}>
+                    <button
+                      className="link-button"
+                      title={new Date(timestamp).toLocaleString()}
+                      onClick={() => {
+                        setCompareTimestamps(null);
+                        setViewingSummaryIndex(timestamps.length - 1 - index);
+                      }}
+                    >
+                      {new Date(timestamp).toLocaleDateString()}
+                    </button>
+                  </th>
+                ))}
+              </tr>
+            </thead>
+            <tbody>
+              {problems.map(problem => (
+                <tr key={problem.id}>
+                  <th scope="row" className={`problem-${problem.status}`}>{problem.text}</th>
+                  {timestamps.map(timestamp => {
+                    const occurrence = problem.history.find(entry => entry.timestamp === timestamp);
+                    return (
+                      <td
+                        key={timestamp}
+                        className={occurrence ? `problem-cell problem-cell-${occurrence.change}` : 'problem-cell'}
+                        title={occurrence ? `${PROBLEM_CHANGE_LABELS[occurrence.change]}${occurrence.text ? `: ${occurrence.text}` : ''}` : undefined}
+                      />
+                    );
+                  })}
+                </tr>
+              ))}
+            </tbody>
+          </table>
+        </div>
+        <ul className="problem-legend">
+          {(Object.keys(PROBLEM_CHANGE_LABELS) as ProblemChange[]).map(change => (
+            <li key={change}><span className={`problem-cell problem-cell-${change}`} />{PROBLEM_CHANGE_LABELS[change]}</li>
+          ))}
+        </ul>
+      </>
+    );
+  };
+
+  // Show the source a cited item came from, with the quoted span highlighted where it can be found
+  const renderSourceViewer = (scope: 'draft' | 'summary') => {
+    if (!activeCitation || activeCitation.scope !== scope) return null;
+    const { citation, sources } = activeCitation;
+    const source = sources.find(s => s.id === citation.sourceId);
+    const range = source?.text ? findQuoteRange(source.text, citation.quote) : null;
+    const recordInput = scope === 'draft' ? selectedPatient?.draft?.input : currentSummary?.input;
+    const attachment = source?.attachmentId ? recordInput?.attachments.find(a => a.id === source.attachmentId) : undefined;
+
+    return (
+      <div className="source-viewer">
+        <div className="source-viewer-header">
+          <h4>Source: {source ? source.label : citation.sourceId}</h4>
+          {attachment && (
+            <button onClick={() => handleOpenAttachment(attachment, false)} className="link-button source-link-btn">Open document</button>
+          )}
+          <button onClick={() => setActiveCitation(null)} className="close-modal-btn" aria-label="Close source">&times;</button>
+        </div>
+        {source?.text && range ? (
+          <pre className="source-text">
+            {source.text.slice(0, range[0])}
+            <mark ref={citationMarkRef}>{source.text.slice(range[0], range[1])}</mark>
+            {source.text.slice(range[1])}
+          </pre>
+        ) : (
+          <>
+            <blockquote className="source-quote">{citation.quote}</blockquote>
+            <p className="source-viewer-note">
+              {!source
+                ? 'The cited source is not part of this record.'
+                : source.text
+                  ? 'The quoted text could not be found word for word in this source.'
+                  : 'Only the quoted text can be shown for this document.'}
+            </p>
+          </>
+        )}
+      </div>
+    );
+  };
+
+  // The note and documents the viewed record was generated from
+  const renderOriginalInputs = () => {
+    const input = currentSummary?.input;
+    if (!input) return null;
+    const documentCount = input.attachments.length;
+
+    return (
+      <details className="original-inputs">
+        <summary>Original inputs{documentCount > 0 && ` (${documentCount} document${documentCount === 1 ? '' : 's'})`}</summary>
+        {input.text.trim() && <pre className="original-input-text">{input.text}</pre>}
+        {documentCount > 0 && (
+          <ul className="original-input-files">
+            {input.attachments.map(attachment => (
+              <li key={attachment.id}>
+                <span className="file-name">{attachment.name}</span>
+                <span className="file-size">{Math.max(1, Math.round(attachment.size / 1024))} KB</span>
+                <button onClick={() => handleOpenAttachment(attachment, false)} className="link-button">View</button>
+                <button onClick={() => handleOpenAttachment(attachment, true)} className="link-button">Download</button>
+              </li>
+            ))}
+          </ul>
+        )}
+        <div className="original-input-actions">
+          <button onClick={() => handleReopenInputs(input)} className="cancel-button" disabled={loading}>Reopen in Editor</button>
+          <button onClick={() => handleResummarise(viewingSummaryIndex)} disabled={loading}>Re-summarise</button>
+        </div>
+      </details>
+    );
+  };
+
+  // Picking a third summary replaces the earlier of the two already picked
+  const handleToggleCompare = (timestamp: string) => {
+    setCompareTimestamps(prev => {
+      const picked = prev || [];
+      if (picked.includes(timestamp)) return picked.filter(existing => existing !== timestamp);
+      return [...picked, timestamp].slice(-2);
+    });
+  };
+
+  const describeDiscrepancy = (discrepancy: KeyChangeDiscrepancy) => (discrepancy.kind === 'unreported'
+    ? `${ITEM_CHANGE_LABELS[discrepancy.change!]} in ${discrepancy.section} but not mentioned in Key Changes: "${discrepancy.text}"`
+    : `Key Changes says "${discrepancy.text}", but no matching change was found.`);
+
+  const renderSummaryDiff = () => {
+    if (!summaryComparison) return null;
+    const { older, newer, diff, consecutive, discrepancies } = summaryComparison;
+    return (
+      <div className="summary-diff">
+        <p className="summary-diff-heading">
+          Changes from <strong>{new Date(older.timestamp).toLocaleString()}</strong> to <strong>{new Date(newer.timestamp).toLocaleString()}</strong>
+        </p>
+        <div className="key-changes-check">
+          <h4>Key Changes Check</h4>
+          {discrepancies === null ? (
+            <p className="settings-hint">
+              {consecutive
+                ? 'The newer summary has no Key Changes to check.'
+                : 'Key Changes only describe changes since the preceding summary, so they are checked when comparing consecutive summaries.'}
+            </p>
+          ) : discrepancies.length === 0 ? (
+            <p className="settings-hint">Key Changes agree with the differences below.</p>
+          ) : (
+            <ul className="key-changes-discrepancies">
+              {discrepancies.map((discrepancy, index) => <li key={index}>{describeDiscrepancy(discrepancy)}</li>)}
+            </ul>
+          )}
+        </div>
+        {!hasChanges(diff) && <p className="placeholder-text">No differences between these summaries.</p>}
+        {diff.filter(section => section.items.length > 0).map(section => (
+          <div key={section.section} className={`response-section section-${toKebabCase(section.section)}`}>
+            <h3>{section.section}</h3>
+            <ul className="diff-list">
+              {section.items.map((item, index) => (
+                <li key={index} className={`diff-item diff-${item.change}`} title={ITEM_CHANGE_LABELS[item.change]}>
+                  {item.words
+                    ? item.words.map((word, wordIndex) => <span key={wordIndex} className={`diff-word-${word.change}`}>{word.text} </span>)
+                    : item.after ?? item.before}
+                </li>
+              ))}
+            </ul>
+          </div>
+        ))}
+      </div>
+    );
+  };
+
   const renderSummary = () => {
+    if (loading && streamingSummary) {
+      return (
+        <div className="streaming-summary" aria-live="polite">
+          {renderSummarySections(streamingSummary, generationTemplate)}
+          <div className="streaming-indicator">Generating...</div>
+        </div>
+      );
+    }
     if (!currentSummary) {
-      return !error && <p className="placeholder-text">Select a patient or create a new one to see their summary.</p>;
+      return !error && !loading && <p className="placeholder-text">Select a patient or create a new one to see their summary.</p>;
     }
-    const { summary } = currentSummary;
-    const sectionsOrder: (keyof StructuredResponse)[] = ['Key Changes', 'Acute Issues', 'Pending Tasks and action Plan', 'Past medical history'];
-    
     return (
       <>
-        {sectionsOrder.map(key => {
-          const values = summary[key];
-          if (values && Array.isArray(values) && values.length > 0) {
-            return (
-              <div key={key} className={`response-section section-${toKebabCase(key)}`}>
-                <h3>{key}</h3>
-                <ul>
-                  {values.map((item, index) => (
-                    <li key={index}>{item}</li>
-                  ))}
-                </ul>
-              </div>
-            );
-          }
-          return null;
-        })}
+        {renderRedFlagBanner(currentSummary.redFlags)}
+        {renderSummarySections(currentSummary.summary, currentTemplate, currentSummary.itemMeta, currentSummary.sources)}
+        {renderSourceViewer('summary')}
+        <p className="approval-line">
+          {currentSummary.approval
+            ? `Approved by ${currentSummary.approval.approvedBy.displayName} on ${new Date(currentSummary.approval.approvedAt).toLocaleString()}`
+            : 'Not reviewed (created before clinician approval was required)'}
+          {currentSummary.rejectedItems && currentSummary.rejectedItems.length > 0 && (
+            <span title={currentSummary.rejectedItems.map(item => `${item.section}: ${item.text}`).join('\n')}>
+              {` · ${currentSummary.rejectedItems.length} AI item${currentSummary.rejectedItems.length === 1 ? '' : 's'} removed`}
+            </span>
+          )}
+        </p>
+        {renderOriginalInputs()}
       </>
     );
   };
 
+  // Escalation banner for a draft or record whose red-flag check fired
+  const renderRedFlagBanner = (assessment?: RedFlagAssessment) => assessment?.urgency && (
+    <div className={`red-flag-banner red-flag-${assessment.urgency}`} role="alert">
+      <strong className="red-flag-urgency">⚠ Red flags. {RED_FLAG_URGENCY_LABELS[assessment.urgency]}</strong>
+      <ul>
+        {assessment.matches.map((match, index) => (
+          <li key={index}>
+            <strong>{match.criterion}</strong>{match.evidence && `: "${match.evidence}"`}
+            <span className="red-flag-source">
+              {match.detectedBy === 'model' ? 'AI check' : match.foundIn === 'acute-issues' ? 'Acute issues' : 'Notes'}
+            </span>
+          </li>
+        ))}
+      </ul>
+      {!assessment.modelChecked && <p className="red-flag-note">The AI red-flag check did not run; these are from the local rules only.</p>}
+      {renderPromptVersion(assessment.promptVersion)}
+    </div>
+  );
+
+  const renderSafetyWarnings = (warnings: SafetyWarning[]) => warnings.length > 0 && (
+    <ul className="safety-warnings" role="alert">
+      {warnings.map((warning, index) => (
+        <li key={index} className={`safety-warning safety-${warning.severity}`}>
+          <strong>{SAFETY_SEVERITY_LABELS[warning.severity]}:</strong>{' '}
+          {warning.kind === 'allergy'
+            ? `${warning.drug} with documented ${warning.conflictsWith} allergy.`
+            : `${warning.drug} with ${warning.conflictsWith}.`}
+          {' '}{warning.advice}
+        </li>
+      ))}
+    </ul>
+  );
+
+  const renderDraft = () => {
+    const draft = selectedPatient?.draft;
+    if (!draft || loading) return null;
+    const isPartial = draft.status !== 'complete';
+    // Key Changes only applies to updates, so offer it only when the model produced it
+    const editableSections = sectionOrder(draft.sections, draftTemplate)
+      .filter(key => key !== KEY_CHANGES_SECTION || draft.sections[key]);
+    const planSection = planSectionOf(draftTemplate);
+
+    return (
+      <div className="card draft-card">
+        <div className="card-header">
+          <h3>Draft for Review</h3>
+          <div className="summary-timestamp">{draftTemplate.name} · {new Date(draft.timestamp).toLocaleString()}</div>
+          {renderPromptVersion(draft.promptVersion)}
+        </div>
+        <div className="card-content response-area">
+          {renderRedFlagBanner(draft.redFlags)}
+          <p className="draft-notice">
+            {draft.status === 'cancelled' && 'Generation was cancelled before it finished. '}
+            {draft.status === 'failed' && 'Generation stopped with an error before it finished. '}
+            Edit, remove or add items, then approve to add this summary to the patient's history.
+            {isPartial && ' Standard safety-netting advice is added on approval.'}
+          </p>
+          {editableSections.map(section => (
+            <div key={section} className={`response-section draft-section section-${toKebabCase(section)}`}>
+              <h3>{section}</h3>
+              <ul>
+                {(draft.sections[section] || []).map((item, index) => (
+                  <li key={index} className={`draft-item origin-${item.origin}`}>
+                    <textarea
+                      value={item.text}
+                      rows={Math.max(1, Math.ceil(item.text.length / 70))}
+                      onChange={e => updateDraft(d => editDraftItem(d, section, index, e.target.value))}
+                      aria-label={`${section} item ${index + 1}`}
+                      placeholder="Enter item..."
+                    />
+                    {ITEM_ORIGIN_LABELS[item.origin] && <span className="item-origin-badge">{ITEM_ORIGIN_LABELS[item.origin]}</span>}
+                    {item.citation && (
+                      <button
+                        onClick={() => toggleCitation('draft', item.citation!, draft.sources || [])}
+                        className={`link-button source-link-btn ${activeCitation?.citation === item.citation ? 'active' : ''}`}
+                        aria-label={`Show source for ${section} item ${index + 1}`}
+                      >Source</button>
+                    )}
+                    <button
+                      onClick={() => updateDraft(d => removeDraftItem(d, section, index))}
+                      className="remove-item-btn"
+                      aria-label={`Remove ${section} item ${index + 1}`}
+                    >&times;</button>
+                    {section === planSection && renderSafetyWarnings(draftSafetyWarnings.filter(warning => warning.itemIndex === index))}
+                  </li>
+                ))}
+              </ul>
+              {section === planSection && renderSafetyWarnings(draftSafetyWarnings.filter(warning => warning.itemIndex === undefined))}
+              <button onClick={() => updateDraft(d => addDraftItem(d, section))} className="link-button add-item-btn">
+                + Add item
+              </button>
+            </div>
+          ))}
+          {draft.medications && (
+            <div className="response-section draft-section section-medications">
+              <h3>Medications</h3>
+              {renderMedicationList(draft.medications)}
+            </div>
+          )}
+          {renderSourceViewer('draft')}
+          {draft.rejectedItems.length > 0 && (
+            <p className="draft-rejected-count">{draft.rejectedItems.length} AI-generated item{draft.rejectedItems.length === 1 ? '' : 's'} removed</p>
+          )}
+          <div className="draft-actions">
+            <button onClick={handleRejectDraft} className="cancel-button">Reject</button>
+            <button onClick={handleApproveDraft}>Approve & Add to History</button>
+          </div>
+        </div>
+      </div>
+    );
+  };
+
+  // Which prompt wording produced an output; hovering shows the wording itself
+  const renderPromptVersion = (ref?: PromptVersionRef) => ref && (
+    <div className="prompt-version" title={findPromptVersion(promptLibrary, ref)?.text}>{promptVersionLabel(ref)}</div>
+  );
+
   const renderAssistantPanel = () => (
     <>
       {(insightsLoading || insights) && (
@@ -875,6 +2705,7 @@ ${JSON.stringify(currentSummary.summary, null, 2)}`;
             <h4>AI-Powered Insights</h4>
             {insightsLoading && <div className="loader">Fetching insights...</div>}
             {insights && <div className="ai-insights-content">{insights}</div>}
+            {insights && renderPromptVersion(outputPromptVersions.insights)}
         </div>
       )}
       {(differentialDiagnosisLoading || differentialDiagnosis) && (
@@ -891,20 +2722,7 @@ ${JSON.stringify(currentSummary.summary, null, 2)}`;
               ))}
             </ul>
           )}
-        </div>
-      )}
-      {(referralLetterLoading || referralLetter) && (
-        <div className="assistant-card" id="referral-letter-container" ref={referralContainerRef}>
-            <h4>Draft Referral Letter to {referralSpecialty}</h4>
-            {referralLetterLoading && <div className="loader">Drafting letter...</div>}
-            {referralLetter && (
-              <div className="referral-letter-content">
-                  <pre className="referral-text">{referralLetter}</pre>
-                  <button onClick={handleCopyReferral} className={`copy-button ${referralCopied ? 'copied' : ''}`} disabled={referralCopied}>
-                      {referralCopied ? 'Copied!' : 'Copy Letter'}
-                  </button>
-              </div>
-            )}
+          {differentialDiagnosis && renderPromptVersion(outputPromptVersions.differentials)}
         </div>
       )}
     </>
@@ -912,6 +2730,8 @@ ${JSON.stringify(currentSummary.summary, null, 2)}`;
 
   const renderEditPatientModal = () => {
     if (!isEditModalOpen || !editingPatientDetails) return null;
+    const nhsProblem = nhsNumberProblem(editingPatientDetails.nhsNumber);
+    const duplicates = findDuplicatePatients(editingPatientDetails, patients);
   
     return (
       <div className="modal-overlay" onClick={handleCloseEditModal}>
@@ -938,6 +2758,7 @@ ${JSON.stringify(currentSummary.summary, null, 2)}`;
                 value={editingPatientDetails.dob}
                 onChange={e => setEditingPatientDetails({ ...editingPatientDetails, dob: e.target.value })}
               />
+              {isFutureDate(editingPatientDetails.dob) && <span className="field-warning">Date of birth is in the future.</span>}
             </div>
             <div className="form-group">
               <label htmlFor="patient-nhs">NHS Number</label>
@@ -946,12 +2767,340 @@ ${JSON.stringify(currentSummary.summary, null, 2)}`;
                 type="text"
                 value={editingPatientDetails.nhsNumber}
                 onChange={e => setEditingPatientDetails({ ...editingPatientDetails, nhsNumber: e.target.value })}
+                onBlur={() => setEditingPatientDetails({ ...editingPatientDetails, nhsNumber: formatNhsNumber(editingPatientDetails.nhsNumber) })}
+                placeholder="e.g. 943 476 5919"
+                inputMode="numeric"
+                aria-invalid={!!nhsProblem}
               />
+              {nhsProblem && <span className="field-error">{nhsProblem}</span>}
             </div>
+            {duplicates.length > 0 && (
+              <div className="duplicate-warning">
+                <strong>Possible duplicate records</strong>
+                <ul>
+                  {duplicates.map(match => (
+                    <li key={match.patient.id}>
+                      {match.patient.name}{match.patient.dob && `, born ${match.patient.dob}`} ({DUPLICATE_REASON_LABELS[match.reason]}, {match.patient.summaries.length} summar{match.patient.summaries.length === 1 ? 'y' : 'ies'})
+                      <button onClick={() => handleMergeDuplicate(editingPatientDetails.id, match.patient.id)} className="link-button" disabled={!!nhsProblem}>
+                        Merge into this record
+                      </button>
+                    </li>
+                  ))}
+                </ul>
+              </div>
+            )}
           </div>
           <div className="modal-footer">
             <button onClick={handleCloseEditModal} className="cancel-button">Cancel</button>
-            <button onClick={handleSavePatientDetails}>Save Changes</button>
+            <button onClick={handleSavePatientDetails} disabled={!!nhsProblem}>Save Changes</button>
+          </div>
+        </div>
+      </div>
+    );
+  };
+
+  const renderSettingsModal = () => {
+    if (!isSettingsModalOpen || !editingSessionSettings || !editingLlmSettings) return null;
+    const usesProvider = (provider: LlmProviderId) =>
+      (Object.keys(LLM_TASK_LABELS) as LlmTask[]).some(task => editingLlmSettings.tasks[task].provider === provider);
+    const usesGemini = usesProvider('gemini');
+    const usesOpenAiCompatible = usesProvider('openai-compatible');
+
+    return (
+      <div className="modal-overlay" onClick={handleCloseSettingsModal}>
+        <div className="modal-content settings-modal-content" onClick={e => e.stopPropagation()}>
+          <div className="modal-header">
+            <h3>Settings</h3>
+            <button onClick={handleCloseSettingsModal} className="close-modal-btn">&times;</button>
+          </div>
+          <div className="modal-body">
+            <h4 className="settings-section-title">Session Security</h4>
+            <div className="form-group">
+              <label htmlFor="idle-timeout">Lock after inactivity</label>
+              <select
+                id="idle-timeout"
+                value={editingSessionSettings.idleTimeoutMinutes}
+                onChange={e => setEditingSessionSettings({ ...editingSessionSettings, idleTimeoutMinutes: Number(e.target.value) })}
+              >
+                <option value={0}>Never</option>
+                {[2, 5, 10, 15, 30, 60].map(minutes => (
+                  <option key={minutes} value={minutes}>{minutes} minutes</option>
+                ))}
+              </select>
+            </div>
+            <div className="form-group">
+              <label htmlFor="max-session">Maximum session length</label>
+              <select
+                id="max-session"
+                value={editingSessionSettings.maxSessionHours}
+                onChange={e => setEditingSessionSettings({ ...editingSessionSettings, maxSessionHours: Number(e.target.value) })}
+              >
+                <option value={0}>No limit</option>
+                {[1, 2, 4, 8, 12].map(hours => (
+                  <option key={hours} value={hours}>{hours} {hours === 1 ? 'hour' : 'hours'}</option>
+                ))}
+              </select>
+            </div>
+            <p className="settings-hint">Press <kbd>{AUTH_CONFIG.lockShortcutLabel}</kbd> to lock the app immediately. Locking keeps your unsaved notes and uploads.</p>
+
+            <h4 className="settings-section-title">Data Sent to AI</h4>
+            <label className="settings-checkbox">
+              <input
+                type="checkbox"
+                checked={editingLlmSettings.redaction.enabled}
+                onChange={e => setEditingLlmSettings({ ...editingLlmSettings, redaction: { ...editingLlmSettings.redaction, enabled: e.target.checked } })}
+              />
+              Replace names, NHS numbers, dates of birth, postcodes, phone numbers and emails with tokens before sending
+            </label>
+            <label className="settings-checkbox">
+              <input
+                type="checkbox"
+                checked={editingLlmSettings.redaction.previewBeforeSend}
+                onChange={e => setEditingLlmSettings({ ...editingLlmSettings, redaction: { ...editingLlmSettings.redaction, previewBeforeSend: e.target.checked } })}
+              />
+              Preview each request and confirm before it is sent
+            </label>
+            <p className="settings-hint">Redaction is pattern-based and runs on this device. PDFs and images cannot be redacted and are sent as they are.</p>
+
+            <h4 className="settings-section-title">AI Providers</h4>
+            <table className="llm-task-table">
+              <thead>
+                <tr><th>Task</th><th>Provider</th><th>Model</th></tr>
+              </thead>
+              <tbody>
+                {(Object.keys(LLM_TASK_LABELS) as LlmTask[]).map(task => {
+                  const route = editingLlmSettings.tasks[task];
+                  return (
+                    <tr key={task}>
+                      <td>{LLM_TASK_LABELS[task]}</td>
+                      <td>
+                        <select
+                          value={route.provider}
+                          aria-label={`${LLM_TASK_LABELS[task]} provider`}
+                          onChange={e => {
+                            const provider = e.target.value as LlmProviderId;
+                            handleEditLlmTask(task, provider, SUGGESTED_MODELS[provider][0]);
+                          }}
+                        >
+                          {(Object.keys(LLM_PROVIDER_LABELS) as LlmProviderId[]).map(provider => (
+                            <option key={provider} value={provider}>{LLM_PROVIDER_LABELS[provider]}</option>
+                          ))}
+                        </select>
+                      </td>
+                      <td>
+                        <input
+                          type="text"
+                          list={`models-${route.provider}`}
+                          value={route.model}
+                          aria-label={`${LLM_TASK_LABELS[task]} model`}
+                          onChange={e => handleEditLlmTask(task, route.provider, e.target.value)}
+                        />
+                      </td>
+                    </tr>
+                  );
+                })}
+              </tbody>
+            </table>
+            {(Object.keys(SUGGESTED_MODELS) as LlmProviderId[]).map(provider => (
+              <datalist key={provider} id={`models-${provider}`}>
+                {SUGGESTED_MODELS[provider].map(model => <option key={model} value={model} />)}
+              </datalist>
+            ))}
+            {usesGemini && (
+              <div className="form-group">
+                <label htmlFor="gemini-proxy-url">Gemini proxy URL</label>
+                <input
+                  id="gemini-proxy-url"
+                  type="text"
+                  value={editingLlmSettings.gemini.proxyUrl}
+                  onChange={e => setEditingLlmSettings({ ...editingLlmSettings, gemini: { proxyUrl: e.target.value } })}
+                />
+              </div>
+            )}
+            {usesOpenAiCompatible && (
+              <>
+                <div className="form-group">
+                  <label htmlFor="openai-base-url">OpenAI-compatible base URL</label>
+                  <input
+                    id="openai-base-url"
+                    type="text"
+                    value={editingLlmSettings.openAiCompatible.baseUrl}
+                    onChange={e => setEditingLlmSettings({ ...editingLlmSettings, openAiCompatible: { ...editingLlmSettings.openAiCompatible, baseUrl: e.target.value } })}
+                  />
+                </div>
+                <div className="form-group">
+                  <label htmlFor="openai-api-key">API key (optional)</label>
+                  <input
+                    id="openai-api-key"
+                    type="password"
+                    value={editingLlmSettings.openAiCompatible.apiKey}
+                    onChange={e => setEditingLlmSettings({ ...editingLlmSettings, openAiCompatible: { ...editingLlmSettings.openAiCompatible, apiKey: e.target.value } })}
+                  />
+                </div>
+              </>
+            )}
+            <button
+              type="button"
+              className="link-button settings-reset-btn"
+              onClick={() => setEditingLlmSettings({ ...DEFAULT_LLM_SETTINGS, redaction: editingLlmSettings.redaction })}
+            >
+              Reset AI providers to defaults
+            </button>
+
+            <h4 className="settings-section-title">Drug Safety Checks</h4>
+            <p className="settings-hint">
+              Drugs started in a generated plan are checked on this device against documented allergies and current medications.
+              Edit the drug groups, allergy cross-reactivity and interaction rules below. Rules can name a group or a single drug.
+            </p>
+            <textarea
+              className="settings-json-editor"
+              value={editingDrugSafetyText}
+              onChange={e => { setEditingDrugSafetyText(e.target.value); setDrugSafetyError(null); }}
+              rows={12}
+              spellCheck={false}
+              aria-label="Drug safety table (JSON)"
+            />
+            {drugSafetyError && <div className="error-message">{drugSafetyError}</div>}
+            <button
+              type="button"
+              className="link-button settings-reset-btn"
+              onClick={() => { setEditingDrugSafetyText(JSON.stringify(DEFAULT_DRUG_SAFETY_TABLE, null, 2)); setDrugSafetyError(null); }}
+            >
+              Reset drug safety table to default
+            </button>
+
+            <h4 className="settings-section-title">Safety Netting and Post-processing</h4>
+            <p className="settings-hint">
+              Rules run in order on every summary. Each has match conditions, insert, replace or remove actions for a section,
+              and tests giving an example summary and the expected result. Rules are only saved when all their tests pass.
+              Rules name the standard template's sections; summaries from other templates use the section with the same role.
+            </p>
+            <textarea
+              className="settings-json-editor"
+              value={editingSummaryRulesText}
+              onChange={e => { setEditingSummaryRulesText(e.target.value); setSummaryRulesError(null); }}
+              rows={12}
+              spellCheck={false}
+              aria-label="Summary rules (JSON)"
+            />
+            {summaryRulesError && <div className="error-message">{summaryRulesError}</div>}
+            <button
+              type="button"
+              className="link-button settings-reset-btn"
+              onClick={() => { setEditingSummaryRulesText(JSON.stringify(DEFAULT_SUMMARY_RULES, null, 2)); setSummaryRulesError(null); }}
+            >
+              Reset summary rules to defaults
+            </button>
+
+            <h4 className="settings-section-title">Summary Templates</h4>
+            <p className="settings-hint">
+              Each template lists its sections, what belongs in each, which the model must return, and the prompt wording for a
+              new and an updated summary. A section's role ("acute", "plan" or "history") tells the red-flag, drug safety,
+              safety-netting and problem-list checks which section to read. Summaries keep the template they were made with.
+            </p>
+            <textarea
+              className="settings-json-editor"
+              value={editingSummaryTemplatesText}
+              onChange={e => { setEditingSummaryTemplatesText(e.target.value); setSummaryTemplatesError(null); }}
+              rows={12}
+              spellCheck={false}
+              aria-label="Summary templates (JSON)"
+            />
+            {summaryTemplatesError && <div className="error-message">{summaryTemplatesError}</div>}
+            <button
+              type="button"
+              className="link-button settings-reset-btn"
+              onClick={() => { setEditingSummaryTemplatesText(JSON.stringify(DEFAULT_SUMMARY_TEMPLATES, null, 2)); setSummaryTemplatesError(null); }}
+            >
+              Reset summary templates to defaults
+            </button>
+
+            {editingLetterhead && (
+              <>
+                <h4 className="settings-section-title">Referral Letterhead</h4>
+                <p className="settings-hint">
+                  Printed at the top of referral letters, with the signing clinician at the bottom. Patient details are merged
+                  into letters on this device and are never sent to the AI provider.
+                </p>
+                {LETTERHEAD_FIELDS.map(field => (
+                  <div className="form-group" key={field.key}>
+                    <label htmlFor={`letterhead-${field.key}`}>{field.label}</label>
+                    {field.multiline ? (
+                      <textarea
+                        id={`letterhead-${field.key}`}
+                        value={editingLetterhead[field.key]}
+                        onChange={e => setEditingLetterhead({ ...editingLetterhead, [field.key]: e.target.value })}
+                        rows={3}
+                      />
+                    ) : (
+                      <input
+                        id={`letterhead-${field.key}`}
+                        type="text"
+                        value={editingLetterhead[field.key]}
+                        onChange={e => setEditingLetterhead({ ...editingLetterhead, [field.key]: e.target.value })}
+                        placeholder={field.placeholder}
+                      />
+                    )}
+                  </div>
+                ))}
+              </>
+            )}
+
+            {editingPromptTexts && (
+              <>
+                <h4 className="settings-section-title">Prompt Library</h4>
+                <p className="settings-hint">
+                  The wording sent to the model for each task. Variables in double braces, such as {'{{summary}}'}, are filled in
+                  when the request is made. Saving changed wording creates a new version; summaries and AI outputs show the
+                  version that produced them, and earlier versions are kept below each prompt.
+                </p>
+                {PROMPT_IDS.map(id => {
+                  const template = promptLibrary[id];
+                  return (
+                    <div key={id} className="prompt-editor">
+                      <label htmlFor={`prompt-${id}`}>{promptLabel(id)} <span className="prompt-editor-version">v{template.version}</span></label>
+                      <textarea
+                        id={`prompt-${id}`}
+                        className="settings-json-editor"
+                        value={editingPromptTexts[id]}
+                        onChange={e => { setEditingPromptTexts({ ...editingPromptTexts, [id]: e.target.value }); setPromptLibraryError(null); }}
+                        rows={8}
+                      />
+                      <ul className="prompt-variables">
+                        {PROMPT_VARIABLES[id].map(variable => (
+                          <li key={variable.name}>
+                            <code>{`{{${variable.name}}}`}</code> {variable.description}{variable.required && ' (required)'}
+                          </li>
+                        ))}
+                      </ul>
+                      {template.history.length > 0 && (
+                        <details className="prompt-history">
+                          <summary>Earlier versions ({template.history.length})</summary>
+                          {template.history.map(entry => (
+                            <div key={entry.version} className="prompt-history-entry">
+                              <strong>v{entry.version}</strong>{entry.savedAt ? ` · saved ${new Date(entry.savedAt).toLocaleString()}` : ' · built-in'}
+                              <pre>{entry.text}</pre>
+                            </div>
+                          ))}
+                        </details>
+                      )}
+                      <button
+                        type="button"
+                        className="link-button settings-reset-btn"
+                        onClick={() => { setEditingPromptTexts({ ...editingPromptTexts, [id]: DEFAULT_PROMPT_LIBRARY[id].text }); setPromptLibraryError(null); }}
+                      >
+                        Reset {promptLabel(id)} prompt to default
+                      </button>
+                    </div>
+                  );
+                })}
+                {promptLibraryError && <div className="error-message">{promptLibraryError}</div>}
+              </>
+            )}
+          </div>
+          <div className="modal-footer">
+            <button onClick={handleCloseSettingsModal} className="cancel-button">Cancel</button>
+            <button onClick={handleSaveSettings}>Save Settings</button>
           </div>
         </div>
       </div>
@@ -970,16 +3119,16 @@ ${JSON.stringify(currentSummary.summary, null, 2)}`;
           </div>
           <div className="modal-body privacy-modal-body">
             <h4>Data Storage</h4>
-            <p>All patient information you enter (including names, dates of birth, NHS numbers, and clinical notes) is stored <strong>exclusively in your browser's local storage</strong>. This data never leaves your computer and is not sent to our servers.</p>
+            <p>All patient information you enter (including names, dates of birth, NHS numbers, and clinical notes) is stored <strong>exclusively in your browser's storage</strong> (IndexedDB). The original notes and uploaded documents are kept with each summary so they can be reopened later. This data never leaves your computer and is not sent to our servers.</p>
             
             <h4>Data Security</h4>
-            <p>You are responsible for ensuring the physical and digital security of the device you are using. The data stored in your browser is not encrypted by this application.</p>
+            <p>Each clinician has their own account and patient list. Passwords are stored only as salted hashes, and each account's patient data and stored documents are encrypted with AES-GCM using a key derived from that account's password (PBKDF2). The key is held in memory only while the app is unlocked and is discarded when you log out or close the tab. You remain responsible for the physical and digital security of the device you are using.</p>
             
             <h4>Your Rights & Data Control</h4>
             <p>You have full control over your data. You can view, edit, and delete individual patient records at any time. To permanently erase all data from this browser, use the <strong>"Clear All Patient Data"</strong> button at the bottom of the patient list.</p>
 
-            <h4>Third-Party Services (Google Gemini API)</h4>
-            <p>This application uses the Google Gemini API to generate summaries and insights. When you use an AI feature, only the relevant clinical text from the summary is sent to Google for processing. Patient demographic data (Name, DOB, NHS Number) is <strong>not</strong> sent to the API. For more information, please refer to Google's privacy policy.</p>
+            <h4>Third-Party Services (AI Providers)</h4>
+            <p>This application uses the Google Gemini API by default to generate summaries and insights. Requests go through a proxy server operated by your organisation, which holds the API key. Each AI task can be routed to a different provider in Settings, including an OpenAI-compatible endpoint you host yourself or an offline mock that sends nothing. When you use an AI feature, the relevant clinical text is sent to the chosen provider for processing. Before it leaves the browser, names, NHS numbers, dates of birth, postcodes, phone numbers and email addresses are replaced with tokens such as [NAME_1], and swapped back when the response arrives; the token table never leaves this device. You can preview exactly what will be sent before each request. Detection is pattern-based, so check the preview, and note that uploaded PDFs and images are sent as they are. For more information, please refer to Google's privacy policy.</p>
           </div>
           <div className="modal-footer">
             <button onClick={() => setIsPrivacyModalOpen(false)}>Close</button>
@@ -990,10 +3139,46 @@ ${JSON.stringify(currentSummary.summary, null, 2)}`;
   };
   
   return (
-    <>
-      {!isAuthenticated && <LoginModal onAuthenticate={() => setIsAuthenticated(true)} />}
+    <CurrentUserContext.Provider value={currentUser}>
+      {!isAuthenticated && <LoginModal onUnlock={handleUnlock} onAuthenticate={handleAuthenticated} />}
+      {isAuthenticated && lockReason && (
+        <LoginModal
+          onUnlock={handleUnlock}
+          onAuthenticate={handleAuthenticated}
+          lockedUser={currentUser}
+          lockReason={lockReason}
+          onSignOut={handleLogout}
+        />
+      )}
       {renderEditPatientModal()}
       {renderPrivacyModal()}
+      {renderSettingsModal()}
+      {isBackupModalOpen && storeKey && currentUser && (
+        <BackupModal
+          patients={patients}
+          userId={currentUser.id}
+          storeKey={storeKey}
+          onRestore={handleRestoreBackup}
+          onClose={() => setIsBackupModalOpen(false)}
+        />
+      )}
+      {openReferral && selectedPatient && (
+        <ReferralBuilderModal
+          referral={openReferral}
+          patient={selectedPatient}
+          letterhead={letterhead}
+          onDraft={handleDraftReferral}
+          onSave={handleSaveReferral}
+          onClose={() => setOpenReferral(null)}
+        />
+      )}
+      {outgoingRequest && (
+        <OutgoingPreviewModal
+          request={outgoingRequest.request}
+          onSend={() => handleResolveOutgoing(true)}
+          onCancel={() => handleResolveOutgoing(false)}
+        />
+      )}
       <div className={`app-layout ${!isSidebarOpen ? 'sidebar-collapsed' : ''}`}>
         <div className="sidebar">
           <div className="sidebar-header">
@@ -1014,6 +3199,11 @@ ${JSON.stringify(currentSummary.summary, null, 2)}`;
               >
                 <span onClick={() => handleSelectPatient(patient.id)} className="patient-name">
                   {patient.name}
+                  {patient.draft && <span className="draft-indicator" title="Draft awaiting review">●</span>}
+                  {duplicatePatientIds.has(patient.id) && <span className="duplicate-indicator" title="Possible duplicate record">⧉</span>}
+                  {(patient.draft?.redFlags?.urgency || patient.summaries[0]?.redFlags?.urgency) && (
+                    <span className="red-flag-indicator" title="Red flags in the latest summary">⚑</span>
+                  )}
                 </span>
                 <button 
                   onClick={(e) => {
@@ -1030,8 +3220,14 @@ ${JSON.stringify(currentSummary.summary, null, 2)}`;
             <button onClick={handleCreateNew} className="new-patient-btn">
                 + New Patient Summary
             </button>
+            <label className="import-patient-btn">
+              Import from FHIR
+              <input type="file" accept=".json,application/json,application/fhir+json" onChange={handleImportFhir} hidden />
+            </label>
             <div className="privacy-actions">
+              <button onClick={handleOpenSettingsModal} className="privacy-btn">Settings</button>
               <button onClick={() => setIsPrivacyModalOpen(true)} className="privacy-btn">Privacy & Data</button>
+              <button onClick={() => setIsBackupModalOpen(true)} className="privacy-btn">Backup & Restore</button>
               <button onClick={handleClearAllData} className="clear-data-btn">Clear All Patient Data</button>
             </div>
           </div>
@@ -1044,6 +3240,20 @@ ${JSON.stringify(currentSummary.summary, null, 2)}`;
             </button>
             <h1>AI Clinical Summariser</h1>
             <p>Generate, update, and manage patient notes with AI-powered efficiency.</p>
+            <CurrentUserBadge />
+            {isAuthenticated && (
+              <button
+                onClick={() => handleLock('manual')}
+                className="logout-btn lock-btn"
+                aria-label="Lock session"
+                title={`Lock (${AUTH_CONFIG.lockShortcutLabel})`}
+              >
+                <svg xmlns="http://www.w3.org/2000/svg" width="20" height="20" viewBox="0 0 24 24" fill="none" stroke="currentColor" strokeWidth="2" strokeLinecap="round" strokeLinejoin="round">
+                  <rect x="3" y="11" width="18" height="11" rx="2" ry="2"></rect>
+                  <path d="M7 11V7a5 5 0 0 1 10 0v4"></path>
+                </svg>
+              </button>
+            )}
             {isAuthenticated && (
               <button 
                 onClick={handleLogout} 
@@ -1059,6 +3269,7 @@ ${JSON.stringify(currentSummary.summary, null, 2)}`;
               </button>
             )}
           </header>
+          {storageError && <div className="error-message storage-error" role="alert">{storageError}</div>}
           <main className="main-grid">
             <div className="main-content-stack">
               <div className="column summary-column">
@@ -1071,36 +3282,62 @@ ${JSON.stringify(currentSummary.summary, null, 2)}`;
                           <div className="card-content">
                               <div className="detail-item"><strong>Name:</strong> {selectedPatient.name}</div>
                               <div className="detail-item"><strong>DOB:</strong> {selectedPatient.dob || 'Not set'}</div>
-                              <div className="detail-item"><strong>NHS Number:</strong> {selectedPatient.nhsNumber || 'Not set'}</div>
+                              <div className="detail-item">
+                                <strong>NHS Number:</strong> {selectedPatient.nhsNumber ? formatNhsNumber(selectedPatient.nhsNumber) : 'Not set'}
+                                {nhsNumberProblem(selectedPatient.nhsNumber) && <span className="field-warning"> (fails check-digit validation)</span>}
+                              </div>
+                              {isFutureDate(selectedPatient.dob) && <div className="field-warning">Date of birth is in the future.</div>}
+                              {selectedDuplicates.map(match => (
+                                <div key={match.patient.id} className="duplicate-warning">
+                                  Possible duplicate: <strong>{match.patient.name}</strong> ({DUPLICATE_REASON_LABELS[match.reason]})
+                                  <button onClick={() => handleMergeDuplicate(selectedPatient.id, match.patient.id)} className="link-button">Merge into this record</button>
+                                </div>
+                              ))}
                           </div>
                       </div>
                   )}
+                {renderDraft()}
                 <div className="card summary-history-card">
                   <div className="card-header">
                     <h3>Clinical Summary</h3>
                     {currentSummary && (
                        <div className="summary-timestamp">
-                          {new Date(currentSummary.timestamp).toLocaleString()}
+                          {currentTemplate.name} · {new Date(currentSummary.timestamp).toLocaleString()}
                       </div>
                     )}
+                    {renderPromptVersion(currentSummary?.promptVersion)}
                   </div>
                   <div className="card-content response-area">
                     {error && <div className="error-message">{error}</div>}
-                    {renderSummary()}
+                    {inputRedFlags && renderRedFlagBanner(inputRedFlags)}
+                    {compareTimestamps && !summaryComparison && (
+                      <p className="compare-hint">Pick two summaries from the history below to compare.</p>
+                    )}
+                    {summaryComparison ? renderSummaryDiff() : renderSummary()}
                   </div>
                   {currentSummary && selectedPatient && (
                      <div className="timeline-container">
-                        <h4>Summary History</h4>
-                        <ul>
+                        <div className="timeline-header">
+                          <h4>Summary History</h4>
+                          {selectedPatient.summaries.length > 1 && (
+                            <button onClick={() => setCompareTimestamps(prev => (prev ? null : []))} className="link-button">
+                              {compareTimestamps ? 'Done Comparing' : 'Compare'}
+                            </button>
+                          )}
+                        </div>
+                        <ul className={compareTimestamps ? 'comparing' : ''}>
                             {selectedPatient.summaries.slice().reverse().map((summary, reversedIndex) => {
                                 const originalIndex = selectedPatient.summaries.length - 1 - reversedIndex;
+                                const isActive = compareTimestamps ? compareTimestamps.includes(summary.timestamp) : originalIndex === viewingSummaryIndex;
                                 return (
                                     <li 
                                         key={summary.timestamp} 
-                                        className={originalIndex === viewingSummaryIndex ? 'active' : ''}
-                                        onClick={() => setViewingSummaryIndex(originalIndex)}
+                                        className={isActive ? 'active' : ''}
+                                        onClick={() => (compareTimestamps ? handleToggleCompare(summary.timestamp) : setViewingSummaryIndex(originalIndex))}
                                     >
+                                       {compareTimestamps && <input type="checkbox" checked={isActive} readOnly tabIndex={-1} />}
                                        {new Date(summary.timestamp).toLocaleString()}
+                                       {summary.redFlags?.urgency && <span className="red-flag-indicator" title={RED_FLAG_URGENCY_LABELS[summary.redFlags.urgency]}>⚑</span>}
                                     </li>
                                 );
                             })}
@@ -1108,6 +3345,30 @@ ${JSON.stringify(currentSummary.summary, null, 2)}`;
                     </div>
                   )}
                 </div>
+                {currentSummary?.medications && !(loading && streamingSummary) && (
+                  <div className="card medications-card">
+                    <div className="card-header">
+                      <h3>Medications</h3>
+                    </div>
+                    <div className="card-content">
+                      {renderMedicationList(currentSummary.medications)}
+                    </div>
+                  </div>
+                )}
+                {problemTimeline && (
+                  <div className="card problems-card">
+                    <div className="card-header">
+                      <h3>Problems</h3>
+                      <div className="problem-view-toggle">
+                        <button className={problemView === 'list' ? 'active' : ''} onClick={() => setProblemView('list')}>List</button>
+                        <button className={problemView === 'timeline' ? 'active' : ''} onClick={() => setProblemView('timeline')}>Timeline</button>
+                      </div>
+                    </div>
+                    <div className="card-content">
+                      {problemView === 'list' ? renderProblemList() : renderProblemTimeline()}
+                    </div>
+                  </div>
+                )}
               </div>
 
               <div className="column actions-column">
@@ -1152,6 +3413,12 @@ ${JSON.stringify(currentSummary.summary, null, 2)}`;
                           )}
                         </div>
                       </div>
+                      <div className="form-row template-row">
+                        <label htmlFor="summary-template">Template</label>
+                        <select id="summary-template" value={generationTemplate.id} onChange={e => setChosenTemplateId(e.target.value)} disabled={loading}>
+                          {summaryTemplates.map(template => <option key={template.id} value={template.id}>{template.name}</option>)}
+                        </select>
+                      </div>
                       <div className="form-row file-upload-row">
                         <label htmlFor="file-upload" className="file-upload-button" aria-disabled={loading}>
                           Upload Document(s)
@@ -1160,6 +3427,11 @@ ${JSON.stringify(currentSummary.summary, null, 2)}`;
                         <button type="submit" disabled={loading || (!prompt.trim() && files.length === 0)}>
                           {loading ? (selectedPatient ? 'Updating...' : 'Generating...') : (selectedPatient ? 'Update Summary' : 'Submit')}
                         </button>
+                        {loading && (
+                          <button type="button" onClick={handleCancelGeneration} className="cancel-button cancel-generation-btn">
+                            Cancel
+                          </button>
+                        )}
                       </div>
                     </form>
                     {files.length > 0 && (
@@ -1185,30 +3457,9 @@ ${JSON.stringify(currentSummary.summary, null, 2)}`;
                         <button onClick={handleSuggestDifferentials} disabled={differentialDiagnosisLoading} className="action-button diff-dx-button" aria-label="Suggest differential diagnoses">
                           {differentialDiagnosisLoading ? 'Analyzing...' : 'Suggest Differentials'}
                         </button>
-                        {!showReferralInput ? (
-                          <button onClick={() => setShowReferralInput(true)} disabled={referralLetterLoading} className="action-button referral-button" aria-label="Draft a referral letter">
-                            Draft Referral Letter
-                          </button>
-                        ) : (
-                          <div className="inline-form">
-                            <input
-                              type="text"
-                              value={referralSpecialtyInput}
-                              onChange={(e) => setReferralSpecialtyInput(e.target.value)}
-                              placeholder="Enter specialty..."
-                              aria-label="Referral specialty"
-                              disabled={referralLetterLoading}
-                            />
-                            <div className="inline-form-buttons">
-                              <button onClick={handleGenerateReferral} disabled={!referralSpecialtyInput.trim() || referralLetterLoading}>
-                                {referralLetterLoading ? '...' : 'Go'}
-                              </button>
-                              <button onClick={() => { setShowReferralInput(false); setReferralSpecialtyInput(''); }} className="cancel-button" disabled={referralLetterLoading}>
-                                &times;
-                              </button>
-                            </div>
-                          </div>
-                        )}
+                        <button onClick={handleNewReferral} className="action-button referral-button" aria-label="Build a referral letter">
+                          Draft Referral Letter
+                        </button>
                         <hr className="divider" />
                         <button onClick={handleCopy} className={`action-button copy-button ${copied ? 'copied' : ''}`} disabled={copied} aria-label="Copy response to clipboard">
                           {copied ? 'Copied!' : 'Copy Summary'}
@@ -1216,6 +3467,9 @@ ${JSON.stringify(currentSummary.summary, null, 2)}`;
                         <button onClick={handleExportPdf} className="action-button export-button" disabled={isExportingPdf} aria-label="Export response to PDF">
                           {isExportingPdf ? 'Exporting...' : 'Export to PDF'}
                         </button>
+                        <button onClick={handleExportFhir} className="action-button export-button" aria-label="Export patient as a FHIR R4 bundle">
+                          Export FHIR Bundle
+                        </button>
                       </div>
                     )}
                   </div>
@@ -1230,11 +3484,43 @@ ${JSON.stringify(currentSummary.summary, null, 2)}`;
                 </div>
                 <div className="card-content assistant-panel">
                   {renderAssistantPanel()}
-                  {!insights && !differentialDiagnosis && !referralLetter &&
+                  {!insights && !differentialDiagnosis &&
                     <p className="placeholder-text">AI-generated content will appear here.</p>
                   }
                 </div>
               </div>
+              {currentSummary && selectedPatient && (
+                <div className="card scores-card">
+                  <div className="card-header">
+                    <h3>Clinical Scores</h3>
+                  </div>
+                  <div className="card-content">
+                    <ScoreCalculatorsPanel record={currentSummary} patient={selectedPatient} onSave={handleSaveScore} />
+                  </div>
+                </div>
+              )}
+              {selectedPatient?.referrals && selectedPatient.referrals.length > 0 && (
+                <div className="card referrals-card">
+                  <div className="card-header">
+                    <h3>Referrals</h3>
+                  </div>
+                  <div className="card-content">
+                    <ul className="referral-history">
+                      {selectedPatient.referrals.map(referral => (
+                        <li key={referral.id}>
+                          <button onClick={() => setOpenReferral(referral)} className="link-button">
+                            {referral.specialty || 'Referral letter'}
+                          </button>
+                          <span className={`referral-urgency ${referral.urgency}`}>{REFERRAL_URGENCY_LABELS[referral.urgency]}</span>
+                          <div className="saved-score-meta">
+                            {referral.createdBy.displayName}, {new Date(referral.updatedAt).toLocaleString()}
+                          </div>
+                        </li>
+                      ))}
+                    </ul>
+                  </div>
+                </div>
+              )}
             </div>
           </main>
         </div>
@@ -1245,7 +3531,7 @@ ${JSON.stringify(currentSummary.summary, null, 2)}`;
           <button onClick={handleAcknowledgeGdpr}>Acknowledge</button>
         </div>
       )}
-    </>
+    </CurrentUserContext.Provider>
   );
 }
 
@@ -0,0 +1,89 @@
+/**
+ * @license
+ * SPDX-License-Identifier: Apache-2.0
+*/
+import { afterEach, beforeEach, describe, expect, it, vi } from 'vitest';
+import { DEFAULT_LLM_SETTINGS, LlmSettings, LlmTask, ResponseSchema, generateJson, generateJsonStream, isAbortError, validateAgainstSchema } from './llm-providers';
+import { RED_FLAG_CLASSIFIER_SCHEMA } from './red-flags';
+
+// Every task on the offline mock provider, so these run without a network or an API key
+const MOCK_SETTINGS: LlmSettings = {
+  ...DEFAULT_LLM_SETTINGS,
+  tasks: Object.fromEntries(
+    Object.keys(DEFAULT_LLM_SETTINGS.tasks).map(task => [task, { provider: 'mock', model: 'mock-1' }])
+  ) as Record<LlmTask, { provider: 'mock'; model: string }>,
+};
+
+const SUMMARY_SCHEMA: ResponseSchema = {
+  type: 'OBJECT',
+  properties: {
+    'Acute Issues': { type: 'ARRAY', items: { type: 'STRING' } },
+    score: { type: 'INTEGER' },
+    reviewed: { type: 'BOOLEAN' },
+  },
+  required: ['Acute Issues', 'score', 'reviewed'],
+};
+
+describe('generateJson with the mock provider', () => {
+  it('returns JSON that matches the schema', async () => {
+    const result = await generateJson(MOCK_SETTINGS, 'triage', 'Chest pain at rest', RED_FLAG_CLASSIFIER_SCHEMA);
+    expect(validateAgainstSchema(result, RED_FLAG_CLASSIFIER_SCHEMA)).toEqual([]);
+  });
+
+  it('gives the same response for the same prompt and a different one for another', async () => {
+    const first = await generateJson(MOCK_SETTINGS, 'summarise', 'Cough for 3 days', SUMMARY_SCHEMA);
+    expect(await generateJson(MOCK_SETTINGS, 'summarise', 'Cough for 3 days', SUMMARY_SCHEMA)).toEqual(first);
+    expect(await generateJson(MOCK_SETTINGS, 'summarise', 'Sore throat', SUMMARY_SCHEMA)).not.toEqual(first);
+  });
+});
+
+describe('generateJsonStream with the mock provider', () => {
+  beforeEach(() => {
+    vi.useFakeTimers();
+  });
+  afterEach(() => {
+    vi.useRealTimers();
+  });
+
+  it('reports partial results and ends with the same JSON as generateJson', async () => {
+    const partials: unknown[] = [];
+    const streamed = generateJsonStream(MOCK_SETTINGS, 'summarise', 'Cough for 3 days', SUMMARY_SCHEMA, partial => partials.push(partial));
+    await vi.runAllTimersAsync();
+    const result = await streamed;
+
+    expect(partials.length).toBeGreaterThan(1);
+    expect(partials[partials.length - 1]).toEqual(result);
+    expect(result).toEqual(await generateJson(MOCK_SETTINGS, 'summarise', 'Cough for 3 days', SUMMARY_SCHEMA));
+    expect(validateAgainstSchema(result, SUMMARY_SCHEMA)).toEqual([]);
+  });
+
+  it('stops with an AbortError when cancelled', async () => {
+    const controller = new AbortController();
+    const partials: unknown[] = [];
+    const streamed = generateJsonStream(MOCK_SETTINGS, 'summarise', 'Cough for 3 days', SUMMARY_SCHEMA, partial => {
+      partials.push(partial);
+      controller.abort();
+    }, { signal: controller.signal });
+    const outcome = streamed.catch(err => err);
+    await vi.runAllTimersAsync();
+
+    expect(isAbortError(await outcome)).toBe(true);
+    expect(partials).toHaveLength(1);
+  });
+});
+
+describe('validateAgainstSchema', () => {
+  it('lists missing, unexpected and wrongly typed fields', () => {
+    expect(validateAgainstSchema({ 'Acute Issues': ['Cough', 2], score: 'high', extra: true }, SUMMARY_SCHEMA)).toEqual([
+      '$["reviewed"] is required.',
+      '$["extra"] is not allowed.',
+      '$["Acute Issues"][1] must be text.',
+      '$["score"] must be a number.',
+    ]);
+  });
+
+  it('checks enum values', () => {
+    expect(validateAgainstSchema({ redFlags: [{ criterion: 'Sepsis', evidence: 'febrile', urgency: 'soon' }] }, RED_FLAG_CLASSIFIER_SCHEMA))
+      .toEqual(['$["redFlags"][0]["urgency"] must be one of emergency, urgent.']);
+  });
+});
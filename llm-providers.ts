@@ -0,0 +1,465 @@
+/**
+ * @license
+ * SPDX-License-Identifier: Apache-2.0
+*/
+import { parsePartialJson } from './partial-json';
+
+// Every model call in the app is one of these tasks; each can be routed to its own provider and model
+export type LlmTask = 'summarise' | 'update' | 'insights' | 'referral' | 'differentials' | 'triage';
+export type LlmProviderId = 'gemini' | 'openai-compatible' | 'mock';
+
+export const LLM_TASK_LABELS: Record<LlmTask, string> = {
+  summarise: 'New summary',
+  update: 'Summary update',
+  insights: 'AI insights',
+  referral: 'Referral letter',
+  differentials: 'Differential diagnosis',
+  triage: 'Red-flag check',
+};
+
+export const LLM_PROVIDER_LABELS: Record<LlmProviderId, string> = {
+  gemini: 'Google Gemini (via proxy)',
+  'openai-compatible': 'OpenAI-compatible HTTP',
+  mock: 'Mock (offline, deterministic)',
+};
+
+// Suggested models shown in the settings screen; any model name can be typed in
+export const SUGGESTED_MODELS: Record<LlmProviderId, string[]> = {
+  gemini: ['gemini-2.5-flash', 'gemini-2.5-pro', 'gemini-2.5-flash-lite'],
+  'openai-compatible': ['gpt-4o-mini', 'gpt-4o', 'llama3.1'],
+  mock: ['mock-1'],
+};
+
+// A single piece of request content: prompt text or a base64-encoded document/image
+export type LlmPart =
+  | { text: string }
+  | { inlineData: { mimeType: string; data: string } };
+
+// Response schemas use the Gemini/OpenAPI subset: `type` is an upper-case name such as 'OBJECT' or 'STRING'
+export interface ResponseSchema {
+  type: string;
+  description?: string;
+  items?: ResponseSchema;
+  properties?: Record<string, ResponseSchema>;
+  required?: string[];
+  enum?: string[];
+}
+
+export interface LlmRequest {
+  task: LlmTask;
+  model: string;
+  parts: LlmPart[];
+  responseSchema?: ResponseSchema;
+  // Identifies the signed-in clinician to the proxy for per-user rate limiting
+  userId?: string;
+  signal?: AbortSignal;
+}
+
+// Per-call options supplied by the caller rather than stored settings
+export interface LlmCallOptions {
+  userId?: string;
+  signal?: AbortSignal;
+}
+
+export interface LlmProvider {
+  id: LlmProviderId;
+  // Returns the raw text of the response. With a responseSchema the text is JSON matching it.
+  generate(request: LlmRequest): Promise<string>;
+  // Same as generate, but calls onText with the accumulated text as each chunk arrives
+  generateStream(request: LlmRequest, onText: (textSoFar: string) => void): Promise<string>;
+}
+
+export const isAbortError = (err: unknown) =>
+  err instanceof DOMException && err.name === 'AbortError';
+
+// Read a streamed response body one line at a time
+async function readLines(response: Response, onLine: (line: string) => void) {
+  if (!response.body) throw new Error('Streaming is not supported by this browser.');
+  const reader = response.body.getReader();
+  const decoder = new TextDecoder();
+  let buffer = '';
+  while (true) {
+    const { done, value } = await reader.read();
+    if (done) break;
+    buffer += decoder.decode(value, { stream: true });
+    const lines = buffer.split('\n');
+    buffer = lines.pop() || '';
+    lines.forEach(line => line.trim() && onLine(line));
+  }
+  if (buffer.trim()) onLine(buffer);
+}
+
+export interface LlmTaskSettings {
+  provider: LlmProviderId;
+  model: string;
+}
+
+export interface LlmSettings {
+  tasks: Record<LlmTask, LlmTaskSettings>;
+  gemini: {
+    // Base URL of the proxy server that holds the Gemini API key (see server/proxy.js)
+    proxyUrl: string;
+  };
+  openAiCompatible: {
+    baseUrl: string;
+    apiKey: string;
+  };
+  redaction: {
+    // Swap names, NHS numbers, dates of birth and contact details for tokens before sending (see redaction.ts)
+    enabled: boolean;
+    // Show exactly what will be sent and wait for confirmation before each request
+    previewBeforeSend: boolean;
+  };
+}
+
+export const DEFAULT_LLM_SETTINGS: LlmSettings = {
+  tasks: {
+    summarise: { provider: 'gemini', model: 'gemini-2.5-flash' },
+    update: { provider: 'gemini', model: 'gemini-2.5-flash' },
+    insights: { provider: 'gemini', model: 'gemini-2.5-flash' },
+    referral: { provider: 'gemini', model: 'gemini-2.5-pro' },
+    differentials: { provider: 'gemini', model: 'gemini-2.5-pro' },
+    triage: { provider: 'gemini', model: 'gemini-2.5-flash' },
+  },
+  gemini: {
+    proxyUrl: process.env.PROXY_URL || '/api',
+  },
+  openAiCompatible: {
+    baseUrl: 'http://localhost:11434/v1',
+    apiKey: '',
+  },
+  redaction: {
+    enabled: true,
+    previewBeforeSend: true,
+  },
+};
+
+const LLM_SETTINGS_STORAGE_KEY = 'hx_llm_settings';
+
+export function loadLlmSettings(): LlmSettings {
+  try {
+    const saved = localStorage.getItem(LLM_SETTINGS_STORAGE_KEY);
+    if (!saved) return DEFAULT_LLM_SETTINGS;
+    const parsed = JSON.parse(saved);
+    // Merge over the defaults so tasks added in later versions always have a route
+    return {
+      tasks: { ...DEFAULT_LLM_SETTINGS.tasks, ...parsed.tasks },
+      gemini: { ...DEFAULT_LLM_SETTINGS.gemini, ...parsed.gemini },
+      openAiCompatible: { ...DEFAULT_LLM_SETTINGS.openAiCompatible, ...parsed.openAiCompatible },
+      redaction: { ...DEFAULT_LLM_SETTINGS.redaction, ...parsed.redaction },
+    };
+  } catch (e) {
+    console.error("Failed to parse LLM settings from localStorage", e);
+    return DEFAULT_LLM_SETTINGS;
+  }
+}
+
+export function saveLlmSettings(settings: LlmSettings) {
+  localStorage.setItem(LLM_SETTINGS_STORAGE_KEY, JSON.stringify(settings));
+}
+
+// --- Gemini backend (via the key-holding proxy) ---
+
+// Proxy endpoint for each task. Updates are summaries too, so they share an endpoint.
+const PROXY_ENDPOINTS: Record<LlmTask, string> = {
+  summarise: 'summarise',
+  update: 'summarise',
+  insights: 'insights',
+  referral: 'referral',
+  differentials: 'differentials',
+  triage: 'triage',
+};
+
+function createGeminiProvider(config: LlmSettings['gemini']): LlmProvider {
+  const callProxy = async ({ task, model, parts, responseSchema, userId, signal }: LlmRequest, stream: boolean) => {
+    const response = await fetch(`${config.proxyUrl.replace(/\/+$/, '')}/${PROXY_ENDPOINTS[task]}${stream ? '?stream=1' : ''}`, {
+      method: 'POST',
+      headers: {
+        'Content-Type': 'application/json',
+        ...(userId ? { 'X-Hx-User': userId } : {}),
+      },
+      body: JSON.stringify({ model, parts, responseSchema }),
+      signal,
+    });
+    if (!response.ok) {
+      const data = await response.json().catch(() => null);
+      throw new Error(data?.error || `Proxy returned ${response.status} ${response.statusText}`);
+    }
+    return response;
+  };
+
+  return {
+    id: 'gemini',
+    async generate(request) {
+      const data = await (await callProxy(request, false)).json();
+      if (typeof data?.text !== 'string') {
+        throw new Error('Proxy returned no response text.');
+      }
+      return data.text;
+    },
+    async generateStream(request, onText) {
+      // The proxy streams newline-delimited JSON: {"text": chunk} or {"error": message}
+      let text = '';
+      await readLines(await callProxy(request, true), line => {
+        const event = JSON.parse(line);
+        if (event.error) throw new Error(event.error);
+        if (typeof event.text === 'string') {
+          text += event.text;
+          onText(text);
+        }
+      });
+      return text;
+    },
+  };
+}
+
+// --- OpenAI-compatible backend (OpenAI, Azure OpenAI, Ollama, LM Studio, vLLM...) ---
+
+// Convert the Gemini-style schema to standard JSON Schema
+function toJsonSchema(schema: ResponseSchema): Record<string, unknown> {
+  const jsonSchema: Record<string, unknown> = { type: schema.type.toLowerCase() };
+  if (schema.description) jsonSchema.description = schema.description;
+  if (schema.enum) jsonSchema.enum = schema.enum;
+  if (schema.items) jsonSchema.items = toJsonSchema(schema.items);
+  if (schema.properties) {
+    jsonSchema.properties = Object.fromEntries(
+      Object.entries(schema.properties).map(([key, value]) => [key, toJsonSchema(value)])
+    );
+    jsonSchema.required = schema.required || [];
+    jsonSchema.additionalProperties = false;
+  }
+  return jsonSchema;
+}
+
+function createOpenAiCompatibleProvider(config: LlmSettings['openAiCompatible']): LlmProvider {
+  const callChatCompletions = async ({ model, parts, responseSchema, signal }: LlmRequest, stream: boolean) => {
+    const content = parts.map(part => {
+      if ('text' in part) {
+        return { type: 'text', text: part.text };
+      }
+      if (!part.inlineData.mimeType.startsWith('image/')) {
+        throw new Error(`The OpenAI-compatible provider cannot send ${part.inlineData.mimeType} attachments.`);
+      }
+      return { type: 'image_url', image_url: { url: `data:${part.inlineData.mimeType};base64,${part.inlineData.data}` } };
+    });
+
+    const body: Record<string, unknown> = {
+      model,
+      messages: [{ role: 'user', content }],
+      stream,
+    };
+    if (responseSchema) {
+      body.response_format = {
+        type: 'json_schema',
+        json_schema: { name: 'response', schema: toJsonSchema(responseSchema) },
+      };
+    }
+
+    const response = await fetch(`${config.baseUrl.replace(/\/+$/, '')}/chat/completions`, {
+      method: 'POST',
+      headers: {
+        'Content-Type': 'application/json',
+        ...(config.apiKey ? { Authorization: `Bearer ${config.apiKey}` } : {}),
+      },
+      body: JSON.stringify(body),
+      signal,
+    });
+    if (!response.ok) {
+      throw new Error(`OpenAI-compatible provider returned ${response.status} ${response.statusText}`);
+    }
+    return response;
+  };
+
+  return {
+    id: 'openai-compatible',
+    async generate(request) {
+      const data = await (await callChatCompletions(request, false)).json();
+      const text = data?.choices?.[0]?.message?.content;
+      if (typeof text !== 'string') {
+        throw new Error('OpenAI-compatible provider returned no message content.');
+      }
+      return text;
+    },
+    async generateStream(request, onText) {
+      // Server-sent events: "data: {...}" lines ending with "data: [DONE]"
+      let text = '';
+      await readLines(await callChatCompletions(request, true), line => {
+        const payload = line.replace(/^data:\s*/, '');
+        if (!line.startsWith('data:') || payload === '[DONE]') return;
+        const delta = JSON.parse(payload)?.choices?.[0]?.delta?.content;
+        if (typeof delta === 'string') {
+          text += delta;
+          onText(text);
+        }
+      });
+      return text;
+    },
+  };
+}
+
+// --- Mock backend ---
+
+// FNV-1a, so the same input always produces the same mock output
+export function hashText(text: string): string {
+  let hash = 0x811c9dc5;
+  for (let i = 0; i < text.length; i++) {
+    hash ^= text.charCodeAt(i);
+    hash = Math.imul(hash, 0x01000193);
+  }
+  return (hash >>> 0).toString(16).padStart(8, '0');
+}
+
+function mockValue(schema: ResponseSchema, name: string, seed: string): unknown {
+  switch (schema.type.toUpperCase()) {
+    case 'OBJECT':
+      return Object.fromEntries(
+        Object.entries(schema.properties || {}).map(([key, value]) => [key, mockValue(value, key, seed)])
+      );
+    case 'ARRAY':
+      return [1, 2].map(index => mockValue(schema.items || { type: 'STRING' }, `${name} ${index}`, seed));
+    case 'NUMBER':
+    case 'INTEGER':
+      return parseInt(seed.slice(0, 2), 16) % 10;
+    case 'BOOLEAN':
+      return parseInt(seed.slice(0, 1), 16) % 2 === 0;
+    default:
+      return schema.enum ? schema.enum[0] : `[mock ${seed}] ${name}`;
+  }
+}
+
+function createMockProvider(): LlmProvider {
+  const respond = ({ model, parts, responseSchema }: LlmRequest) => {
+    const seed = hashText(parts.map(part => ('text' in part ? part.text : part.inlineData.data)).join('\n'));
+    if (responseSchema) {
+      return JSON.stringify(mockValue(responseSchema, 'item', seed));
+    }
+    return `[mock ${seed}] Deterministic response from ${model}.\n- Point one\n- Point two\n- Point three`;
+  };
+
+  return {
+    id: 'mock',
+    async generate(request) {
+      return respond(request);
+    },
+    async generateStream(request, onText) {
+      // Emit fixed-size chunks with a short delay so streaming UI can be exercised offline
+      const text = respond(request);
+      for (let end = 16; end < text.length + 16; end += 16) {
+        await new Promise(resolve => setTimeout(resolve, 40));
+        if (request.signal?.aborted) throw new DOMException('The operation was aborted.', 'AbortError');
+        onText(text.slice(0, end));
+      }
+      return text;
+    },
+  };
+}
+
+export function getLlmProvider(id: LlmProviderId, settings: LlmSettings): LlmProvider {
+  switch (id) {
+    case 'openai-compatible':
+      return createOpenAiCompatibleProvider(settings.openAiCompatible);
+    case 'mock':
+      return createMockProvider();
+    default:
+      return createGeminiProvider(settings.gemini);
+  }
+}
+
+// Accepts either prompt text or prepared parts
+const toParts = (input: string | LlmPart[]): LlmPart[] =>
+  typeof input === 'string' ? [{ text: input }] : input;
+
+export function generateText(
+  settings: LlmSettings,
+  task: LlmTask,
+  input: string | LlmPart[],
+  options: LlmCallOptions = {},
+): Promise<string> {
+  const { provider, model } = settings.tasks[task];
+  return getLlmProvider(provider, settings).generate({
+    task,
+    model,
+    parts: toParts(input),
+    userId: options.userId,
+    signal: options.signal,
+  });
+}
+
+// Check a value against a response schema, for structured content that did not come from a model
+// (e.g. imported records) but must be stored in the same shape. Returns a list of problems; empty when valid.
+export function validateAgainstSchema(value: unknown, schema: ResponseSchema, path = '$'): string[] {
+  switch (schema.type.toUpperCase()) {
+    case 'OBJECT': {
+      if (!value || typeof value !== 'object' || Array.isArray(value)) return [`${path} must be an object.`];
+      const record = value as Record<string, unknown>;
+      const missing = (schema.required || []).filter(key => record[key] === undefined).map(key => `${path}["${key}"] is required.`);
+      const unknownKeys = Object.keys(record).filter(key => !schema.properties?.[key]).map(key => `${path}["${key}"] is not allowed.`);
+      const nested = Object.entries(schema.properties || {})
+        .filter(([key]) => record[key] !== undefined)
+        .flatMap(([key, propertySchema]) => validateAgainstSchema(record[key], propertySchema, `${path}["${key}"]`));
+      return [...missing, ...unknownKeys, ...nested];
+    }
+    case 'ARRAY':
+      if (!Array.isArray(value)) return [`${path} must be a list.`];
+      return schema.items ? value.flatMap((item, index) => validateAgainstSchema(item, schema.items!, `${path}[${index}]`)) : [];
+    case 'STRING':
+      if (typeof value !== 'string') return [`${path} must be text.`];
+      return schema.enum && !schema.enum.includes(value) ? [`${path} must be one of ${schema.enum.join(', ')}.`] : [];
+    case 'NUMBER':
+    case 'INTEGER':
+      return typeof value === 'number' ? [] : [`${path} must be a number.`];
+    case 'BOOLEAN':
+      return typeof value === 'boolean' ? [] : [`${path} must be true or false.`];
+    default:
+      return [];
+  }
+}
+
+// Models occasionally wrap JSON output in a markdown code fence
+const stripCodeFence = (text: string) =>
+  text.trim().replace(/^```(?:json)?\s*/i, '').replace(/\s*```$/, '');
+
+// Structured output: the response is parsed as JSON matching the schema
+export async function generateJson<T>(
+  settings: LlmSettings,
+  task: LlmTask,
+  input: string | LlmPart[],
+  responseSchema: ResponseSchema,
+  options: LlmCallOptions = {},
+): Promise<T> {
+  const { provider, model } = settings.tasks[task];
+  const text = await getLlmProvider(provider, settings).generate({
+    task,
+    model,
+    parts: toParts(input),
+    responseSchema,
+    userId: options.userId,
+    signal: options.signal,
+  });
+  return JSON.parse(stripCodeFence(text));
+}
+
+// Streamed structured output. onPartial receives the best-effort parse of the JSON received so far;
+// if the call is aborted the last partial value is the most complete result available.
+export async function generateJsonStream<T>(
+  settings: LlmSettings,
+  task: LlmTask,
+  input: string | LlmPart[],
+  responseSchema: ResponseSchema,
+  onPartial: (partial: Partial<T>) => void,
+  options: LlmCallOptions = {},
+): Promise<T> {
+  const { provider, model } = settings.tasks[task];
+  const text = await getLlmProvider(provider, settings).generateStream(
+    { task, model, parts: toParts(input), responseSchema, userId: options.userId, signal: options.signal },
+    textSoFar => {
+      try {
+        const partial = parsePartialJson<Partial<T>>(stripCodeFence(textSoFar));
+        if (partial && typeof partial === 'object') onPartial(partial);
+      } catch {
+        // Not yet recognisable as JSON; wait for more text
+      }
+    },
+  );
+  return JSON.parse(stripCodeFence(text));
+}
@@ -0,0 +1,87 @@
+/**
+ * @license
+ * SPDX-License-Identifier: Apache-2.0
+*/
+import { CitedResponse } from './citations';
+import { Medication, MedicationStatus } from './types';
+
+// Structured medication lists. The model returns a list alongside the summary sections;
+// these helpers clean it up and reconcile it against the previous summary, so the statuses
+// shown do not rely on the model alone.
+
+export const MEDICATIONS_KEY = 'Medications';
+
+export const MEDICATION_STATUSES: MedicationStatus[] = ['started', 'changed', 'current', 'stopped'];
+
+export const MEDICATION_STATUS_LABELS: Record<MedicationStatus, string> = {
+  current: 'Continued',
+  started: 'Started',
+  stopped: 'Stopped',
+  changed: 'Changed',
+};
+
+// A model response that may include a medication list next to the cited sections
+export type ResponseWithMedications = CitedResponse & { [MEDICATIONS_KEY]?: unknown };
+
+const text = (value: unknown) => (typeof value === 'string' ? value.trim() : '');
+
+// Drop entries without a drug name and fill in missing fields, so partial or loosely formed output is safe to store
+export function normaliseMedications(raw: unknown): Medication[] {
+  if (!Array.isArray(raw)) return [];
+  return raw.flatMap((entry): Medication[] => {
+    if (!entry || typeof entry !== 'object' || !text(entry.drug)) return [];
+    return [{
+      drug: text(entry.drug),
+      dose: text(entry.dose),
+      route: text(entry.route),
+      frequency: text(entry.frequency),
+      startDate: text(entry.startDate),
+      stopDate: text(entry.stopDate),
+      status: MEDICATION_STATUSES.includes(entry.status) ? entry.status : 'current',
+    }];
+  });
+}
+
+// Separate the medication list from the cited sections before they are split into summary items
+export function splitMedications(response: ResponseWithMedications): { cited: CitedResponse; medications: Medication[] } {
+  const { [MEDICATIONS_KEY]: raw, ...cited } = response;
+  return { cited, medications: normaliseMedications(raw) };
+}
+
+const drugKey = (medication: Medication) => medication.drug.toLowerCase().replace(/[^a-z0-9]/g, '');
+
+const regimen = (medication: Medication) =>
+  [medication.dose, medication.route, medication.frequency].map(part => part.toLowerCase().replace(/\s+/g, ' ')).join('|');
+
+export const isActiveMedication = (medication: Medication) => medication.status !== 'stopped';
+
+// Check each status against the previous list: a drug that was not being taken is 'started', and a
+// continued drug whose dose, route or frequency differs is 'changed' with the old regimen recorded.
+// Active drugs the model left out are carried forward unchanged; stopping one has to be stated explicitly.
+export function reconcileMedications(previous: Medication[] | undefined, current: Medication[]): Medication[] {
+  if (!previous) return current;
+  const previousByDrug = new Map(previous.filter(isActiveMedication).map(medication => [drugKey(medication), medication]));
+
+  const reconciled = current.map((medication): Medication => {
+    const before = previousByDrug.get(drugKey(medication));
+    if (medication.status === 'stopped') {
+      return before && !medication.startDate ? { ...medication, startDate: before.startDate } : medication;
+    }
+    if (!before) return { ...medication, status: 'started' };
+    const carried = { ...medication, startDate: medication.startDate || before.startDate };
+    if (regimen(before) !== regimen(medication)) {
+      return { ...carried, status: 'changed', previous: { dose: before.dose, route: before.route, frequency: before.frequency } };
+    }
+    return { ...carried, status: 'current' };
+  });
+
+  const mentioned = new Set(current.map(drugKey));
+  const omitted = [...previousByDrug.values()]
+    .filter(medication => !mentioned.has(drugKey(medication)))
+    .map(({ previous: _previous, ...medication }): Medication => ({ ...medication, status: 'current' }));
+  return [...reconciled, ...omitted];
+}
+
+// One-line description, e.g. "Amlodipine 5mg oral once daily"
+export const describeMedication = (medication: Medication) =>
+  [medication.drug, medication.dose, medication.route, medication.frequency].filter(Boolean).join(' ');
@@ -0,0 +1,154 @@
+/**
+ * @license
+ * SPDX-License-Identifier: Apache-2.0
+*/
+
+// Best-effort parser for JSON that is still arriving from a stream.
+// Returns everything that can be recovered from the text so far: open objects
+// and arrays are closed, a half-written string keeps the characters received,
+// and a key whose value has not started yet is dropped.
+
+interface Cursor {
+  text: string;
+  pos: number;
+}
+
+interface Parsed {
+  value: unknown;
+  complete: boolean;
+}
+
+const INCOMPLETE: Parsed = { value: undefined, complete: false };
+
+function skipWhitespace(cursor: Cursor) {
+  while (cursor.pos < cursor.text.length && /\s/.test(cursor.text[cursor.pos])) {
+    cursor.pos++;
+  }
+}
+
+const ESCAPES: Record<string, string> = { '"': '"', '\\': '\\', '/': '/', b: '\b', f: '\f', n: '\n', r: '\r', t: '\t' };
+
+function parseString(cursor: Cursor): Parsed {
+  const { text } = cursor;
+  cursor.pos++; // opening quote
+  let value = '';
+  while (cursor.pos < text.length) {
+    const char = text[cursor.pos];
+    if (char === '"') {
+      cursor.pos++;
+      return { value, complete: true };
+    }
+    if (char === '\\') {
+      const next = text[cursor.pos + 1];
+      if (next === undefined) break;
+      if (next === 'u') {
+        const hex = text.slice(cursor.pos + 2, cursor.pos + 6);
+        if (hex.length < 4) break;
+        value += String.fromCharCode(parseInt(hex, 16));
+        cursor.pos += 6;
+      } else {
+        value += ESCAPES[next] ?? next;
+        cursor.pos += 2;
+      }
+      continue;
+    }
+    value += char;
+    cursor.pos++;
+  }
+  cursor.pos = text.length;
+  return { value, complete: false };
+}
+
+function parseLiteral(cursor: Cursor): Parsed {
+  const rest = cursor.text.slice(cursor.pos);
+  const match = rest.match(/^(-?\d+(\.\d*)?([eE][+-]?\d*)?|true|false|null)/);
+  if (!match) {
+    // A literal cut off mid-word (e.g. "tr") has no usable value yet
+    if (/^(t(r(ue?)?)?|f(a(l(se?)?)?)?|n(u(ll?)?)?|-)$/.test(rest)) {
+      cursor.pos = cursor.text.length;
+      return INCOMPLETE;
+    }
+    throw new SyntaxError(`Unexpected token at position ${cursor.pos}`);
+  }
+  cursor.pos += match[0].length;
+  const token = match[0];
+  const value = token === 'true' ? true : token === 'false' ? false : token === 'null' ? null : parseFloat(token);
+  // A number that runs to the end of the text may still be growing
+  return { value, complete: cursor.pos < cursor.text.length };
+}
+
+function parseArray(cursor: Cursor): Parsed {
+  cursor.pos++; // [
+  const value: unknown[] = [];
+  while (true) {
+    skipWhitespace(cursor);
+    const char = cursor.text[cursor.pos];
+    if (char === undefined) return { value, complete: false };
+    if (char === ']') {
+      cursor.pos++;
+      return { value, complete: true };
+    }
+    if (char === ',') {
+      cursor.pos++;
+      continue;
+    }
+    const item = parseValue(cursor);
+    if (item.value !== undefined) value.push(item.value);
+    if (!item.complete) return { value, complete: false };
+  }
+}
+
+function parseObject(cursor: Cursor): Parsed {
+  cursor.pos++; // {
+  const value: Record<string, unknown> = {};
+  while (true) {
+    skipWhitespace(cursor);
+    const char = cursor.text[cursor.pos];
+    if (char === undefined) return { value, complete: false };
+    if (char === '}') {
+      cursor.pos++;
+      return { value, complete: true };
+    }
+    if (char === ',') {
+      cursor.pos++;
+      continue;
+    }
+    if (char !== '"') {
+      throw new SyntaxError(`Unexpected token at position ${cursor.pos}`);
+    }
+    const key = parseString(cursor);
+    if (!key.complete) return { value, complete: false };
+    skipWhitespace(cursor);
+    if (cursor.text[cursor.pos] !== ':') {
+      if (cursor.pos >= cursor.text.length) return { value, complete: false };
+      throw new SyntaxError(`Expected ':' at position ${cursor.pos}`);
+    }
+    cursor.pos++;
+    skipWhitespace(cursor);
+    if (cursor.pos >= cursor.text.length) return { value, complete: false };
+    const entry = parseValue(cursor);
+    if (entry.value !== undefined) value[key.value as string] = entry.value;
+    if (!entry.complete) return { value, complete: false };
+  }
+}
+
+function parseValue(cursor: Cursor): Parsed {
+  skipWhitespace(cursor);
+  switch (cursor.text[cursor.pos]) {
+    case undefined:
+      return INCOMPLETE;
+    case '{':
+      return parseObject(cursor);
+    case '[':
+      return parseArray(cursor);
+    case '"':
+      return parseString(cursor);
+    default:
+      return parseLiteral(cursor);
+  }
+}
+
+// Returns undefined when nothing usable has arrived yet. Throws SyntaxError for text that can never become valid JSON.
+export function parsePartialJson<T = unknown>(text: string): T | undefined {
+  return parseValue({ text, pos: 0 }).value as T | undefined;
+}
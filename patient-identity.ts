@@ -0,0 +1,122 @@
+/**
+ * @license
+ * SPDX-License-Identifier: Apache-2.0
+*/
+import { Patient } from './types';
+
+// Patient identifiers: NHS number checks and formatting, and detection and merging
+// of records that appear to belong to the same person.
+
+export type PatientDetails = Pick<Patient, 'id' | 'name' | 'dob' | 'nhsNumber'>;
+
+export const normaliseNhsNumber = (value: string) => value.replace(/[\s-]/g, '');
+
+// Modulus 11: weight the first nine digits 10 down to 2; 11 minus the remainder is the check digit,
+// where 11 becomes 0 and 10 means the number can never be valid
+export function isValidNhsNumber(value: string): boolean {
+  const digits = normaliseNhsNumber(value);
+  if (!/^\d{10}$/.test(digits)) return false;
+  const total = digits.slice(0, 9).split('').reduce((sum, digit, index) => sum + Number(digit) * (10 - index), 0);
+  const check = 11 - (total % 11);
+  if (check === 10) return false;
+  return (check === 11 ? 0 : check) === Number(digits[9]);
+}
+
+// Display as 3-3-4 (e.g. 943 476 5919). Anything that is not ten digits is shown as entered.
+export function formatNhsNumber(value: string): string {
+  const digits = normaliseNhsNumber(value);
+  return /^\d{10}$/.test(digits) ? `${digits.slice(0, 3)} ${digits.slice(3, 6)} ${digits.slice(6)}` : value;
+}
+
+// Explains why a non-empty NHS number is unusable, or returns null when it is valid or blank
+export function nhsNumberProblem(value: string): string | null {
+  const digits = normaliseNhsNumber(value);
+  if (!digits) return null;
+  if (!/^\d+$/.test(digits)) return 'NHS numbers contain digits only.';
+  if (digits.length !== 10) return 'NHS numbers are 10 digits long.';
+  return isValidNhsNumber(digits) ? null : 'This NHS number fails the check-digit test. Please re-check it.';
+}
+
+export function isFutureDate(date: string): boolean {
+  if (!/^\d{4}-\d{2}-\d{2}$/.test(date)) return false;
+  return date > new Date().toISOString().slice(0, 10);
+}
+
+// --- Duplicate detection ---
+
+export interface DuplicateMatch {
+  patient: Patient;
+  reason: 'nhs-number' | 'name-and-dob';
+}
+
+// Order-insensitive name tokens, so "Doe, Jane" matches "Jane Doe"
+const nameKey = (name: string) =>
+  name.toLowerCase().replace(/[^a-z\s]/g, ' ').split(/\s+/).filter(Boolean).sort().join(' ');
+
+function editDistance(a: string, b: string): number {
+  let previous = Array.from({ length: b.length + 1 }, (_, index) => index);
+  for (let i = 1; i <= a.length; i++) {
+    const current = [i];
+    for (let j = 1; j <= b.length; j++) {
+      current[j] = Math.min(previous[j] + 1, current[j - 1] + 1, previous[j - 1] + (a[i - 1] === b[j - 1] ? 0 : 1));
+    }
+    previous = current;
+  }
+  return previous[b.length];
+}
+
+// Names match when they differ by no more than a typo or two (e.g. "Jon Smith" and "John Smith")
+export function namesLikelyMatch(a: string, b: string): boolean {
+  const keyA = nameKey(a);
+  const keyB = nameKey(b);
+  if (!keyA || !keyB) return false;
+  return editDistance(keyA, keyB) <= Math.min(2, Math.floor(Math.min(keyA.length, keyB.length) / 4));
+}
+
+// Existing patients that may be the same person: same NHS number, or a similar name with the same date of birth
+export function findDuplicatePatients(details: PatientDetails, patients: Patient[]): DuplicateMatch[] {
+  const nhsNumber = normaliseNhsNumber(details.nhsNumber);
+  return patients.flatMap((patient): DuplicateMatch[] => {
+    if (patient.id === details.id) return [];
+    if (nhsNumber && normaliseNhsNumber(patient.nhsNumber) === nhsNumber) return [{ patient, reason: 'nhs-number' }];
+    if (details.dob && patient.dob === details.dob && namesLikelyMatch(patient.name, details.name)) {
+      return [{ patient, reason: 'name-and-dob' }];
+    }
+    return [];
+  });
+}
+
+export const DUPLICATE_REASON_LABELS: Record<DuplicateMatch['reason'], string> = {
+  'nhs-number': 'same NHS number',
+  'name-and-dob': 'similar name and same date of birth',
+};
+
+// --- Merging ---
+
+// Combine two records for the same person into `target`. Summary histories are interleaved by time
+// and exact duplicates dropped, as are referrals; blank demographics are filled from `source`. Only
+// one draft can be kept, so the target's wins when both have one.
+export function mergePatientHistories(target: Patient, source: Patient): Patient {
+  const seen = new Set<string>();
+  const summaries = [...target.summaries, ...source.summaries]
+    .sort((a, b) => b.timestamp.localeCompare(a.timestamp))
+    .filter(record => {
+      const key = `${record.timestamp}|${JSON.stringify(record.summary)}`;
+      if (seen.has(key)) return false;
+      seen.add(key);
+      return true;
+    });
+  const draft = target.draft || source.draft;
+  const referralIds = new Set((target.referrals || []).map(referral => referral.id));
+  const referrals = [...(target.referrals || []), ...(source.referrals || []).filter(referral => !referralIds.has(referral.id))]
+    .sort((a, b) => b.createdAt.localeCompare(a.createdAt));
+
+  return {
+    ...target,
+    dob: target.dob || source.dob,
+    nhsNumber: target.nhsNumber || source.nhsNumber,
+    summaries,
+    ...(draft ? { draft } : {}),
+    ...(referrals.length > 0 ? { referrals } : {}),
+  };
+}
@@ -0,0 +1,262 @@
+/**
+ * @license
+ * SPDX-License-Identifier: Apache-2.0
+*/
+import { EncryptedEnvelope, StoreKey, decryptJson, deriveKeyForEnvelope, deriveStoreKey, encryptJson, isEncryptedEnvelope } from './secure-store';
+import { PATIENT_SCHEMA_VERSION, Patient } from './types';
+import { patientStoreKeyFor } from './user-accounts';
+
+// Encrypted patient storage in IndexedDB, one entry per patient so an edit only rewrites
+// that patient. Each entry records the schema version it was written with and is migrated
+// forward on read. Stores written to localStorage by earlier versions are moved in on first unlock.
+
+const DB_NAME = 'hx-patients';
+const DB_VERSION = 1; // Object store layout; the record shape is versioned by PATIENT_SCHEMA_VERSION
+const PATIENT_STORE = 'patients';
+const KEY_STORE = 'stores';
+
+interface StoredPatient {
+  userId: string;
+  id: string;
+  schemaVersion: number;
+  createdAt: number; // Keeps the patient list in the order patients were added
+  updatedAt: number;
+  envelope: EncryptedEnvelope;
+}
+
+// One per user: a small encrypted value that proves a passphrase derives the right key
+interface StoredKeyCheck {
+  userId: string;
+  check: EncryptedEnvelope;
+}
+
+export class RepositoryError extends Error {}
+
+// The browser refused a write because the storage quota for this site is used up
+export class StorageQuotaError extends RepositoryError {
+  constructor() {
+    super('Browser storage is full, so recent changes could not be saved. Delete old patients or documents to free up space.');
+  }
+}
+
+// --- Schema migrations ---
+
+// Version 1: the shape written to localStorage before the repository existed. Ids were numeric
+// and the identifier fields and summary list could be missing.
+interface PatientV1 {
+  id: string | number;
+  dob?: string;
+  nhsNumber?: string;
+  summaries?: unknown;
+  [field: string]: unknown;
+}
+
+export const isRecord = (value: unknown): value is Record<string, unknown> =>
+  !!value && typeof value === 'object' && !Array.isArray(value);
+
+// Each entry upgrades a stored patient from that version to the next
+const MIGRATIONS: Record<number, (patient: unknown) => unknown> = {
+  1: data => {
+    if (!isRecord(data) || (typeof data.id !== 'string' && typeof data.id !== 'number')) {
+      throw new RepositoryError('Patient record from schema version 1 has no id.');
+    }
+    const legacy = data as PatientV1;
+    return {
+      ...legacy,
+      id: String(legacy.id),
+      dob: legacy.dob ?? '',
+      nhsNumber: legacy.nhsNumber ?? '',
+      summaries: Array.isArray(legacy.summaries) ? legacy.summaries : [],
+    };
+  },
+};
+
+export function migratePatient(data: unknown, fromVersion: number): Patient {
+  if (fromVersion > PATIENT_SCHEMA_VERSION) {
+    throw new RepositoryError(`Patient record uses schema version ${fromVersion}, which is newer than this app supports.`);
+  }
+  let patient = data;
+  for (let version = fromVersion; version < PATIENT_SCHEMA_VERSION; version++) {
+    patient = MIGRATIONS[version](patient);
+  }
+  return patient as Patient;
+}
+
+// --- IndexedDB helpers ---
+
+let dbPromise: Promise<IDBDatabase> | null = null;
+
+function openDatabase(): Promise<IDBDatabase> {
+  if (!dbPromise) {
+    dbPromise = new Promise((resolve, reject) => {
+      const request = indexedDB.open(DB_NAME, DB_VERSION);
+      request.onupgradeneeded = () => {
+        const db = request.result;
+        const patients = db.createObjectStore(PATIENT_STORE, { keyPath: ['userId', 'id'] });
+        patients.createIndex('byUser', 'userId');
+        db.createObjectStore(KEY_STORE, { keyPath: 'userId' });
+      };
+      request.onsuccess = () => resolve(request.result);
+      request.onerror = () => {
+        dbPromise = null;
+        reject(request.error);
+      };
+    });
+  }
+  return dbPromise;
+}
+
+const isQuotaError = (err: unknown) => err instanceof DOMException && err.name === 'QuotaExceededError';
+
+async function runTransaction<T>(
+  storeName: string,
+  mode: IDBTransactionMode,
+  operation: (store: IDBObjectStore) => IDBRequest<T> | void,
+): Promise<T | undefined> {
+  const db = await openDatabase();
+  return new Promise((resolve, reject) => {
+    const transaction = db.transaction(storeName, mode);
+    const request = operation(transaction.objectStore(storeName));
+    const fail = () => reject(isQuotaError(transaction.error) ? new StorageQuotaError() : transaction.error);
+    transaction.oncomplete = () => resolve(request ? request.result : undefined);
+    transaction.onerror = fail;
+    transaction.onabort = fail;
+  });
+}
+
+// --- localStorage stores from earlier versions ---
+
+// Whether a localStorage patient store needs a passphrase to read. False when there is no store, or it
+// was written as plaintext before encryption.
+export function isLocalStorageStoreEncrypted(storageKey: string): boolean {
+  try {
+    return isEncryptedEnvelope(JSON.parse(localStorage.getItem(storageKey) || 'null'));
+  } catch {
+    return false;
+  }
+}
+
+// Read a localStorage patient store and decrypt it with a key derived from the passphrase.
+// Plaintext stores from before encryption are accepted as-is. Returns null when there is no store.
+export async function readLocalStorageStore(storageKey: string, passphrase: string): Promise<{ patients: unknown[]; storeKey?: StoreKey } | null> {
+  const savedData = localStorage.getItem(storageKey);
+  if (!savedData) return null;
+
+  const parsed = JSON.parse(savedData);
+  if (isEncryptedEnvelope(parsed)) {
+    const storeKey = await deriveKeyForEnvelope(passphrase, parsed);
+    return { patients: await decryptJson<unknown[]>(parsed, storeKey), storeKey };
+  }
+  if (!Array.isArray(parsed)) {
+    throw new RepositoryError('Unrecognised patient data format.');
+  }
+  return { patients: parsed };
+}
+
+// --- Repository ---
+
+export interface PatientRepository {
+  storeKey: StoreKey;
+  // Patients that cannot be decrypted or migrated are reported by id and left untouched
+  loadAll(): Promise<{ patients: Patient[]; unreadable: string[] }>;
+  save(patient: Patient): Promise<void>;
+  remove(patientId: string): Promise<void>;
+  // Add patients stored in the pre-repository format, keeping their order
+  importPatients(patients: unknown[], fromVersion?: number): Promise<void>;
+  clear(): Promise<void>;
+}
+
+// Open the user's repository. Throws if the passphrase does not match the store's key.
+export async function openPatientRepository(userId: string, passphrase: string): Promise<PatientRepository> {
+  let storeKey: StoreKey;
+  let legacyPatients: unknown[] | null = null;
+  const keyCheck = await runTransaction<StoredKeyCheck>(KEY_STORE, 'readonly', store => store.get(userId));
+
+  if (keyCheck) {
+    storeKey = await deriveKeyForEnvelope(passphrase, keyCheck.check);
+    await decryptJson(keyCheck.check, storeKey); // AES-GCM rejects a wrong key here
+  } else {
+    // First unlock since the repository was introduced: take over the user's localStorage store, if any
+    const legacy = await readLocalStorageStore(patientStoreKeyFor(userId), passphrase);
+    storeKey = legacy?.storeKey ?? await deriveStoreKey(passphrase);
+    legacyPatients = legacy?.patients ?? null;
+  }
+
+  const createdAtById = new Map<string, number>();
+  // Writes for the same patient run in order, so a slow encrypt never overwrites a newer save
+  const pendingWrites = new Map<string, Promise<void>>();
+  const queueWrite = (patientId: string, write: () => Promise<void>) => {
+    const next = (pendingWrites.get(patientId) || Promise.resolve()).catch(() => undefined).then(write);
+    pendingWrites.set(patientId, next);
+    return next;
+  };
+
+  const writePatient = async (patient: Patient, createdAt: number) => {
+    const record: StoredPatient = {
+      userId,
+      id: patient.id,
+      schemaVersion: PATIENT_SCHEMA_VERSION,
+      createdAt,
+      updatedAt: Date.now(),
+      envelope: await encryptJson(patient, storeKey),
+    };
+    await runTransaction(PATIENT_STORE, 'readwrite', store => store.put(record));
+    createdAtById.set(patient.id, createdAt);
+  };
+
+  const repository: PatientRepository = {
+    storeKey,
+
+    async loadAll() {
+      const records = await runTransaction<StoredPatient[]>(PATIENT_STORE, 'readonly', store => store.index('byUser').getAll(userId)) || [];
+      records.sort((a, b) => b.createdAt - a.createdAt);
+      const patients: Patient[] = [];
+      const unreadable: string[] = [];
+      for (const record of records) {
+        createdAtById.set(record.id, record.createdAt);
+        try {
+          patients.push(migratePatient(await decryptJson(record.envelope, storeKey), record.schemaVersion));
+        } catch (err) {
+          console.error(`Patient record ${record.id} could not be read`, err);
+          unreadable.push(record.id);
+        }
+      }
+      return { patients, unreadable };
+    },
+
+    save(patient) {
+      return queueWrite(patient.id, () => writePatient(patient, createdAtById.get(patient.id) ?? Date.now()));
+    },
+
+    remove(patientId) {
+      return queueWrite(patientId, async () => {
+        await runTransaction(PATIENT_STORE, 'readwrite', store => store.delete([userId, patientId]));
+        createdAtById.delete(patientId);
+      });
+    },
+
+    async importPatients(patients, fromVersion = 1) {
+      const now = Date.now();
+      for (const [index, data] of patients.entries()) {
+        const patient = migratePatient(data, fromVersion);
+        await queueWrite(patient.id, () => writePatient(patient, now - index));
+      }
+    },
+
+    async clear() {
+      await runTransaction(PATIENT_STORE, 'readwrite', store => store.delete(IDBKeyRange.bound([userId], [userId, []])));
+      createdAtById.clear();
+    },
+  };
+
+  if (!keyCheck) {
+    if (legacyPatients) {
+      await repository.importPatients(legacyPatients);
+    }
+    const check: StoredKeyCheck = { userId, check: await encryptJson({ userId }, storeKey) };
+    await runTransaction(KEY_STORE, 'readwrite', store => store.put(check));
+    // Only drop the localStorage copy once everything has been written to the repository
+    localStorage.removeItem(patientStoreKeyFor(userId));
+  }
+  return repository;
+}
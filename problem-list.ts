@@ -0,0 +1,106 @@
+/**
+ * @license
+ * SPDX-License-Identifier: Apache-2.0
+*/
+import { diffItems } from './summary-diff';
+import { SummaryTemplate, findTemplate, sectionsWithRole } from './summary-templates';
+import { SummaryRecord, SummarySectionKey } from './types';
+
+// Each acute issue and past-history item followed across a patient's summaries, matched from one
+// summary to the next the same way the summary diff pairs reworded bullets. The sections tracked
+// are each record's template's 'acute' and 'history' sections. Built locally from the stored
+// summaries; nothing is persisted.
+
+// 'resolved': the problem is no longer listed. 'recurred': it is listed again after being resolved.
+export type ProblemChange = 'appeared' | 'changed' | 'unchanged' | 'resolved' | 'recurred';
+
+export const PROBLEM_CHANGE_LABELS: Record<ProblemChange, string> = {
+  appeared: 'First recorded',
+  changed: 'Changed',
+  unchanged: 'Unchanged',
+  resolved: 'No longer listed',
+  recurred: 'Listed again',
+};
+
+export interface ProblemOccurrence {
+  timestamp: string; // The summary this was seen in
+  change: ProblemChange;
+  section?: SummarySectionKey; // Absent for 'resolved'
+  text?: string;
+}
+
+export interface TrackedProblem {
+  id: string;
+  text: string; // Latest wording
+  section: SummarySectionKey; // Section it was last listed in
+  status: 'active' | 'inactive';
+  firstSeen: string;
+  lastSeen: string;
+  resolvedAt?: string; // Set when the latest summary no longer lists it
+  history: ProblemOccurrence[];
+}
+
+export interface ProblemTimeline {
+  timestamps: string[]; // Summaries, oldest first
+  problems: TrackedProblem[]; // Active first, then most recently seen
+}
+
+// Wording that marks a listed problem as past rather than ongoing
+const INACTIVE_WORDING = /\b(?:resolved|settled|cured|in remission|no longer|previous|prior|history of|hx of|s\/p|status post)\b/i;
+
+export function buildProblemTimeline(summaries: SummaryRecord[], templates: SummaryTemplate[]): ProblemTimeline {
+  const chronological = [...summaries].reverse(); // Stored newest first
+  const problems: (TrackedProblem & { listed: boolean })[] = [];
+
+  chronological.forEach(record => {
+    const template = findTemplate(templates, record.templateId);
+    let unmatched = [...sectionsWithRole(template, 'acute'), ...sectionsWithRole(template, 'history')]
+      .flatMap(section => (record.summary[section] || []).map(text => ({ section, text })));
+    const seen = new Set<TrackedProblem>();
+
+    // Match against problems listed in the previous summary first, then against resolved ones
+    const match = (pool: typeof problems, recurring: boolean) => {
+      const available = [...pool];
+      const diff = diffItems(available.map(problem => problem.text), unmatched.map(item => item.text));
+      const remaining: typeof unmatched = [];
+      unmatched.forEach((item, index) => {
+        const { before } = diff[index];
+        const problemIndex = diff[index].change === 'added' ? -1 : available.findIndex(problem => problem.text === before);
+        if (problemIndex === -1) {
+          remaining.push(item);
+          return;
+        }
+        const [problem] = available.splice(problemIndex, 1);
+        const change: ProblemChange = recurring ? 'recurred' : problem.text === item.text && problem.section === item.section ? 'unchanged' : 'changed';
+        problem.history.push({ timestamp: record.timestamp, change, section: item.section, text: item.text });
+        Object.assign(problem, { text: item.text, section: item.section, lastSeen: record.timestamp, listed: true, resolvedAt: undefined });
+        seen.add(problem);
+      });
+      unmatched = remaining;
+    };
+    match(problems.filter(problem => problem.listed), false);
+    match(problems.filter(problem => !problem.listed), true);
+
+    problems.filter(problem => problem.listed && !seen.has(problem)).forEach(problem => {
+      problem.history.push({ timestamp: record.timestamp, change: 'resolved' });
+      Object.assign(problem, { listed: false, resolvedAt: record.timestamp });
+    });
+    unmatched.forEach(item => problems.push({
+      id: `problem-${problems.length + 1}`,
+      text: item.text,
+      section: item.section,
+      status: 'active',
+      firstSeen: record.timestamp,
+      lastSeen: record.timestamp,
+      history: [{ timestamp: record.timestamp, change: 'appeared', section: item.section, text: item.text }],
+      listed: true,
+    }));
+  });
+
+  const tracked = problems.map(({ listed, ...problem }): TrackedProblem => ({
+    ...problem,
+    status: listed && !INACTIVE_WORDING.test(problem.text) ? 'active' : 'inactive',
+  }));
+  tracked.sort((a, b) => (a.status === b.status ? b.lastSeen.localeCompare(a.lastSeen) : a.status === 'active' ? -1 : 1));
+  return { timestamps: chronological.map(record => record.timestamp), problems: tracked };
+}
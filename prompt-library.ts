@@ -0,0 +1,233 @@
+/**
+ * @license
+ * SPDX-License-Identifier: Apache-2.0
+*/
+import { LLM_TASK_LABELS, LlmTask, hashText } from './llm-providers';
+import { PromptVersionRef } from './types';
+
+// The wording of each prompt the app sends, kept as named templates that can be edited in Settings.
+// {{variables}} are filled in when the request is built. Every change of wording is saved as a new
+// version with the earlier wording kept, and summaries and AI outputs record the version that
+// produced them.
+
+export type PromptId = Extract<LlmTask, 'summarise' | 'update' | 'insights' | 'referral' | 'differentials' | 'triage'>;
+
+export const PROMPT_IDS: PromptId[] = ['summarise', 'update', 'insights', 'referral', 'differentials', 'triage'];
+
+export interface PromptVariable {
+  name: string;
+  description: string;
+  required: boolean; // The prompt cannot do its job without it
+}
+
+// The variables each prompt can use; every one is supplied when the prompt is rendered
+export const PROMPT_VARIABLES: Record<PromptId, PromptVariable[]> = {
+  summarise: [
+    { name: 'instructions', description: "The summary template's instructions for a new summary", required: true },
+    { name: 'medicationsKey', description: 'The name of the medications list in the response', required: false },
+    { name: 'sources', description: 'How to cite the notes and documents', required: false },
+    { name: 'notes', description: 'The typed or dictated notes', required: true },
+  ],
+  update: [
+    { name: 'instructions', description: "The summary template's instructions for an updated summary", required: true },
+    { name: 'medicationsKey', description: 'The name of the medications list in the response', required: false },
+    { name: 'sources', description: 'How to cite the notes, documents and previous summary', required: false },
+    { name: 'previousSummary', description: 'The previous summary as JSON', required: true },
+    { name: 'previousMedications', description: 'Active medications from the previous summary as JSON', required: false },
+    { name: 'notes', description: 'The typed or dictated notes', required: true },
+  ],
+  insights: [
+    { name: 'summary', description: 'The viewed summary as JSON', required: true },
+  ],
+  referral: [
+    { name: 'specialty', description: 'The specialty being referred to', required: true },
+    { name: 'urgency', description: 'Routine, urgent or urgent suspected cancer (2WW)', required: false },
+    { name: 'guidance', description: "The referral template's guidance on what the letter must cover", required: false },
+    { name: 'placeholders', description: 'The placeholders filled in with patient details on this device', required: false },
+    { name: 'summary', description: 'The viewed summary as JSON', required: true },
+  ],
+  differentials: [
+    { name: 'summary', description: 'The viewed summary as JSON', required: true },
+  ],
+  triage: [
+    { name: 'notes', description: 'The typed or dictated notes', required: true },
+    { name: 'acuteIssues', description: 'The generated acute issues, one per line', required: false },
+  ],
+};
+
+export interface PromptVersion {
+  version: number;
+  text: string;
+  savedAt?: string; // Absent for the built-in wording
+}
+
+export interface PromptTemplate extends PromptVersion {
+  id: PromptId;
+  history: PromptVersion[]; // Earlier versions, newest first
+}
+
+export type PromptLibrary = Record<PromptId, PromptTemplate>;
+
+export class PromptTemplateError extends Error {}
+
+const SUMMARY_DIVIDER = `---
+**PATIENT SUMMARY:**
+{{summary}}`;
+
+export const DEFAULT_PROMPT_TEXTS: Record<PromptId, string> = {
+  summarise: `Act as a clinical assistant responsible for patient records. {{instructions}}
+
+List every medication in "{{medicationsKey}}" with its drug, dose, route, frequency, and start and stop dates where documented (use "" when not stated), and a status: "started" for medications prescribed in this consultation, "stopped" for ones discontinued, and "current" for ones the patient continues to take.
+
+{{sources}}
+
+PATIENT INFORMATION:
+{{notes}}`,
+  update: `Act as a clinical assistant responsible for patient records. {{instructions}}
+
+Reconcile the "{{medicationsKey}}" list against the PREVIOUS MEDICATIONS. Give each medication its drug, dose, route, frequency, and start and stop dates where documented (use "" when not stated), and a status: "started" for newly prescribed medications, "stopped" for discontinued ones, "changed" where the dose, route or frequency has changed, and "current" where it continues unchanged. Include every previous medication that has not been stopped.
+
+{{sources}}
+
+PREVIOUS SUMMARY:
+{{previousSummary}}
+
+PREVIOUS MEDICATIONS:
+{{previousMedications}}
+
+NEW ACUTE CONCERNS:
+{{notes}}`,
+  insights: `You are a clinical decision support assistant for UK clinicians. Based on the provided clinical summary, provide a very brief, rapid-fire action plan.
+
+Your response must be in British English and explicitly aligned with UK NICE (National Institute for Health and Care Excellence) and CKS (Clinical Knowledge Summaries) guidelines.
+
+Please outline 5 critical bullet points for immediate management. Be extremely concise.
+
+${SUMMARY_DIVIDER}`,
+  referral: `You are an assistant for a UK clinician. Draft the body of a UK-style {{urgency}} referral letter to {{specialty}} for the patient.
+
+{{guidance}}
+
+Write in British English, concisely, in short paragraphs under these headings, each on its own line in bold (e.g. **Reason for referral**): Reason for referral, History, Examination and investigations, Current medications and allergies, Question for the specialist. Start list items with "- ". Leave out a heading rather than inventing information for it.
+
+Where patient details are needed, write these placeholders exactly: {{placeholders}}. They are filled in on this device. Do not write the letterhead, addresses, date, salutation or signature; they are added automatically.
+
+${SUMMARY_DIVIDER}`,
+  differentials: `Act as an expert clinical reasoning assistant for a UK clinician. Based on the provided clinical summary, generate a list of potential differential diagnoses.
+
+For each diagnosis, provide a concise rationale citing specific evidence from the summary. Also, provide an estimated likelihood (High, Medium, or Low). Order the list from most to least likely.
+
+${SUMMARY_DIVIDER}`,
+  triage: `You are a triage safety check for UK primary care. Identify any red flags in this presentation that need escalation beyond routine care, using NEWS2, NICE sepsis (NG51), suspected acute coronary syndrome, stroke/TIA (FAST), anaphylaxis, meningococcal disease, subarachnoid haemorrhage, GI bleeding and suicide risk criteria. Only list red flags the text supports; do not list absent or negated findings. Return an empty list if there are none.
+
+NOTES:
+{{notes}}
+
+ACUTE ISSUES:
+{{acuteIssues}}`,
+};
+
+// Built-in wording that has since been replaced, so outputs made with it can still be traced
+const SUPERSEDED_DEFAULTS: Partial<Record<PromptId, PromptVersion[]>> = {
+  referral: [
+    {
+      version: 1,
+      text: `You are an assistant for a UK clinician. Draft an extremely concise, to-the-point, UK-style referral letter to a {{specialty}} specialist for the patient.
+
+The entire letter must be a maximum of 3-4 lines. It should only contain the most critical information for the specialist. Use placeholders like [Patient Name] and [NHS Number] for demographic details.
+
+${SUMMARY_DIVIDER}`,
+    },
+  ],
+};
+
+export const DEFAULT_PROMPT_LIBRARY: PromptLibrary = Object.fromEntries(PROMPT_IDS.map(id => {
+  const history = SUPERSEDED_DEFAULTS[id] || [];
+  return [id, { id, version: history.length + 1, text: DEFAULT_PROMPT_TEXTS[id], history }];
+})) as PromptLibrary;
+
+const PROMPT_LIBRARY_STORAGE_KEY = 'hx_prompt_library';
+
+const VARIABLE_PATTERN = /\{\{\s*(\w+)\s*\}\}/g;
+
+const variablesIn = (text: string) => [...text.matchAll(VARIABLE_PATTERN)].map(match => match[1]);
+
+export const promptLabel = (id: PromptId) => LLM_TASK_LABELS[id];
+
+// e.g. "Referral letter prompt v3", for showing which wording produced an output
+export const promptVersionLabel = (ref: PromptVersionRef) =>
+  `${LLM_TASK_LABELS[ref.id as PromptId] ?? ref.id} prompt v${ref.version}${ref.instructionsHash ? ` (template instructions ${ref.instructionsHash})` : ''}`;
+
+// `instructions` is the summary template wording filled into {{instructions}}, when the prompt has it
+export const promptVersionRef = (template: PromptTemplate, instructions?: string): PromptVersionRef => ({
+  id: template.id,
+  version: template.version,
+  ...(instructions !== undefined ? { instructionsHash: hashText(instructions) } : {}),
+});
+
+// Check a prompt's wording. Throws PromptTemplateError naming the first problem found.
+export function checkPromptText(id: PromptId, text: string) {
+  const label = promptLabel(id);
+  if (!text.trim()) throw new PromptTemplateError(`The ${label} prompt cannot be empty.`);
+  const allowed = PROMPT_VARIABLES[id];
+  const used = variablesIn(text);
+  const unknown = used.find(name => !allowed.some(variable => variable.name === name));
+  if (unknown) throw new PromptTemplateError(`The ${label} prompt uses {{${unknown}}}, which it does not have.`);
+  const missing = allowed.find(variable => variable.required && !used.includes(variable.name));
+  if (missing) throw new PromptTemplateError(`The ${label} prompt must use {{${missing.name}}}.`);
+}
+
+// Fill in a prompt's variables
+export function renderPrompt(template: PromptTemplate, values: Record<string, string>): string {
+  return template.text.replace(VARIABLE_PATTERN, (placeholder, name: string) => values[name] ?? placeholder);
+}
+
+// Apply edited wording. Each prompt whose text changed becomes a new version, its previous wording
+// moving into the history; unchanged prompts keep their version. Resetting to the default wording is
+// a change like any other, so version numbers only ever go up.
+export function updatePromptLibrary(library: PromptLibrary, texts: Record<PromptId, string>): PromptLibrary {
+  PROMPT_IDS.forEach(id => checkPromptText(id, texts[id]));
+  const savedAt = new Date().toISOString();
+  return Object.fromEntries(PROMPT_IDS.map(id => {
+    const { history, ...current } = library[id];
+    if (texts[id] === current.text) return [id, library[id]];
+    const previous: PromptVersion = { version: current.version, text: current.text, ...(current.savedAt ? { savedAt: current.savedAt } : {}) };
+    return [id, { id, version: current.version + 1, text: texts[id], savedAt, history: [previous, ...history] }];
+  })) as PromptLibrary;
+}
+
+// The wording a given version used, for auditing an output. Undefined if the version is unknown.
+export function findPromptVersion(library: PromptLibrary, ref: PromptVersionRef): PromptVersion | undefined {
+  const template = library[ref.id as PromptId];
+  if (!template) return undefined;
+  return template.version === ref.version ? template : template.history.find(entry => entry.version === ref.version);
+}
+
+function parsePromptLibrary(json: unknown): PromptLibrary {
+  if (!json || typeof json !== 'object' || Array.isArray(json)) throw new PromptTemplateError('The prompt library must be a JSON object.');
+  const saved = json as Partial<Record<PromptId, PromptTemplate>>;
+  // Prompts added since the library was saved start from their default wording
+  return Object.fromEntries(PROMPT_IDS.map(id => {
+    const template = saved[id];
+    if (!template) return [id, DEFAULT_PROMPT_LIBRARY[id]];
+    if (typeof template.text !== 'string' || typeof template.version !== 'number' || !Array.isArray(template.history)) {
+      throw new PromptTemplateError(`The saved ${promptLabel(id)} prompt is not valid.`);
+    }
+    checkPromptText(id, template.text);
+    return [id, { ...template, id }];
+  })) as PromptLibrary;
+}
+
+export function loadPromptLibrary(): PromptLibrary {
+  try {
+    const saved = localStorage.getItem(PROMPT_LIBRARY_STORAGE_KEY);
+    return saved ? parsePromptLibrary(JSON.parse(saved)) : DEFAULT_PROMPT_LIBRARY;
+  } catch (e) {
+    console.error("Failed to read prompt library from localStorage", e);
+    return DEFAULT_PROMPT_LIBRARY;
+  }
+}
+
+export function savePromptLibrary(library: PromptLibrary) {
+  localStorage.setItem(PROMPT_LIBRARY_STORAGE_KEY, JSON.stringify(library));
+}
@@ -0,0 +1,205 @@
+/**
+ * @license
+ * SPDX-License-Identifier: Apache-2.0
+*/
+import { ResponseSchema } from './llm-providers';
+import { PromptTemplate, promptVersionRef, renderPrompt } from './prompt-library';
+import { News2Parameter, RedFlagAssessment, RedFlagMatch, RedFlagUrgency } from './types';
+
+// Red-flag detection for acute presentations. A local layer of keyword rules and NEWS2 scoring runs on
+// the consultation notes and on the generated acute issues; a model classifier (the 'triage' task) adds
+// anything the rules miss. Either layer can raise the escalation banner; the local layer never depends
+// on the model being reachable.
+
+export const RED_FLAG_URGENCY_LABELS: Record<RedFlagUrgency, string> = {
+  emergency: 'Emergency: call 999 or arrange same-hour assessment',
+  urgent: 'Urgent: same-day clinical assessment',
+};
+
+const URGENCY_RANK: Record<RedFlagUrgency, number> = { urgent: 1, emergency: 2 };
+
+interface RedFlagRule {
+  criterion: string;
+  pattern: RegExp;
+  urgency: RedFlagUrgency;
+}
+
+const RED_FLAG_RULES: RedFlagRule[] = [
+  { criterion: 'Suspected sepsis', pattern: /\b(?:sepsis|septic|urosepsis|neutropenic fever)\b/i, urgency: 'emergency' },
+  { criterion: 'Cardiac-sounding chest pain', pattern: /\bchest (?:pain|tightness|heaviness)\b[^.;]*\b(?:radiat\w*|sweat\w*|clammy|at rest|ongoing|crushing)\b/i, urgency: 'emergency' },
+  { criterion: 'Chest pain', pattern: /\b(?:chest (?:pain|tightness|heaviness)|central crushing pain)\b/i, urgency: 'urgent' },
+  { criterion: 'New confusion', pattern: /\b(?:(?:new|acute|sudden)(?:[- ]onset)?\s+confusion|acutely confused|delirium|newly confused)\b/i, urgency: 'urgent' },
+  { criterion: 'Stroke or TIA symptoms', pattern: /\b(?:facial droop|slurred speech|unilateral weakness|arm weakness|stroke|tia|transient ischaemic attack)\b/i, urgency: 'emergency' },
+  { criterion: 'Anaphylaxis or airway compromise', pattern: /\b(?:anaphyla\w*|stridor|(?:lip|tongue|throat) swelling)\b/i, urgency: 'emergency' },
+  { criterion: 'Non-blanching rash', pattern: /\b(?:non[- ]blanching|petechia\w*|purpur\w*)\b/i, urgency: 'emergency' },
+  { criterion: 'Thunderclap headache', pattern: /\b(?:thunderclap|worst headache of (?:my|their|his|her) life|sudden severe headache)\b/i, urgency: 'emergency' },
+  { criterion: 'Suicidal ideation or overdose', pattern: /\b(?:suicid\w*|overdose)\b/i, urgency: 'urgent' },
+  { criterion: 'Gastrointestinal bleeding', pattern: /\b(?:haematemesis|hematemesis|melaena|melena|coffee[- ]ground vomit\w*)\b/i, urgency: 'urgent' },
+];
+
+// "no chest pain", "denies confusion": a negation shortly before the match in the same clause. "and" and
+// "but" start a new clause, so "no cough and chest pain" still reports the chest pain.
+const NEGATED = /\b(?:no|denies|denied|without|nil|not|negative for|ruled out)\b(?:(?!\b(?:and|but)\b)[^.;,]){0,30}$/i;
+export const isNegated = (textBefore: string) => NEGATED.test(textBefore);
+// "previous stroke", "PMH: TIA 2019": past history rather than the current presentation
+const HISTORICAL = /\b(?:previous|prior|past|old|history of|hx of|pmh)\b(?:(?!\b(?:and|but)\b)[^.;,]){0,20}$/i;
+
+function findRuleMatches(text: string, foundIn: RedFlagMatch['foundIn']): RedFlagMatch[] {
+  const matches: RedFlagMatch[] = [];
+  RED_FLAG_RULES.forEach(rule => {
+    // The first mention that is neither negated nor past history, e.g. "history of stroke. Today new facial droop"
+    const all = new RegExp(rule.pattern.source, `${rule.pattern.flags}g`);
+    const match = [...text.matchAll(all)].find(candidate => {
+      const before = text.slice(0, candidate.index);
+      return !isNegated(before) && !HISTORICAL.test(before);
+    });
+    if (!match) return;
+    // A more specific rule for the same presentation (e.g. cardiac-sounding chest pain) supersedes the general one
+    if (matches.some(existing => existing.evidence.toLowerCase().includes(match[0].toLowerCase()))) return;
+    matches.push({ criterion: rule.criterion, evidence: match[0], urgency: rule.urgency, detectedBy: 'rules', foundIn });
+  });
+  return matches;
+}
+
+// --- NEWS2 ---
+
+export interface News2Observation {
+  name: string;
+  pattern: RegExp;
+  points: (value: number) => number;
+  unit?: string;
+}
+
+// RCP NEWS2 (2017) bands, SpO2 scale 1
+export const NEWS2_OBSERVATIONS: News2Observation[] = [
+  {
+    name: 'Respiration rate',
+    pattern: /\b(?:rr|resp(?:iratory)?\s*rate|resps)\s*(?:of|:|=|is|was)?\s*(\d{1,2})\b/i,
+    points: rate => (rate <= 8 ? 3 : rate <= 11 ? 1 : rate <= 20 ? 0 : rate <= 24 ? 2 : 3),
+    unit: '/min',
+  },
+  {
+    name: 'SpO2',
+    pattern: /\b(?:spo2|sp02|o2\s*sats?|sats?|oxygen\s*saturations?)\s*(?:of|:|=|is|was)?\s*(\d{2,3})\s*%?/i,
+    points: sats => (sats <= 91 ? 3 : sats <= 93 ? 2 : sats <= 95 ? 1 : 0),
+    unit: '%',
+  },
+  {
+    name: 'Systolic BP',
+    pattern: /\b(?:bp|blood\s*pressure)\s*(?:of|:|=|is|was)?\s*(\d{2,3})\s*\/\s*\d{2,3}/i,
+    points: systolic => (systolic <= 90 ? 3 : systolic <= 100 ? 2 : systolic <= 110 ? 1 : systolic <= 219 ? 0 : 3),
+    unit: ' mmHg',
+  },
+  {
+    name: 'Pulse',
+    pattern: /\b(?:hr|heart\s*rate|pulse(?:\s*rate)?)\s*(?:of|:|=|is|was)?\s*(\d{2,3})\b/i,
+    points: pulse => (pulse <= 40 ? 3 : pulse <= 50 ? 1 : pulse <= 90 ? 0 : pulse <= 110 ? 1 : pulse <= 130 ? 2 : 3),
+    unit: '/min',
+  },
+  {
+    name: 'Temperature',
+    pattern: /\b(?:temp(?:erature)?)\s*(?:of|:|=|is|was)?\s*(\d{2}(?:\.\d)?)\s*(?:°\s*c|c\b)?/i,
+    points: temp => (temp <= 35 ? 3 : temp <= 36 ? 1 : temp <= 38 ? 0 : temp <= 39 ? 1 : 2),
+    unit: '°C',
+  },
+];
+
+export const SUPPLEMENTAL_OXYGEN = /\b(?:on\s+(?:\d+\s*l(?:itres?)?(?:\/min)?\s+(?:of\s+)?)?(?:supplemental\s+)?oxygen|o2\s+\d+\s*l(?:itres?)?)\b/i;
+
+// Score whichever NEWS2 observations the text gives. New confusion counts for consciousness.
+export function scoreNews2(text: string, newConfusion: boolean): { score: number; parameters: News2Parameter[] } | undefined {
+  const parameters: News2Parameter[] = [];
+  NEWS2_OBSERVATIONS.forEach(observation => {
+    const match = observation.pattern.exec(text);
+    if (!match) return;
+    const value = Number(match[1]);
+    parameters.push({ name: observation.name, value: `${value}${observation.unit || ''}`, points: observation.points(value) });
+  });
+  if (SUPPLEMENTAL_OXYGEN.test(text)) parameters.push({ name: 'Supplemental oxygen', value: 'Yes', points: 2 });
+  if (newConfusion) parameters.push({ name: 'Consciousness', value: 'New confusion', points: 3 });
+  if (parameters.length === 0) return undefined;
+  return { score: parameters.reduce((total, parameter) => total + parameter.points, 0), parameters };
+}
+
+// NEWS2 triggers: 7 or more is an emergency response; 5-6, or 3 in any single parameter, is urgent
+function news2Match(news2: { score: number; parameters: News2Parameter[] }): RedFlagMatch | undefined {
+  const single = news2.parameters.find(parameter => parameter.points === 3);
+  const urgency: RedFlagUrgency | null = news2.score >= 7 ? 'emergency' : news2.score >= 5 || single ? 'urgent' : null;
+  if (!urgency) return undefined;
+  const criterion = news2.score >= 5 ? `NEWS2 score ${news2.score}` : `NEWS2 single parameter scoring 3 (${single!.name})`;
+  const evidence = news2.parameters.filter(parameter => parameter.points > 0).map(parameter => `${parameter.name} ${parameter.value} (${parameter.points})`).join(', ');
+  return { criterion, evidence, urgency, detectedBy: 'rules', foundIn: 'notes' };
+}
+
+const highestUrgency = (matches: RedFlagMatch[]): RedFlagUrgency | null =>
+  matches.reduce<RedFlagUrgency | null>(
+    (highest, match) => (!highest || URGENCY_RANK[match.urgency] > URGENCY_RANK[highest] ? match.urgency : highest),
+    null,
+  );
+
+// The local layer: keyword rules on the notes and the acute issues, and NEWS2 from observations in the notes
+export function detectRedFlags(notes: string, acuteIssues: string[]): RedFlagAssessment {
+  const noteMatches = findRuleMatches(notes, 'notes');
+  // Acute issues only add criteria the notes did not already meet
+  const matches = acuteIssues
+    .flatMap(issue => findRuleMatches(issue, 'acute-issues'))
+    .reduce((found, match) => (found.some(existing =>
+      existing.criterion === match.criterion || existing.evidence.toLowerCase().includes(match.evidence.toLowerCase()))
+      ? found
+      : [...found, match]), noteMatches);
+  const news2 = scoreNews2(notes, matches.some(match => match.criterion === 'New confusion'));
+  const news2Trigger = news2 && news2Match(news2);
+  if (news2Trigger) matches.push(news2Trigger);
+  return {
+    urgency: highestUrgency(matches),
+    matches,
+    ...(news2 ? { news2 } : {}),
+    modelChecked: false,
+    assessedAt: new Date().toISOString(),
+  };
+}
+
+// --- Model classifier ---
+
+export interface ClassifiedRedFlag {
+  criterion: string;
+  evidence: string;
+  urgency: RedFlagUrgency;
+}
+
+export const RED_FLAG_CLASSIFIER_SCHEMA: ResponseSchema = {
+  type: 'OBJECT',
+  properties: {
+    redFlags: {
+      type: 'ARRAY',
+      description: 'Red flags present in the presentation. Empty when there are none.',
+      items: {
+        type: 'OBJECT',
+        properties: {
+          criterion: { type: 'STRING', description: 'The red-flag criterion met, e.g. "Suspected sepsis" or "NEWS2 score 7".' },
+          evidence: { type: 'STRING', description: 'A short span copied verbatim from the notes or acute issues that meets it.' },
+          urgency: { type: 'STRING', enum: ['emergency', 'urgent'], description: 'emergency: 999 or same-hour assessment; urgent: same-day assessment.' },
+        },
+        required: ['criterion', 'evidence', 'urgency'],
+      },
+    },
+  },
+  required: ['redFlags'],
+};
+
+// The classifier request, from the library's 'triage' prompt
+export function buildRedFlagPrompt(template: PromptTemplate, notes: string, acuteIssues: string[]): string {
+  return renderPrompt(template, { notes, acuteIssues: acuteIssues.map(issue => `- ${issue}`).join('\n') });
+}
+
+// Add the classifier's findings to the local assessment. Criteria the rules already found are not repeated.
+// `template` is the prompt the classifier was sent, recorded on the assessment.
+export function mergeClassifiedRedFlags(assessment: RedFlagAssessment, classified: ClassifiedRedFlag[], template: PromptTemplate): RedFlagAssessment {
+  const known = new Set(assessment.matches.map(match => match.criterion.toLowerCase()));
+  const added: RedFlagMatch[] = classified
+    .filter(flag => flag && typeof flag.criterion === 'string' && (flag.urgency === 'emergency' || flag.urgency === 'urgent'))
+    .filter(flag => !known.has(flag.criterion.toLowerCase()))
+    .map(flag => ({ criterion: flag.criterion, evidence: flag.evidence || '', urgency: flag.urgency, detectedBy: 'model' }));
+  const matches = [...assessment.matches, ...added];
+  return { ...assessment, matches, urgency: highestUrgency(matches), modelChecked: true, promptVersion: promptVersionRef(template) };
+}
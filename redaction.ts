@@ -0,0 +1,228 @@
+/**
+ * @license
+ * SPDX-License-Identifier: Apache-2.0
+*/
+import { isValidNhsNumber, normaliseNhsNumber } from './patient-identity';
+
+// Local de-identification of text before it is sent to a model. Identifiers are swapped for
+// tokens such as [NAME_1]; the same value always gets the same token within one request, and
+// the tokens are swapped back when the response arrives. Detection is pattern-based, so the
+// outgoing preview lets the clinician check what is left before anything leaves the browser.
+
+export type IdentifierKind = 'name' | 'nhs-number' | 'dob' | 'postcode' | 'phone' | 'email';
+
+export const IDENTIFIER_LABELS: Record<IdentifierKind, string> = {
+  name: 'Name',
+  'nhs-number': 'NHS number',
+  dob: 'Date of birth',
+  postcode: 'Postcode',
+  phone: 'Phone number',
+  email: 'Email address',
+};
+
+const TOKEN_PREFIXES: Record<IdentifierKind, string> = {
+  name: 'NAME',
+  'nhs-number': 'NHS_NUMBER',
+  dob: 'DOB',
+  postcode: 'POSTCODE',
+  phone: 'PHONE',
+  email: 'EMAIL',
+};
+
+export const TOKEN_PATTERN = /\[(NAME|NHS_NUMBER|DOB|POSTCODE|PHONE|EMAIL)_(\d+)\]/g;
+
+export interface RedactionEntry {
+  token: string;
+  kind: IdentifierKind;
+  original: string;
+  occurrences: number;
+}
+
+// Identifiers already on the patient record, redacted wherever they appear regardless of context
+export interface KnownIdentifiers {
+  name?: string;
+  dob?: string; // yyyy-mm-dd
+  nhsNumber?: string;
+}
+
+export interface Redactor {
+  enabled: boolean;
+  redact(text: string): string;
+  restore(text: string): string;
+  // Restore tokens in every string of a parsed JSON response
+  restoreDeep<T>(value: T): T;
+  entries(): RedactionEntry[];
+}
+
+interface Match {
+  start: number;
+  end: number;
+  kind: IdentifierKind;
+}
+
+const escapeRegExp = (value: string) => value.replace(/[.*+?^${}()|[\]\\]/g, '\\$&');
+
+const MONTHS = ['January', 'February', 'March', 'April', 'May', 'June', 'July', 'August', 'September', 'October', 'November', 'December'];
+const DATE = String.raw`(?:\d{1,2}[\/.\-]\d{1,2}[\/.\-]\d{2,4}|\d{4}-\d{2}-\d{2}|\d{1,2}(?:st|nd|rd|th)?\s+(?:Jan|Feb|Mar|Apr|May|Jun|Jul|Aug|Sep|Sept|Oct|Nov|Dec)[a-z]*\.?,?\s+\d{4})`;
+const CAPITALISED_WORD = String.raw`[A-Z][a-z'’\-]+`;
+
+// Patterns that need no knowledge of the patient. Each returns the span of the identifier itself.
+const PATTERN_DETECTORS: { kind: IdentifierKind; pattern: RegExp; group?: number; accept?: (value: string) => boolean }[] = [
+  { kind: 'email', pattern: /\b[A-Za-z0-9._%+-]+@[A-Za-z0-9.-]+\.[A-Za-z]{2,}\b/g },
+  // Labelled NHS numbers are redacted even with a bad check digit; unlabelled ten-digit numbers only when valid
+  { kind: 'nhs-number', pattern: /\bNHS\s*(?:No\.?|Number|#)?\s*[:\-]?\s*(\d{3}[\s-]?\d{3}[\s-]?\d{4})\b/gi, group: 1 },
+  { kind: 'nhs-number', pattern: /\b\d{3}[\s-]?\d{3}[\s-]?\d{4}\b/g, accept: value => isValidNhsNumber(value) },
+  {
+    kind: 'phone',
+    pattern: /(?:\+44\s?\(?0?\)?\s?|\b0)\d{2,4}[\s-]?\d{3,4}[\s-]?\d{3,4}\b/g,
+    accept: value => {
+      const digits = value.replace(/^\+44\s?\(?0?\)?/, '0').replace(/\D/g, '');
+      return digits.length === 10 || digits.length === 11;
+    },
+  },
+  { kind: 'postcode', pattern: /\b[A-Z]{1,2}\d[A-Z\d]?\s*\d[A-Z]{2}\b/g },
+  { kind: 'dob', pattern: new RegExp(String.raw`\b(?:DOB|D\.O\.B\.?|date of birth|born(?: on)?)\s*[:\-]?\s*(${DATE})`, 'gi'), group: 1 },
+  {
+    kind: 'name',
+    pattern: new RegExp(String.raw`\b(?:Mr|Mrs|Ms|Miss|Mx|Dr|Prof|Professor)\.?\s+(${CAPITALISED_WORD}(?:\s+${CAPITALISED_WORD}){0,2})`, 'g'),
+    group: 1,
+  },
+  {
+    kind: 'name',
+    pattern: new RegExp(String.raw`\b(?:[Pp]atient name|[Nn]ame)\s*:\s*(${CAPITALISED_WORD}(?:\s+${CAPITALISED_WORD}){0,3})`, 'g'),
+    group: 1,
+  },
+];
+
+// Ways a stored yyyy-mm-dd date of birth may be written in a note
+function dateVariants(iso: string): string[] {
+  const match = iso.match(/^(\d{4})-(\d{2})-(\d{2})$/);
+  if (!match) return [];
+  const [, year, month, day] = match;
+  const d = String(Number(day));
+  const m = String(Number(month));
+  const monthName = MONTHS[Number(month) - 1];
+  if (!monthName) return [];
+  return [
+    iso,
+    `${day}/${month}/${year}`, `${d}/${m}/${year}`, `${day}.${month}.${year}`, `${day}-${month}-${year}`,
+    `${d} ${monthName} ${year}`, `${d} ${monthName.slice(0, 3)} ${year}`,
+  ];
+}
+
+function knownPatterns(known: KnownIdentifiers): { kind: IdentifierKind; pattern: RegExp }[] {
+  const patterns: { kind: IdentifierKind; pattern: RegExp }[] = [];
+  const nameParts = (known.name || '').trim().split(/\s+/).filter(part => part.length >= 3);
+  if (known.name?.trim()) {
+    // Full name first so it becomes one token, then each part on its own (e.g. "Mrs Smith")
+    patterns.push({ kind: 'name', pattern: new RegExp(`\\b${escapeRegExp(known.name.trim()).replace(/\s+/g, '\\s+')}\\b`, 'gi') });
+  }
+  // A part alone only as a capitalised word, so a Will Rose or May Hope keeps "will", "rose", "may" and "hope" in the notes
+  nameParts.forEach(part => {
+    const forms = new Set([
+      part[0].toUpperCase() + part.slice(1).toLowerCase(),
+      part[0].toUpperCase() + part.slice(1),
+      part.toUpperCase(),
+    ]);
+    patterns.push({ kind: 'name', pattern: new RegExp(`\\b(?:${[...forms].map(escapeRegExp).join('|')})\\b`, 'g') });
+  });
+  dateVariants(known.dob || '').forEach(variant =>
+    patterns.push({ kind: 'dob', pattern: new RegExp(`\\b${escapeRegExp(variant)}\\b`, 'gi') })
+  );
+  const nhsNumber = normaliseNhsNumber(known.nhsNumber || '');
+  if (/^\d{10}$/.test(nhsNumber)) {
+    const spaced = `${nhsNumber.slice(0, 3)}[\\s-]?${nhsNumber.slice(3, 6)}[\\s-]?${nhsNumber.slice(6)}`;
+    patterns.push({ kind: 'nhs-number', pattern: new RegExp(`\\b${spaced}\\b`, 'g') });
+  }
+  return patterns;
+}
+
+function findMatches(text: string, known: KnownIdentifiers): Match[] {
+  const matches: Match[] = [];
+  knownPatterns(known).forEach(({ kind, pattern }) => {
+    for (const found of text.matchAll(pattern)) {
+      matches.push({ start: found.index!, end: found.index! + found[0].length, kind });
+    }
+  });
+  PATTERN_DETECTORS.forEach(({ kind, pattern, group, accept }) => {
+    for (const found of text.matchAll(pattern)) {
+      const value = group ? found[group] : found[0];
+      if (!value || (accept && !accept(value))) continue;
+      const start = found.index! + (group ? found[0].lastIndexOf(value) : 0);
+      matches.push({ start, end: start + value.length, kind });
+    }
+  });
+
+  // Keep the earliest, then longest, match where spans overlap
+  matches.sort((a, b) => a.start - b.start || (b.end - b.start) - (a.end - a.start));
+  const kept: Match[] = [];
+  for (const match of matches) {
+    const last = kept[kept.length - 1];
+    if (!last || match.start >= last.end) kept.push(match);
+  }
+  return kept;
+}
+
+// Values that differ only in case or spacing share a token
+const valueKey = (kind: IdentifierKind, value: string) =>
+  `${kind}:${kind === 'nhs-number' || kind === 'phone' ? value.replace(/\D/g, '') : value.toLowerCase().replace(/\s+/g, ' ')}`;
+
+export function createRedactor(known: KnownIdentifiers = {}): Redactor {
+  const tokensByValue = new Map<string, RedactionEntry>();
+  const entriesByToken = new Map<string, RedactionEntry>();
+  const counters: Partial<Record<IdentifierKind, number>> = {};
+
+  const tokenFor = (kind: IdentifierKind, value: string) => {
+    const key = valueKey(kind, value);
+    let entry = tokensByValue.get(key);
+    if (!entry) {
+      counters[kind] = (counters[kind] || 0) + 1;
+      entry = { token: `[${TOKEN_PREFIXES[kind]}_${counters[kind]}]`, kind, original: value, occurrences: 0 };
+      tokensByValue.set(key, entry);
+      entriesByToken.set(entry.token, entry);
+    }
+    entry.occurrences++;
+    return entry.token;
+  };
+
+  const restore = (text: string) => text.replace(TOKEN_PATTERN, token => entriesByToken.get(token)?.original ?? token);
+
+  const restoreDeep = <T,>(value: T): T => {
+    if (typeof value === 'string') return restore(value) as T;
+    if (Array.isArray(value)) return value.map(restoreDeep) as T;
+    if (value && typeof value === 'object') {
+      return Object.fromEntries(Object.entries(value).map(([key, item]) => [key, restoreDeep(item)])) as T;
+    }
+    return value;
+  };
+
+  return {
+    enabled: true,
+    redact(text) {
+      const matches = findMatches(text, known);
+      let result = '';
+      let position = 0;
+      for (const match of matches) {
+        result += text.slice(position, match.start) + tokenFor(match.kind, text.slice(match.start, match.end));
+        position = match.end;
+      }
+      return result + text.slice(position);
+    },
+    restore,
+    restoreDeep,
+    entries: () => [...entriesByToken.values()],
+  };
+}
+
+// Used when redaction is switched off in settings: text goes out unchanged
+export const PASS_THROUGH_REDACTOR: Redactor = {
+  enabled: false,
+  redact: text => text,
+  restore: text => text,
+  restoreDeep: value => value,
+  entries: () => [],
+};
+
+// Added to prompts so the model keeps tokens intact for re-insertion
+export const REDACTION_INSTRUCTION =
+  'Some identifiers have been replaced with tokens such as [NAME_1] or [DOB_1]. Copy any token you refer to exactly as written, including the brackets, and do not guess what it stands for.';
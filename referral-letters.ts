@@ -0,0 +1,371 @@
+/**
+ * @license
+ * SPDX-License-Identifier: Apache-2.0
+*/
+import { ageOn } from './clinical-scores';
+import { DocxParagraph, createDocx, htmlToDocxParagraphs } from './docx';
+import { formatNhsNumber } from './patient-identity';
+import { Patient, ReferralLetter, ReferralUrgency } from './types';
+import { CurrentUser } from './user-accounts';
+
+// Referral letters: specialty templates, the practice letterhead, and the local merge of patient
+// details. The model only ever sees placeholders such as [Patient Name]; the real details are
+// filled in on this device after the draft comes back, and the letterhead, patient block and
+// signature are added when the letter is exported.
+
+export const REFERRAL_URGENCY_LABELS: Record<ReferralUrgency, string> = {
+  routine: 'Routine',
+  urgent: 'Urgent',
+  'two-week-wait': 'Urgent suspected cancer (2WW)',
+};
+
+export interface ReferralTemplate {
+  id: string;
+  name: string;
+  specialty: string; // Pre-fills the specialty, which can be changed per letter
+  urgency: ReferralUrgency; // Default urgency
+  guidance: string; // What the letter must cover, passed to the model
+}
+
+export const GENERAL_REFERRAL_TEMPLATE_ID = 'general';
+
+// Suspected cancer criteria follow NICE NG12; chest pain NICE CG95; heart failure NICE NG106
+export const REFERRAL_TEMPLATES: ReferralTemplate[] = [
+  {
+    id: GENERAL_REFERRAL_TEMPLATE_ID,
+    name: 'General referral',
+    specialty: '',
+    urgency: 'routine',
+    guidance: 'Give the reason for referral, the relevant history and examination findings, investigations with their dates, what has been tried so far, and the specific question for the specialist.',
+  },
+  {
+    id: '2ww-lower-gi',
+    name: '2WW: suspected lower GI cancer',
+    specialty: 'Colorectal surgery (lower GI 2WW)',
+    urgency: 'two-week-wait',
+    guidance: 'State which NICE NG12 criteria are met (e.g. rectal bleeding, change in bowel habit, iron-deficiency anaemia, abdominal or rectal mass) and give the FIT result in µg Hb/g with its date. Include weight loss, family history of bowel cancer, performance status, anticoagulant or antiplatelet use, and anything that affects fitness for colonoscopy.',
+  },
+  {
+    id: '2ww-upper-gi',
+    name: '2WW: suspected upper GI cancer',
+    specialty: 'Upper GI (2WW)',
+    urgency: 'two-week-wait',
+    guidance: 'State which NICE NG12 criteria are met (e.g. dysphagia, age 55 or over with weight loss and upper abdominal pain, reflux or dyspepsia, upper abdominal mass). Include the duration of symptoms, weight loss, blood results with dates, previous endoscopy, and anticoagulant or antiplatelet use.',
+  },
+  {
+    id: '2ww-breast',
+    name: '2WW: suspected breast cancer',
+    specialty: 'Breast surgery (2WW)',
+    urgency: 'two-week-wait',
+    guidance: 'State which NICE NG12 criteria are met (e.g. unexplained breast lump aged 30 or over, unilateral nipple changes aged 50 or over). Describe the side, position, size and duration of any lump, skin or nipple changes, axillary findings, HRT or contraceptive use, and family history of breast or ovarian cancer.',
+  },
+  {
+    id: '2ww-lung',
+    name: '2WW: suspected lung cancer',
+    specialty: 'Respiratory medicine (lung cancer 2WW)',
+    urgency: 'two-week-wait',
+    guidance: 'State which NICE NG12 criteria are met (e.g. chest X-ray suggesting lung cancer, unexplained haemoptysis aged 40 or over). Give the chest X-ray date and report, smoking history in pack-years, asbestos exposure, symptoms and their duration, and performance status.',
+  },
+  {
+    id: '2ww-skin',
+    name: '2WW: suspected skin cancer',
+    specialty: 'Dermatology (skin cancer 2WW)',
+    urgency: 'two-week-wait',
+    guidance: 'State which NICE NG12 criteria are met (e.g. weighted 7-point checklist score of 3 or more, suspected squamous cell carcinoma). Describe the lesion\'s site, size, colour, duration and recent change, dermoscopy findings if done, and any previous skin cancer or immunosuppression.',
+  },
+  {
+    id: '2ww-urology',
+    name: '2WW: suspected urological cancer',
+    specialty: 'Urology (2WW)',
+    urgency: 'two-week-wait',
+    guidance: 'State which NICE NG12 criteria are met (e.g. PSA above the age-specific range, malignant-feeling prostate on rectal examination, unexplained visible haematuria aged 45 or over). Give PSA results with dates, rectal examination findings, urine dipstick and culture results, renal function, and anticoagulant use.',
+  },
+  {
+    id: 'cardiology-chest-pain',
+    name: 'Cardiology: rapid access chest pain',
+    specialty: 'Cardiology (rapid access chest pain clinic)',
+    urgency: 'urgent',
+    guidance: 'Describe the chest pain: character, site, radiation, relation to exertion and relief by rest or GTN, frequency and duration. Give cardiovascular risk factors, the ECG findings with date, any troponin or blood results, and current anti-anginal and secondary prevention treatment. Note any red flags that would need same-day assessment instead.',
+  },
+  {
+    id: 'cardiology-heart-failure',
+    name: 'Cardiology: suspected heart failure',
+    specialty: 'Cardiology (heart failure)',
+    urgency: 'urgent',
+    guidance: 'Give the NT-proBNP level with its date (above 2000 ng/L needs assessment within 2 weeks; 400 to 2000 ng/L within 6 weeks), symptoms such as breathlessness, orthopnoea and oedema, examination findings, ECG and chest X-ray results, renal function, previous myocardial infarction, and current medication.',
+  },
+  {
+    id: 'cardiology-arrhythmia',
+    name: 'Cardiology: palpitations or arrhythmia',
+    specialty: 'Cardiology (arrhythmia)',
+    urgency: 'routine',
+    guidance: 'Describe the palpitations or arrhythmia: onset, duration, frequency, triggers and associated syncope or chest pain. Give ECG and ambulatory monitoring results with dates, thyroid function, stroke and bleeding risk scores where recorded, and current rate control and anticoagulation.',
+  },
+];
+
+export const findReferralTemplate = (id: string) =>
+  REFERRAL_TEMPLATES.find(template => template.id === id) || REFERRAL_TEMPLATES[0];
+
+// The practice details printed at the top of every letter, and the signing clinician
+export interface Letterhead {
+  practiceName: string;
+  address: string; // One line per line of the address
+  telephone: string;
+  email: string;
+  odsCode: string;
+  clinicianName: string; // Falls back to the signed-in user's name when blank
+  clinicianRole: string;
+  registration: string; // e.g. "GMC 1234567"
+}
+
+export const EMPTY_LETTERHEAD: Letterhead = {
+  practiceName: '',
+  address: '',
+  telephone: '',
+  email: '',
+  odsCode: '',
+  clinicianName: '',
+  clinicianRole: '',
+  registration: '',
+};
+
+const LETTERHEAD_STORAGE_KEY = 'hx_letterhead';
+
+export function loadLetterhead(): Letterhead {
+  try {
+    const saved = localStorage.getItem(LETTERHEAD_STORAGE_KEY);
+    return saved ? { ...EMPTY_LETTERHEAD, ...JSON.parse(saved) } : EMPTY_LETTERHEAD;
+  } catch (e) {
+    console.error("Failed to read letterhead from localStorage", e);
+    return EMPTY_LETTERHEAD;
+  }
+}
+
+export function saveLetterhead(letterhead: Letterhead) {
+  localStorage.setItem(LETTERHEAD_STORAGE_KEY, JSON.stringify(letterhead));
+}
+
+export function createReferral(template: ReferralTemplate, clinician: CurrentUser, summaryTimestamp?: string): ReferralLetter {
+  const now = new Date().toISOString();
+  return {
+    id: `referral-${Date.now().toString(36)}`,
+    templateId: template.id,
+    specialty: template.specialty,
+    urgency: template.urgency,
+    body: '',
+    ...(summaryTimestamp ? { summaryTimestamp } : {}),
+    createdBy: { id: clinician.id, displayName: clinician.displayName },
+    createdAt: now,
+    updatedAt: now,
+  };
+}
+
+const escapeHtml = (text: string) => text
+  .replace(/&/g, '&amp;')
+  .replace(/</g, '&lt;')
+  .replace(/>/g, '&gt;')
+  .replace(/"/g, '&quot;')
+  .replace(/'/g, '&#039;');
+
+// Stored dates of birth are YYYY-MM-DD; letters use the UK order
+const formatDob = (dob: string) => {
+  const match = dob.match(/^(\d{4})-(\d{2})-(\d{2})$/);
+  return match ? `${match[3]}/${match[2]}/${match[1]}` : dob;
+};
+
+const formatLetterDate = (iso: string) => new Date(iso).toLocaleDateString('en-GB', { day: 'numeric', month: 'long', year: 'numeric' });
+
+const signatoryName = (letter: ReferralLetter, letterhead: Letterhead) => letterhead.clinicianName.trim() || letter.createdBy.displayName;
+
+// --- Placeholders and the local merge ---
+
+// The placeholders the model is told to use. Matching ignores case; [DOB] is accepted for [Date of Birth].
+export const DEMOGRAPHIC_PLACEHOLDERS = ['[Patient Name]', '[Date of Birth]', '[NHS Number]', '[Age]', '[Clinician Name]', '[Practice Name]'];
+
+const PLACEHOLDER_PATTERN = /\[([A-Za-z][A-Za-z ]*)\]/g;
+
+function placeholderValues(letter: ReferralLetter, patient: Patient, letterhead: Letterhead): Record<string, string> {
+  const age = patient.dob ? ageOn(patient.dob, letter.createdAt) : undefined;
+  const dob = formatDob(patient.dob);
+  return {
+    'patient name': patient.name,
+    'date of birth': dob,
+    dob,
+    'nhs number': formatNhsNumber(patient.nhsNumber),
+    age: age !== undefined ? `${age}` : '',
+    'clinician name': signatoryName(letter, letterhead),
+    'practice name': letterhead.practiceName,
+  };
+}
+
+// Replace the placeholders in a letter body with the patient's and practice's details. Placeholders
+// with no recorded value (e.g. a missing NHS number) are left for the clinician to fill in.
+export function mergeDemographics(html: string, letter: ReferralLetter, patient: Patient, letterhead: Letterhead): string {
+  const values = placeholderValues(letter, patient, letterhead);
+  return html.replace(PLACEHOLDER_PATTERN, (placeholder, name: string) => {
+    const value = values[name.trim().toLowerCase()];
+    return value ? escapeHtml(value) : placeholder;
+  });
+}
+
+// Bracketed placeholders still in the body, to warn before the letter is sent
+export function unfilledPlaceholders(html: string): string[] {
+  return [...new Set([...html.matchAll(PLACEHOLDER_PATTERN)].map(match => match[0]))];
+}
+
+// --- Letter body HTML ---
+
+const inlineMarkdown = (text: string) => escapeHtml(text).replace(/\*\*(.+?)\*\*/g, '<strong>$1</strong>');
+
+// The model's plain-text draft as editable HTML: blank lines separate paragraphs, lines starting
+// "- ", "* " or "• " become a bulleted list, markdown headings and **text** become bold
+export function textToLetterHtml(text: string): string {
+  const blocks: string[] = [];
+  let paragraph: string[] = [];
+  let list: string[] = [];
+  const flush = () => {
+    if (paragraph.length > 0) blocks.push(`<p>${paragraph.join('<br>')}</p>`);
+    if (list.length > 0) blocks.push(`<ul>${list.map(item => `<li>${item}</li>`).join('')}</ul>`);
+    paragraph = [];
+    list = [];
+  };
+  text.replace(/\r\n/g, '\n').split('\n').forEach(rawLine => {
+    const line = rawLine.trim();
+    const bullet = line.match(/^(?:[-*•])\s+(.*)$/);
+    const heading = line.match(/^#{1,6}\s+(.*)$/);
+    if (!line) {
+      flush();
+    } else if (bullet) {
+      if (paragraph.length > 0) flush();
+      list.push(inlineMarkdown(bullet[1]));
+    } else {
+      if (list.length > 0) flush();
+      paragraph.push(heading ? `<strong>${inlineMarkdown(heading[1].replace(/\*\*/g, ''))}</strong>` : inlineMarkdown(line));
+    }
+  });
+  flush();
+  return blocks.join('');
+}
+
+// Tags kept from edited or pasted content, and what they are stored as
+const ALLOWED_TAGS: Record<string, string> = {
+  P: 'p', DIV: 'p', BR: 'br', STRONG: 'strong', B: 'strong', EM: 'em', I: 'em', U: 'u', UL: 'ul', OL: 'ol', LI: 'li',
+};
+
+// Reduce HTML from the editor to the tags above with no attributes. Anything else (styles, links,
+// images, scripts) is dropped, keeping its text where it has any.
+export function sanitiseLetterHtml(html: string): string {
+  const root = new DOMParser().parseFromString(`<body>${html}</body>`, 'text/html').body;
+  const clean = (node: Node): string => {
+    if (node.nodeType === Node.TEXT_NODE) return escapeHtml(node.textContent || '');
+    if (node.nodeType !== Node.ELEMENT_NODE) return '';
+    const element = node as Element;
+    if (['SCRIPT', 'STYLE', 'TEMPLATE'].includes(element.tagName)) return '';
+    const inner = [...element.childNodes].map(clean).join('');
+    const tag = ALLOWED_TAGS[element.tagName];
+    if (!tag) return inner;
+    return tag === 'br' ? '<br>' : `<${tag}>${inner}</${tag}>`;
+  };
+  return [...root.childNodes].map(clean).join('');
+}
+
+// --- Exported letter ---
+
+// Everything around the body, shared by the PDF and Word versions
+interface LetterFrame {
+  practice: string[]; // Practice name first, then address and contact lines
+  date: string;
+  urgency: string;
+  recipient: string;
+  patient: string[];
+  salutation: string;
+  signature: string[];
+}
+
+function letterFrame(letter: ReferralLetter, patient: Patient, letterhead: Letterhead): LetterFrame {
+  const contact = [
+    letterhead.telephone && `Tel: ${letterhead.telephone}`,
+    letterhead.email && `Email: ${letterhead.email}`,
+    letterhead.odsCode && `ODS code: ${letterhead.odsCode}`,
+  ].filter(Boolean) as string[];
+  const age = patient.dob ? ageOn(patient.dob, letter.updatedAt) : undefined;
+  return {
+    practice: [letterhead.practiceName, ...letterhead.address.split('\n'), contact.join(' | ')].map(line => line.trim()).filter(Boolean),
+    date: formatLetterDate(letter.updatedAt),
+    urgency: `${REFERRAL_URGENCY_LABELS[letter.urgency]} referral`.toUpperCase(),
+    recipient: `To: ${letter.specialty || 'Specialist team'}`,
+    patient: [
+      `Re: ${patient.name}`,
+      patient.dob ? `Date of birth: ${formatDob(patient.dob)}${age !== undefined ? ` (${age} years)` : ''}` : '',
+      patient.nhsNumber ? `NHS number: ${formatNhsNumber(patient.nhsNumber)}` : '',
+    ].filter(Boolean),
+    salutation: 'Dear Colleague,',
+    signature: ['Yours sincerely,', '', signatoryName(letter, letterhead), letterhead.clinicianRole, letterhead.registration, letterhead.practiceName]
+      .filter((line, index) => index < 2 || line.trim()),
+  };
+}
+
+const LETTER_STYLES = `
+  .letter { font-family: Arial, Helvetica, sans-serif; color: #000; font-size: 11pt; line-height: 1.45; }
+  .letterhead { text-align: right; border-bottom: 2px solid #005eb8; padding-bottom: 8px; margin-bottom: 18px; }
+  .letterhead .practice-name { font-size: 15pt; font-weight: bold; color: #005eb8; }
+  .letterhead div { font-size: 10pt; }
+  .letter-urgency { font-weight: bold; margin: 12px 0; }
+  .letter-urgency.two-week-wait, .letter-urgency.urgent { color: #c00; }
+  .letter-patient { font-weight: bold; margin: 12px 0; }
+  .letter-body p { margin: 0 0 10px 0; }
+  .letter-body ul, .letter-body ol { margin: 0 0 10px 0; padding-left: 24px; }
+  .letter-signature { margin-top: 18px; }
+`;
+
+// The complete letter as an HTML document, for PDF export
+export function letterDocumentHtml(letter: ReferralLetter, patient: Patient, letterhead: Letterhead): string {
+  const frame = letterFrame(letter, patient, letterhead);
+  const lines = (items: string[]) => items.map(item => `<div>${escapeHtml(item) || '&nbsp;'}</div>`).join('');
+  const [practiceName, ...practiceLines] = frame.practice;
+  return `
+    <!DOCTYPE html>
+    <html>
+      <head>
+        <meta charset="UTF-8">
+        <title>Referral to ${escapeHtml(letter.specialty)}</title>
+        <style>${LETTER_STYLES}</style>
+      </head>
+      <body>
+        <div class="letter">
+          ${practiceName ? `<div class="letterhead"><div class="practice-name">${escapeHtml(practiceName)}</div>${lines(practiceLines)}</div>` : ''}
+          <div>${escapeHtml(frame.date)}</div>
+          <div class="letter-urgency ${letter.urgency}">${escapeHtml(frame.urgency)}</div>
+          <div>${escapeHtml(frame.recipient)}</div>
+          <div class="letter-patient">${lines(frame.patient)}</div>
+          <p>${escapeHtml(frame.salutation)}</p>
+          <div class="letter-body">${sanitiseLetterHtml(letter.body)}</div>
+          <div class="letter-signature">${lines(frame.signature)}</div>
+        </div>
+      </body>
+    </html>
+  `;
+}
+
+// The complete letter as a Word document
+export function letterDocx(letter: ReferralLetter, patient: Patient, letterhead: Letterhead): Blob {
+  const frame = letterFrame(letter, patient, letterhead);
+  const plain = (text: string, extra: Partial<DocxParagraph> = {}, bold = false): DocxParagraph => ({ runs: [{ text, bold }], ...extra });
+  const [practiceName, ...practiceLines] = frame.practice;
+  const paragraphs: DocxParagraph[] = [
+    ...(practiceName ? [plain(practiceName, { align: 'right', fontSize: 15, spaceAfter: 0 }, true)] : []),
+    ...practiceLines.map(line => plain(line, { align: 'right', fontSize: 10, spaceAfter: 0 })),
+    ...(practiceName ? [plain('', { spaceAfter: 8 })] : []),
+    plain(frame.date),
+    plain(frame.urgency, {}, true),
+    plain(frame.recipient),
+    ...frame.patient.map((line, index) => plain(line, { spaceAfter: index === frame.patient.length - 1 ? 8 : 0 }, true)),
+    plain(frame.salutation),
+    ...htmlToDocxParagraphs(sanitiseLetterHtml(letter.body)),
+    ...frame.signature.map(line => plain(line, { spaceAfter: 0 })),
+  ];
+  return createDocx(paragraphs);
+}
+
+export const referralFileName = (letter: ReferralLetter, patient: Patient, extension: 'pdf' | 'docx') =>
+  `${patient.name.replace(/\s+/g, '_')}_Referral_${(letter.specialty || 'letter').replace(/[^A-Za-z0-9]+/g, '_').replace(/^_|_$/g, '')}_${letter.updatedAt.split('T')[0]}.${extension}`;
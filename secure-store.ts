@@ -0,0 +1,134 @@
+/**
+ * @license
+ * SPDX-License-Identifier: Apache-2.0
+*/
+
+// Passphrase-based encryption for data kept in browser storage.
+// A key is derived with PBKDF2 (SHA-256) and used for AES-GCM. The salt and
+// iteration count travel with every envelope so the key can be re-derived at unlock.
+
+const PBKDF2_ITERATIONS = 310000;
+// Iteration counts accepted from an envelope. The bounds stop a crafted file from asking for so many
+// iterations that deriving its key hangs the tab.
+const MIN_PBKDF2_ITERATIONS = 100000;
+const MAX_PBKDF2_ITERATIONS = 5000000;
+const SALT_BYTES = 16;
+const IV_BYTES = 12;
+
+// Define the structure of an encrypted payload as written to storage
+export interface EncryptedEnvelope {
+  format: 'hx-enc';
+  version: 1;
+  kdf: { name: 'PBKDF2'; hash: 'SHA-256'; iterations: number; salt: string };
+  cipher: { name: 'AES-GCM'; iv: string };
+  data: string;
+}
+
+// A derived key together with the parameters needed to describe it in an envelope
+export interface StoreKey {
+  key: CryptoKey;
+  salt: Uint8Array;
+  iterations: number;
+}
+
+export const bytesToBase64 = (bytes: Uint8Array): string => {
+  let binary = '';
+  for (let i = 0; i < bytes.length; i++) {
+    binary += String.fromCharCode(bytes[i]);
+  }
+  return btoa(binary);
+};
+
+export const base64ToBytes = (base64: string): Uint8Array => {
+  const binary = atob(base64);
+  const bytes = new Uint8Array(binary.length);
+  for (let i = 0; i < binary.length; i++) {
+    bytes[i] = binary.charCodeAt(i);
+  }
+  return bytes;
+};
+
+export const randomBytes = (length: number): Uint8Array =>
+  crypto.getRandomValues(new Uint8Array(length));
+
+export function isEncryptedEnvelope(value: unknown): value is EncryptedEnvelope {
+  const candidate = value as EncryptedEnvelope | null;
+  return !!candidate
+    && typeof candidate === 'object'
+    && candidate.format === 'hx-enc'
+    && typeof candidate.data === 'string'
+    && typeof candidate.kdf?.salt === 'string'
+    && typeof candidate.cipher?.iv === 'string';
+}
+
+export async function deriveStoreKey(
+  passphrase: string,
+  salt: Uint8Array = randomBytes(SALT_BYTES),
+  iterations: number = PBKDF2_ITERATIONS,
+): Promise<StoreKey> {
+  const baseKey = await crypto.subtle.importKey(
+    'raw',
+    new TextEncoder().encode(passphrase),
+    'PBKDF2',
+    false,
+    ['deriveKey'],
+  );
+  const key = await crypto.subtle.deriveKey(
+    { name: 'PBKDF2', hash: 'SHA-256', salt, iterations },
+    baseKey,
+    { name: 'AES-GCM', length: 256 },
+    false,
+    ['encrypt', 'decrypt'],
+  );
+  return { key, salt, iterations };
+}
+
+export const hasSupportedKdf = (envelope: EncryptedEnvelope) =>
+  Number.isInteger(envelope.kdf.iterations)
+  && envelope.kdf.iterations >= MIN_PBKDF2_ITERATIONS
+  && envelope.kdf.iterations <= MAX_PBKDF2_ITERATIONS;
+
+// Derive the key for an existing envelope using the salt and iterations it was written with
+export async function deriveKeyForEnvelope(passphrase: string, envelope: EncryptedEnvelope): Promise<StoreKey> {
+  if (!hasSupportedKdf(envelope)) throw new Error(`Unsupported key derivation iteration count: ${envelope.kdf.iterations}`);
+  return deriveStoreKey(passphrase, base64ToBytes(envelope.kdf.salt), envelope.kdf.iterations);
+}
+
+export async function encryptJson(value: unknown, storeKey: StoreKey): Promise<EncryptedEnvelope> {
+  const iv = randomBytes(IV_BYTES);
+  const plaintext = new TextEncoder().encode(JSON.stringify(value));
+  const ciphertext = await crypto.subtle.encrypt({ name: 'AES-GCM', iv }, storeKey.key, plaintext);
+  return {
+    format: 'hx-enc',
+    version: 1,
+    kdf: { name: 'PBKDF2', hash: 'SHA-256', iterations: storeKey.iterations, salt: bytesToBase64(storeKey.salt) },
+    cipher: { name: 'AES-GCM', iv: bytesToBase64(iv) },
+    data: bytesToBase64(new Uint8Array(ciphertext)),
+  };
+}
+
+// Throws if the key is wrong or the payload has been tampered with (AES-GCM authentication failure)
+export async function decryptJson<T>(envelope: EncryptedEnvelope, storeKey: StoreKey): Promise<T> {
+  const plaintext = await crypto.subtle.decrypt(
+    { name: 'AES-GCM', iv: base64ToBytes(envelope.cipher.iv) },
+    storeKey.key,
+    base64ToBytes(envelope.data),
+  );
+  return JSON.parse(new TextDecoder().decode(plaintext));
+}
+
+// Binary payloads (e.g. uploaded documents) are encrypted with the same key but kept as raw bytes
+export interface EncryptedBytes {
+  iv: Uint8Array;
+  data: ArrayBuffer;
+}
+
+export async function encryptBytes(bytes: ArrayBuffer, storeKey: StoreKey): Promise<EncryptedBytes> {
+  const iv = randomBytes(IV_BYTES);
+  const data = await crypto.subtle.encrypt({ name: 'AES-GCM', iv }, storeKey.key, bytes);
+  return { iv, data };
+}
+
+export function decryptBytes(encrypted: EncryptedBytes, storeKey: StoreKey): Promise<ArrayBuffer> {
+  return crypto.subtle.decrypt({ name: 'AES-GCM', iv: encrypted.iv }, storeKey.key, encrypted.data);
+}
@@ -0,0 +1,254 @@
+/**
+ * @license
+ * SPDX-License-Identifier: Apache-2.0
+*/
+
+// Local proxy that holds the Gemini API key so it never reaches the browser bundle.
+// The React app posts prompts to the task endpoints below; this server forwards them
+// to Gemini, applies per-user rate limiting and logs request metadata (never content).
+//
+//   GEMINI_API_KEY=... npm run proxy
+//
+import fs from 'fs';
+import http from 'http';
+import path from 'path';
+import { GoogleGenAI } from '@google/genai';
+
+// Read KEY=value lines from .env.local so the proxy shares the config file used by Vite
+function loadEnvFile(file) {
+  if (!fs.existsSync(file)) return;
+  for (const line of fs.readFileSync(file, 'utf8').split('\n')) {
+    const match = line.match(/^\s*([A-Za-z_][A-Za-z0-9_]*)\s*=\s*(.*?)\s*$/);
+    if (match && process.env[match[1]] === undefined) {
+      process.env[match[1]] = match[2].replace(/^(['"])(.*)\1$/, '$2');
+    }
+  }
+}
+loadEnvFile(path.resolve(process.cwd(), '.env.local'));
+
+const config = {
+  port: Number(process.env.PROXY_PORT || 8787),
+  // Loopback only by default: this process holds the API key
+  host: process.env.PROXY_HOST || '127.0.0.1',
+  apiKey: process.env.GEMINI_API_KEY,
+  allowedOrigin: process.env.PROXY_ALLOWED_ORIGIN || 'http://localhost:3000',
+  allowedModels: (process.env.PROXY_ALLOWED_MODELS || 'gemini-2.5-flash,gemini-2.5-pro,gemini-2.5-flash-lite')
+    .split(',').map(model => model.trim()).filter(Boolean),
+  rateLimitPerMinute: Number(process.env.PROXY_RATE_LIMIT_PER_MINUTE || 20),
+  clientRateLimitPerMinute: Number(process.env.PROXY_CLIENT_RATE_LIMIT_PER_MINUTE || 120),
+  maxBodyBytes: Number(process.env.PROXY_MAX_BODY_MB || 25) * 1024 * 1024,
+};
+
+// One endpoint per clinical task. Summary updates share the summarise endpoint.
+const ENDPOINTS = {
+  '/api/summarise': 'summarise',
+  '/api/insights': 'insights',
+  '/api/differentials': 'differentials',
+  '/api/referral': 'referral',
+  '/api/triage': 'triage',
+};
+
+class HttpError extends Error {
+  constructor(status, message, headers = {}) {
+    super(message);
+    this.status = status;
+    this.headers = headers;
+  }
+}
+
+// --- Rate limiting: sliding one-minute windows per user, within a coarser one per client address ---
+//
+// The user id comes from the X-Hx-User header, which the app sends for the signed-in clinician. The
+// caller can set it to anything, so each address also has an overall limit that a stream of made-up
+// user ids cannot get past. Behind the Vite dev proxy every request comes from the same address, so
+// the address limit is set well above the per-user one.
+
+const requestLog = new Map();
+
+function checkRateLimit(buckets) {
+  const now = Date.now();
+  const windows = buckets.map(({ key, limit }) => ({
+    key,
+    limit,
+    recent: (requestLog.get(key) || []).filter(time => now - time < 60000),
+  }));
+  const full = windows.find(window => window.recent.length >= window.limit);
+  windows.forEach(window => {
+    // A refused request does not count against any window
+    if (!full) window.recent.push(now);
+    requestLog.set(window.key, window.recent);
+  });
+  if (full) return { allowed: false, retryAfterSeconds: Math.ceil((60000 - (now - full.recent[0])) / 1000) };
+  return { allowed: true, retryAfterSeconds: 0 };
+}
+
+// --- Request logging: metadata only, no prompts, documents or responses ---
+
+function logRequest(entry) {
+  console.log(JSON.stringify({ time: new Date().toISOString(), ...entry }));
+}
+
+// --- Helpers ---
+
+function readJsonBody(req) {
+  return new Promise((resolve, reject) => {
+    const chunks = [];
+    let size = 0;
+    req.on('data', chunk => {
+      size += chunk.length;
+      if (size > config.maxBodyBytes) {
+        reject(new HttpError(413, 'Request body too large.'));
+        req.destroy();
+        return;
+      }
+      chunks.push(chunk);
+    });
+    req.on('end', () => {
+      try {
+        resolve(JSON.parse(Buffer.concat(chunks).toString('utf8')));
+      } catch {
+        reject(new HttpError(400, 'Request body must be valid JSON.'));
+      }
+    });
+    req.on('error', reject);
+  });
+}
+
+function validateRequest(body) {
+  if (!body || typeof body !== 'object') {
+    throw new HttpError(400, 'Missing request body.');
+  }
+  if (!config.allowedModels.includes(body.model)) {
+    throw new HttpError(400, `Model "${body.model}" is not allowed by this proxy.`);
+  }
+  if (!Array.isArray(body.parts) || body.parts.length === 0) {
+    throw new HttpError(400, 'Request must include at least one content part.');
+  }
+  for (const part of body.parts) {
+    const isText = typeof part?.text === 'string';
+    const isInline = typeof part?.inlineData?.mimeType === 'string' && typeof part?.inlineData?.data === 'string';
+    if (!isText && !isInline) {
+      throw new HttpError(400, 'Each part must be text or inline data.');
+    }
+  }
+}
+
+function sendJson(res, status, payload, headers = {}) {
+  res.writeHead(status, { 'Content-Type': 'application/json', ...headers });
+  res.end(JSON.stringify(payload));
+}
+
+function setCorsHeaders(res) {
+  res.setHeader('Access-Control-Allow-Origin', config.allowedOrigin);
+  res.setHeader('Access-Control-Allow-Methods', 'POST, OPTIONS');
+  res.setHeader('Access-Control-Allow-Headers', 'Content-Type, X-Hx-User');
+  res.setHeader('Vary', 'Origin');
+}
+
+// --- Server ---
+
+const ai = new GoogleGenAI({ apiKey: config.apiKey });
+
+// Stream the response as newline-delimited JSON: one {"text": chunk} line per chunk.
+// Stops pulling from Gemini as soon as the client disconnects (e.g. the user cancelled).
+async function streamGeneration(request, res) {
+  let clientGone = false;
+  res.on('close', () => {
+    if (!res.writableEnded) clientGone = true;
+  });
+  res.writeHead(200, { 'Content-Type': 'application/x-ndjson', 'Cache-Control': 'no-cache' });
+  try {
+    const stream = await ai.models.generateContentStream(request);
+    for await (const chunk of stream) {
+      if (clientGone) break;
+      if (chunk.text) res.write(`${JSON.stringify({ text: chunk.text })}\n`);
+    }
+  } catch (err) {
+    // Headers are already sent, so report the failure in-band
+    console.error('stream upstream error:', err?.message || err);
+    if (!clientGone) res.write(`${JSON.stringify({ error: 'The model provider request failed.' })}\n`);
+  }
+  res.end();
+  return { streamed: true, cancelled: clientGone };
+}
+
+async function handleTask(task, req, res, stream) {
+  const client = req.socket.remoteAddress || 'unknown';
+  const user = req.headers['x-hx-user'] || 'anonymous';
+  const limit = checkRateLimit([
+    { key: `client:${client}`, limit: config.clientRateLimitPerMinute },
+    { key: `user:${client}:${user}`, limit: config.rateLimitPerMinute },
+  ]);
+  if (!limit.allowed) {
+    throw new HttpError(429, `Rate limit exceeded. Try again in ${limit.retryAfterSeconds}s.`, {
+      'Retry-After': String(limit.retryAfterSeconds),
+    });
+  }
+
+  const body = await readJsonBody(req);
+  validateRequest(body);
+
+  const request = {
+    model: body.model,
+    contents: { parts: body.parts },
+    config: body.responseSchema
+      ? { responseMimeType: 'application/json', responseSchema: body.responseSchema }
+      : undefined,
+  };
+  if (stream) {
+    return { model: body.model, parts: body.parts.length, ...(await streamGeneration(request, res)) };
+  }
+  const result = await ai.models.generateContent(request);
+  sendJson(res, 200, { text: result.text });
+  return { model: body.model, parts: body.parts.length };
+}
+
+const server = http.createServer(async (req, res) => {
+  const startedAt = Date.now();
+  const url = new URL(req.url || '/', 'http://localhost');
+  const task = ENDPOINTS[url.pathname];
+  setCorsHeaders(res);
+
+  if (req.method === 'OPTIONS') {
+    res.writeHead(204);
+    res.end();
+    return;
+  }
+  if (url.pathname === '/api/health') {
+    sendJson(res, 200, { ok: true, models: config.allowedModels });
+    return;
+  }
+
+  let details = {};
+  try {
+    if (!task) throw new HttpError(404, 'Not found.');
+    if (req.method !== 'POST') throw new HttpError(405, 'Method not allowed.');
+    details = await handleTask(task, req, res, url.searchParams.get('stream') === '1');
+  } catch (err) {
+    const status = err instanceof HttpError ? err.status : 502;
+    const message = err instanceof HttpError ? err.message : 'The model provider request failed.';
+    if (!(err instanceof HttpError)) console.error(`[${task}] upstream error:`, err?.message || err);
+    details = { error: message };
+    sendJson(res, status, { error: message }, err instanceof HttpError ? err.headers : {});
+  } finally {
+    logRequest({
+      method: req.method,
+      path: url.pathname,
+      task,
+      client: req.socket.remoteAddress || null,
+      user: req.headers['x-hx-user'] || null,
+      status: res.statusCode,
+      durationMs: Date.now() - startedAt,
+      ...details,
+    });
+  }
+});
+
+if (!config.apiKey) {
+  console.error('GEMINI_API_KEY is not set. Add it to .env.local or the environment before starting the proxy.');
+  process.exit(1);
+}
+
+server.listen(config.port, config.host, () => {
+  console.log(`Hx Summariser proxy listening on http://${config.host}:${config.port} (models: ${config.allowedModels.join(', ')})`);
+});
@@ -0,0 +1,171 @@
+/**
+ * @license
+ * SPDX-License-Identifier: Apache-2.0
+*/
+import { KEY_CHANGES_SECTION, SummaryTemplate, sectionOrder } from './summary-templates';
+import { StructuredResponse, SummarySectionKey } from './types';
+
+// Section-by-section comparison of two summaries, computed locally so it does not depend on the
+// model. 'Key Changes' is the model's own account of what changed, so it is checked against the
+// diff rather than diffed itself.
+
+export type ItemChange = 'added' | 'removed' | 'modified' | 'unchanged';
+
+export const ITEM_CHANGE_LABELS: Record<ItemChange, string> = {
+  added: 'Added',
+  removed: 'Removed',
+  modified: 'Modified',
+  unchanged: 'Unchanged',
+};
+
+export interface DiffWord {
+  text: string;
+  change: 'same' | 'added' | 'removed';
+}
+
+export interface ItemDiff {
+  change: ItemChange;
+  before?: string; // Absent for added items
+  after?: string; // Absent for removed items
+  words?: DiffWord[]; // Word-level changes for modified items
+}
+
+export interface SectionDiff {
+  section: SummarySectionKey;
+  items: ItemDiff[];
+}
+
+// 'unreported': a change the Key Changes list does not mention.
+// 'unsupported': a Key Changes claim with no matching change in the summaries.
+export interface KeyChangeDiscrepancy {
+  kind: 'unreported' | 'unsupported';
+  text: string;
+  section?: SummarySectionKey; // Set for unreported changes
+  change?: ItemChange;
+}
+
+// Items at least this similar (shared words over all words) are treated as one item reworded
+const MODIFIED_SIMILARITY = 0.4;
+
+const normalise = (text: string) => text.toLowerCase().replace(/\s+/g, ' ').replace(/[.\s]+$/, '').trim();
+
+const words = (text: string) => normalise(text).split(/[^a-z0-9%/.-]+/).map(word => word.replace(/^[./-]+|[./-]+$/g, '')).filter(Boolean);
+
+function similarity(a: string, b: string): number {
+  const first = new Set(words(a));
+  const second = new Set(words(b));
+  if (first.size === 0 || second.size === 0) return 0;
+  const shared = [...first].filter(word => second.has(word)).length;
+  return shared / (first.size + second.size - shared);
+}
+
+// Longest-common-subsequence word diff between an item's old and new wording
+export function diffWords(before: string, after: string): DiffWord[] {
+  const a = before.trim().split(/\s+/);
+  const b = after.trim().split(/\s+/);
+  const same = (x: string, y: string) => x.toLowerCase() === y.toLowerCase();
+  const lengths = Array.from({ length: a.length + 1 }, () => new Array<number>(b.length + 1).fill(0));
+  for (let i = a.length - 1; i >= 0; i--) {
+    for (let j = b.length - 1; j >= 0; j--) {
+      lengths[i][j] = same(a[i], b[j]) ? lengths[i + 1][j + 1] + 1 : Math.max(lengths[i + 1][j], lengths[i][j + 1]);
+    }
+  }
+  const result: DiffWord[] = [];
+  let i = 0;
+  let j = 0;
+  while (i < a.length || j < b.length) {
+    if (i < a.length && j < b.length && same(a[i], b[j])) {
+      result.push({ text: b[j], change: 'same' });
+      i++;
+      j++;
+    } else if (j < b.length && (i === a.length || lengths[i][j + 1] >= lengths[i + 1][j])) {
+      result.push({ text: b[j], change: 'added' });
+      j++;
+    } else {
+      result.push({ text: a[i], change: 'removed' });
+      i++;
+    }
+  }
+  return result;
+}
+
+// Diff two lists of bullets. Entries for the new list come first, in its order; removed items follow.
+export function diffItems(before: string[], after: string[]): ItemDiff[] {
+  const unused = [...before];
+  const take = (index: number) => unused.splice(index, 1)[0];
+
+  // Exact matches first, so a reworded item is never paired with one that is still present unchanged
+  const matched = after.map(text => {
+    const index = unused.findIndex(candidate => normalise(candidate) === normalise(text));
+    return index === -1 ? undefined : take(index);
+  });
+
+  const items = after.map((text, position): ItemDiff => {
+    if (matched[position] !== undefined) return { change: 'unchanged', before: matched[position], after: text };
+    let best = -1;
+    let bestScore = MODIFIED_SIMILARITY;
+    unused.forEach((candidate, index) => {
+      const score = similarity(candidate, text);
+      if (score >= bestScore) {
+        best = index;
+        bestScore = score;
+      }
+    });
+    if (best === -1) return { change: 'added', after: text };
+    const previous = take(best);
+    return { change: 'modified', before: previous, after: text, words: diffWords(previous, text) };
+  });
+
+  return [...items, ...unused.map((text): ItemDiff => ({ change: 'removed', before: text }))];
+}
+
+// Sections follow the newer summary's template; sections only the older summary has (e.g. after
+// a change of template) come last, with every item removed
+export function diffSummaries(older: Partial<StructuredResponse>, newer: Partial<StructuredResponse>, template?: SummaryTemplate): SectionDiff[] {
+  const sections = [...new Set([...sectionOrder(newer, template), ...Object.keys(older)])].filter(section => section !== KEY_CHANGES_SECTION);
+  return sections.map(section => ({
+    section,
+    items: diffItems(older[section] || [], newer[section] || []),
+  }));
+}
+
+export const hasChanges = (diff: SectionDiff[]) => diff.some(section => section.items.some(item => item.change !== 'unchanged'));
+
+// Words too common in clinical bullets to link a Key Changes claim to a change
+const STOP_WORDS = new Set([
+  'the', 'and', 'for', 'with', 'from', 'into', 'that', 'this', 'was', 'were', 'has', 'have', 'had', 'now', 'new', 'since',
+  'patient', 'noted', 'previous', 'previously', 'summary', 'added', 'removed', 'changed', 'updated', 'started', 'stopped',
+]);
+
+// Doses and values ("1g", "5mg") count however short they are
+const keyWords = (text: string) => new Set(words(text).filter(word => (word.length > 2 || /\d/.test(word)) && !STOP_WORDS.has(word)));
+
+// Whether a Key Changes bullet is about an item: two shared key words, or most of the shorter text's
+function mentions(claim: string, item: string): boolean {
+  const first = keyWords(claim);
+  const second = keyWords(item);
+  const shared = [...first].filter(word => second.has(word)).length;
+  return shared >= 2 || (shared > 0 && shared / Math.min(first.size, second.size) >= 0.5);
+}
+
+// Compare the newer summary's Key Changes against the local diff. Key Changes describe changes since
+// the immediately preceding summary, so this is only meaningful for consecutive summaries.
+export function checkKeyChanges(diff: SectionDiff[], keyChanges: string[]): KeyChangeDiscrepancy[] {
+  const changes = diff.flatMap(section => section.items
+    .filter(item => item.change !== 'unchanged')
+    .map(item => ({ section: section.section, item })));
+  const changeText = ({ item }: { item: ItemDiff }) => [item.before, item.after].filter(Boolean).join(' ');
+
+  const unreported = changes
+    .filter(change => !keyChanges.some(claim => mentions(claim, changeText(change))))
+    .map((change): KeyChangeDiscrepancy => ({
+      kind: 'unreported',
+      text: change.item.after || change.item.before || '',
+      section: change.section,
+      change: change.item.change,
+    }));
+  const unsupported = keyChanges
+    .filter(claim => !changes.some(change => mentions(claim, changeText(change))))
+    .map((claim): KeyChangeDiscrepancy => ({ kind: 'unsupported', text: claim }));
+  return [...unreported, ...unsupported];
+}
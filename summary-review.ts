@@ -0,0 +1,147 @@
+/**
+ * @license
+ * SPDX-License-Identifier: Apache-2.0
+*/
+import { CurrentUser } from './user-accounts';
+import { DraftItem, Medication, Patient, StructuredResponse, SummaryDraft, SummaryItemMetaMap, SummaryRecord, SummaryInput, SummarySectionKey, SummarySource } from './types';
+
+// Review helpers for generated summaries. A draft keeps every bullet with its origin
+// so the approved record can show which items the model wrote and which a clinician changed.
+
+// Match texts back to the draft items they came from, so post-processing that
+// filters or appends items does not lose per-item origins. Unmatched texts are standard wording.
+function reconcileItems(items: DraftItem[], texts: string[]): DraftItem[] {
+  const unused = [...items];
+  return texts.map(text => {
+    const matchIndex = unused.findIndex(item => item.text === text);
+    if (matchIndex === -1) return { text, origin: 'standard' };
+    return unused.splice(matchIndex, 1)[0];
+  });
+}
+
+// Build a draft from the model's (cited) items and the post-processed summary
+export function createDraft(
+  generated: Partial<Record<SummarySectionKey, DraftItem[]>>,
+  processed: Partial<StructuredResponse>,
+  status: SummaryDraft['status'],
+  sources: SummarySource[],
+  input: SummaryInput,
+  medications?: Medication[],
+): SummaryDraft {
+  const sections: SummaryDraft['sections'] = {};
+  Object.keys(processed).forEach(key => {
+    const texts = processed[key];
+    if (!Array.isArray(texts)) return;
+    sections[key] = reconcileItems(generated[key] || [], texts);
+  });
+  return { sections, rejectedItems: [], sources, input, ...(medications ? { medications } : {}), timestamp: new Date().toISOString(), status };
+}
+
+export function draftToSummary(draft: SummaryDraft): Partial<StructuredResponse> {
+  const summary: Partial<StructuredResponse> = {};
+  Object.keys(draft.sections).forEach(key => {
+    const items = draft.sections[key];
+    if (items) summary[key] = items.map(item => item.text);
+  });
+  return summary;
+}
+
+const replaceSection = (draft: SummaryDraft, section: SummarySectionKey, items: DraftItem[]): SummaryDraft => ({
+  ...draft,
+  sections: { ...draft.sections, [section]: items },
+});
+
+export function editDraftItem(draft: SummaryDraft, section: SummarySectionKey, index: number, text: string): SummaryDraft {
+  const items = [...(draft.sections[section] || [])];
+  const item = items[index];
+  if (!item) return draft;
+
+  if (item.origin === 'clinician') {
+    items[index] = { ...item, text };
+  } else if (item.origin === 'imported') {
+    // Imported data stays attributed to its source; the imported wording is kept while the text differs
+    const { originalText: imported = item.text, ...rest } = item;
+    items[index] = text === imported ? { ...rest, text } : { ...rest, text, originalText: imported };
+  } else {
+    // Keep the generated wording so the record can show what was changed; the citation still applies
+    const originalText = item.originalText ?? item.text;
+    const citation = item.citation ? { citation: item.citation } : {};
+    items[index] = text === originalText
+      ? { text, origin: item.origin === 'edited' ? 'ai' : item.origin, ...citation }
+      : { text, origin: 'edited', originalText, ...citation };
+  }
+  return replaceSection(draft, section, items);
+}
+
+export function removeDraftItem(draft: SummaryDraft, section: SummarySectionKey, index: number): SummaryDraft {
+  const items = [...(draft.sections[section] || [])];
+  const [removed] = items.splice(index, 1);
+  if (!removed) return draft;
+
+  const updated = replaceSection(draft, section, items);
+  if (removed.origin === 'ai' || removed.origin === 'edited') {
+    updated.rejectedItems = [...draft.rejectedItems, { section, text: removed.originalText ?? removed.text }];
+  }
+  return updated;
+}
+
+export function addDraftItem(draft: SummaryDraft, section: SummarySectionKey): SummaryDraft {
+  return replaceSection(draft, section, [...(draft.sections[section] || []), { text: '', origin: 'clinician' }]);
+}
+
+// Turn a reviewed draft into a history record signed off by the approving clinician.
+// `finalise` applies the same post-processing used for generated output (e.g. safety netting).
+export function approveDraft(
+  draft: SummaryDraft,
+  finalise: (summary: Partial<StructuredResponse>) => StructuredResponse,
+  approver: CurrentUser,
+): SummaryRecord {
+  const trimmedSections: SummaryDraft['sections'] = {};
+  Object.keys(draft.sections).forEach(key => {
+    const items = draft.sections[key];
+    if (items) {
+      trimmedSections[key] = items
+        .map(item => ({ ...item, text: item.text.trim() }))
+        .filter(item => item.text);
+    }
+  });
+
+  const summary = finalise(draftToSummary({ ...draft, sections: trimmedSections }));
+  const itemMeta: SummaryItemMetaMap = {};
+  Object.keys(summary).forEach(key => {
+    const texts = summary[key];
+    if (!Array.isArray(texts)) return;
+    itemMeta[key] = reconcileItems(trimmedSections[key] || [], texts)
+      .map(({ origin, originalText, citation }) => ({
+        origin,
+        ...(originalText ? { originalText } : {}),
+        ...(citation ? { citation } : {}),
+      }));
+  });
+
+  return {
+    summary,
+    timestamp: draft.timestamp,
+    approval: {
+      approvedBy: { id: approver.id, displayName: approver.displayName },
+      approvedAt: new Date().toISOString(),
+    },
+    itemMeta,
+    ...(draft.sources && draft.sources.length > 0 ? { sources: draft.sources } : {}),
+    ...(draft.input ? { input: draft.input } : {}),
+    ...(draft.medications ? { medications: draft.medications } : {}),
+    ...(draft.redFlags ? { redFlags: draft.redFlags } : {}),
+    ...(draft.templateId ? { templateId: draft.templateId } : {}),
+    ...(draft.promptVersion ? { promptVersion: draft.promptVersion } : {}),
+    ...(draft.rejectedItems.length > 0 ? { rejectedItems: draft.rejectedItems } : {}),
+  };
+}
+
+// Attachment ids owned by a record or draft, for deleting the stored blobs along with it
+export function attachmentIdsOf(item: { input?: SummaryInput }): string[] {
+  return item.input ? item.input.attachments.map(attachment => attachment.id) : [];
+}
+
+export function patientAttachmentIds(patient: Patient): string[] {
+  return [...patient.summaries, ...(patient.draft ? [patient.draft] : [])].flatMap(attachmentIdsOf);
+}
@@ -0,0 +1,27 @@
+/**
+ * @license
+ * SPDX-License-Identifier: Apache-2.0
+*/
+import { describe, expect, it } from 'vitest';
+import { DEFAULT_SUMMARY_RULES, SummaryRuleError, parseSummaryRules, runRuleTests } from './summary-rules';
+
+// The test cases bundled with each default rule, so a broken default fails here instead of shipping.
+// Edited rules are tested in the app when Settings are saved.
+describe('DEFAULT_SUMMARY_RULES', () => {
+  it.each(DEFAULT_SUMMARY_RULES.map(rule => [rule.id, rule] as const))('%s passes its own test cases', (_id, rule) => {
+    expect(rule.tests.length).toBeGreaterThan(0);
+    expect(runRuleTests([rule])).toEqual([]);
+  });
+});
+
+describe('parseSummaryRules', () => {
+  it('reads back the default rules unchanged', () => {
+    expect(parseSummaryRules(JSON.parse(JSON.stringify(DEFAULT_SUMMARY_RULES)))).toEqual(DEFAULT_SUMMARY_RULES);
+  });
+
+  it('rejects a test whose expected summary is not lists of text', () => {
+    const [rule] = JSON.parse(JSON.stringify(DEFAULT_SUMMARY_RULES));
+    rule.tests[0].expected = { 'Acute Issues': [1] };
+    expect(() => parseSummaryRules([rule])).toThrow(SummaryRuleError);
+  });
+});
@@ -0,0 +1,303 @@
+/**
+ * @license
+ * SPDX-License-Identifier: Apache-2.0
+*/
+import { StructuredResponse, SummarySectionKey } from './types';
+
+// Post-processing applied to every generated summary, declared as data so a practice can edit it.
+// Each rule has match conditions and section-specific insert, replace and remove actions, and
+// carries its own test cases: an example summary and the result the rule must produce. The tests
+// run whenever the rules are edited, and rules whose tests fail cannot be saved. `npm test` runs the
+// default rules' tests.
+
+export const PLAN_SECTION: SummarySectionKey = 'Pending Tasks and action Plan';
+
+// Rules name the sections of the standard template. For summaries from other templates this maps
+// those names onto the template's own sections; null means the template has no such section.
+export type RuleSectionMap = Record<SummarySectionKey, SummarySectionKey | null>;
+
+// Holds when an item in the section (or in any section) matches the pattern; `absent` inverts it
+export interface RuleCondition {
+  section?: SummarySectionKey;
+  pattern: string;
+  absent?: boolean;
+}
+
+export type RuleAction =
+  // Add the text unless an identical item is already there
+  | { type: 'insert'; section: SummarySectionKey; text: string; position?: 'start' | 'end' }
+  // Replace the matching part of each item's text
+  | { type: 'replace'; section?: SummarySectionKey; pattern: string; text: string }
+  // Drop items that match
+  | { type: 'remove'; section?: SummarySectionKey; pattern: string };
+
+export interface RuleTest {
+  description: string;
+  input: Partial<StructuredResponse>;
+  expected: Partial<StructuredResponse>;
+}
+
+export interface SummaryRule {
+  id: string;
+  name: string;
+  enabled: boolean;
+  // Every condition must hold; no conditions means the rule always applies
+  when: RuleCondition[];
+  actions: RuleAction[];
+  tests: RuleTest[];
+}
+
+export interface RuleTestFailure {
+  ruleId: string;
+  description: string;
+  actual: Partial<StructuredResponse>;
+}
+
+export class SummaryRuleError extends Error {}
+
+export const STANDARD_SAFETY_NETTING = "If symptoms worsen, or if new symptoms develop, please seek urgent medical advice by calling 111, your GP surgery, or 999 in an emergency.";
+
+const SEPSIS_SAFETY_NETTING = "Sepsis red flags: call 999 if there is new confusion or slurred speech, very fast breathing, mottled, blue or very pale skin, a rash that does not fade when pressed, or no urine passed in 18 hours.";
+const CHEST_PAIN_SAFETY_NETTING = "Chest pain red flags: call 999 if chest pain lasts more than 15 minutes, is not relieved by GTN, or comes with sweating, nausea, breathlessness or collapse.";
+
+// General advice the model words in its own way, replaced by the standard wording. Condition-specific
+// advice that mentions 999 is kept.
+const GENERIC_SAFETY_NETTING_PATTERN = '\\b(?:symptoms?\\s+(?:worsen|get worse|deteriorate)|new symptoms\\s+develop)\\b.*\\b(?:seek|call|contact)\\b';
+
+export const DEFAULT_SUMMARY_RULES: SummaryRule[] = [
+  {
+    id: 'nhs-111-wording',
+    name: 'Refer to NHS 111 rather than the retired NHS Direct',
+    enabled: true,
+    when: [],
+    actions: [{ type: 'replace', pattern: '\\bNHS Direct\\b', text: 'NHS 111' }],
+    tests: [
+      {
+        description: 'Replaces NHS Direct in any section',
+        input: { [PLAN_SECTION]: ['Call NHS Direct out of hours'], 'Acute Issues': ['Cough'] },
+        expected: { [PLAN_SECTION]: ['Call NHS 111 out of hours'], 'Acute Issues': ['Cough'] },
+      },
+    ],
+  },
+  {
+    id: 'sepsis-red-flags',
+    name: 'Sepsis red-flag safety netting',
+    enabled: true,
+    when: [{ section: 'Acute Issues', pattern: '\\b(?:sepsis|septic(?:aemia)?|urosepsis)\\b' }],
+    actions: [{ type: 'insert', section: PLAN_SECTION, text: SEPSIS_SAFETY_NETTING, position: 'end' }],
+    tests: [
+      {
+        description: 'Adds sepsis red flags when sepsis is an acute issue',
+        input: { 'Acute Issues': ['Possible urosepsis'], [PLAN_SECTION]: ['Started on cefalexin'] },
+        expected: { 'Acute Issues': ['Possible urosepsis'], [PLAN_SECTION]: ['Started on cefalexin', SEPSIS_SAFETY_NETTING] },
+      },
+      {
+        description: 'Does nothing when sepsis is only past history',
+        input: { 'Past medical history': ['Sepsis 2019'], [PLAN_SECTION]: [] },
+        expected: { 'Past medical history': ['Sepsis 2019'], [PLAN_SECTION]: [] },
+      },
+    ],
+  },
+  {
+    id: 'chest-pain-red-flags',
+    name: 'Chest pain red-flag safety netting',
+    enabled: true,
+    when: [{ section: 'Acute Issues', pattern: '\\b(?:chest pain|angina|acute coronary syndrome)\\b' }],
+    actions: [{ type: 'insert', section: PLAN_SECTION, text: CHEST_PAIN_SAFETY_NETTING, position: 'end' }],
+    tests: [
+      {
+        description: 'Adds chest pain red flags when chest pain is an acute issue',
+        input: { 'Acute Issues': ['Atypical chest pain'], [PLAN_SECTION]: ['ECG today'] },
+        expected: { 'Acute Issues': ['Atypical chest pain'], [PLAN_SECTION]: ['ECG today', CHEST_PAIN_SAFETY_NETTING] },
+      },
+      {
+        description: 'Does not add the advice twice',
+        input: { 'Acute Issues': ['Angina'], [PLAN_SECTION]: [CHEST_PAIN_SAFETY_NETTING] },
+        expected: { 'Acute Issues': ['Angina'], [PLAN_SECTION]: [CHEST_PAIN_SAFETY_NETTING] },
+      },
+    ],
+  },
+  {
+    id: 'standard-safety-netting',
+    name: 'Standard safety-netting advice at the end of the plan',
+    enabled: true,
+    when: [],
+    actions: [
+      { type: 'remove', section: PLAN_SECTION, pattern: GENERIC_SAFETY_NETTING_PATTERN },
+      { type: 'insert', section: PLAN_SECTION, text: STANDARD_SAFETY_NETTING, position: 'end' },
+    ],
+    tests: [
+      {
+        description: "Replaces the model's own general safety netting with the standard wording",
+        input: { [PLAN_SECTION]: ['Review in 2 weeks', 'If symptoms worsen, seek medical advice'] },
+        expected: { [PLAN_SECTION]: ['Review in 2 weeks', STANDARD_SAFETY_NETTING] },
+      },
+      {
+        description: 'Keeps other items that mention 999',
+        input: { [PLAN_SECTION]: ['Call 999 if lip or tongue swelling develops'] },
+        expected: { [PLAN_SECTION]: ['Call 999 if lip or tongue swelling develops', STANDARD_SAFETY_NETTING] },
+      },
+      {
+        description: 'Keeps the standard wording last when applied again',
+        input: { [PLAN_SECTION]: [STANDARD_SAFETY_NETTING, 'Bloods in 1 week'] },
+        expected: { [PLAN_SECTION]: ['Bloods in 1 week', STANDARD_SAFETY_NETTING] },
+      },
+    ],
+  },
+];
+
+const SUMMARY_RULES_STORAGE_KEY = 'hx_summary_rules';
+
+const toRegExp = (pattern: string) => new RegExp(pattern, 'i');
+
+const resolveSection = (section: SummarySectionKey, sections: RuleSectionMap) => (section in sections ? sections[section] : section);
+
+const sectionsFor = (summary: Partial<StructuredResponse>, sections: RuleSectionMap, section?: SummarySectionKey) => {
+  if (!section) return Object.keys(summary).filter(key => Array.isArray(summary[key]));
+  const resolved = resolveSection(section, sections);
+  return resolved ? [resolved] : [];
+};
+
+function conditionHolds(summary: Partial<StructuredResponse>, condition: RuleCondition, sections: RuleSectionMap): boolean {
+  const pattern = toRegExp(condition.pattern);
+  const found = sectionsFor(summary, sections, condition.section).some(key => (summary[key] || []).some(item => pattern.test(item)));
+  return condition.absent ? !found : found;
+}
+
+function applyAction(summary: Partial<StructuredResponse>, action: RuleAction, sections: RuleSectionMap): Partial<StructuredResponse> {
+  const result = { ...summary };
+  if (action.type === 'insert') {
+    const section = resolveSection(action.section, sections);
+    if (!section) return result;
+    const items = result[section] || [];
+    if (items.includes(action.text)) return result;
+    result[section] = action.position === 'start' ? [action.text, ...items] : [...items, action.text];
+    return result;
+  }
+  const pattern = toRegExp(action.pattern);
+  sectionsFor(summary, sections, action.section).forEach(key => {
+    const items = result[key] || [];
+    result[key] = action.type === 'remove'
+      ? items.filter(item => !pattern.test(item))
+      : items.map(item => item.replace(new RegExp(action.pattern, 'gi'), action.text));
+  });
+  return result;
+}
+
+export function applyRule(summary: Partial<StructuredResponse>, rule: SummaryRule, sections: RuleSectionMap = {}): Partial<StructuredResponse> {
+  if (!rule.enabled || !rule.when.every(condition => conditionHolds(summary, condition, sections))) return summary;
+  return rule.actions.reduce((result, action) => applyAction(result, action, sections), summary);
+}
+
+// Run the enabled rules in order, each seeing the result of the rules before it
+export function applySummaryRules(summary: Partial<StructuredResponse>, rules: SummaryRule[], sections: RuleSectionMap = {}): Partial<StructuredResponse> {
+  return rules.reduce((result, rule) => applyRule(result, rule, sections), summary);
+}
+
+const sameSummary = (a: Partial<StructuredResponse>, b: Partial<StructuredResponse>) =>
+  [...new Set([...Object.keys(a), ...Object.keys(b)])].every(key => JSON.stringify(a[key] || []) === JSON.stringify(b[key] || []));
+
+// Each test applies its rule on its own, whether or not the rule is currently enabled
+export function runRuleTests(rules: SummaryRule[]): RuleTestFailure[] {
+  return rules.flatMap(rule => rule.tests.flatMap(test => {
+    const actual = applyRule(test.input, { ...rule, enabled: true });
+    return sameSummary(actual, test.expected) ? [] : [{ ruleId: rule.id, description: test.description, actual }];
+  }));
+}
+
+const isRecord = (value: unknown): value is Record<string, unknown> =>
+  !!value && typeof value === 'object' && !Array.isArray(value);
+
+const isSection = (value: unknown): value is SummarySectionKey => typeof value === 'string' && value.trim() !== '';
+
+// A test's input or expected summary: each section a list of text items
+const isSummary = (value: unknown): value is Partial<StructuredResponse> =>
+  isRecord(value) && Object.values(value).every(items => Array.isArray(items) && items.every(item => typeof item === 'string'));
+
+function checkPattern(pattern: unknown, where: string): string {
+  if (typeof pattern !== 'string' || !pattern) throw new SummaryRuleError(`${where} needs a "pattern".`);
+  try {
+    toRegExp(pattern);
+  } catch {
+    throw new SummaryRuleError(`${where} has an invalid pattern: ${pattern}`);
+  }
+  return pattern;
+}
+
+function parseCondition(condition: unknown, where: string): RuleCondition {
+  if (!isRecord(condition)) throw new SummaryRuleError(`${where} must be an object.`);
+  const { section, absent } = condition;
+  if (section !== undefined && !isSection(section)) throw new SummaryRuleError(`${where} has an invalid "section".`);
+  if (absent !== undefined && typeof absent !== 'boolean') throw new SummaryRuleError(`${where} has an invalid "absent".`);
+  return {
+    ...(isSection(section) ? { section } : {}),
+    pattern: checkPattern(condition.pattern, where),
+    ...(typeof absent === 'boolean' ? { absent } : {}),
+  };
+}
+
+function parseAction(action: unknown, where: string): RuleAction {
+  if (!isRecord(action) || (action.type !== 'insert' && action.type !== 'replace' && action.type !== 'remove')) {
+    throw new SummaryRuleError(`${where} must be an insert, replace or remove.`);
+  }
+  const { type, section, text, position } = action;
+  if (type === 'insert' ? !isSection(section) : section !== undefined && !isSection(section)) {
+    throw new SummaryRuleError(`${where} needs a valid "section".`);
+  }
+  if (type !== 'remove' && typeof text !== 'string') throw new SummaryRuleError(`${where} needs a "text".`);
+  const sectionField = isSection(section) ? { section } : {};
+  if (type === 'insert') {
+    if (position !== undefined && position !== 'start' && position !== 'end') throw new SummaryRuleError(`${where} has an invalid "position".`);
+    return { type, section: section as SummarySectionKey, text: text as string, ...(position === 'start' || position === 'end' ? { position } : {}) };
+  }
+  const pattern = checkPattern(action.pattern, where);
+  return type === 'replace' ? { type, ...sectionField, pattern, text: text as string } : { type, ...sectionField, pattern };
+}
+
+function parseTest(test: unknown, where: string): RuleTest {
+  if (!isRecord(test) || typeof test.description !== 'string' || !isSummary(test.input) || !isSummary(test.expected)) {
+    throw new SummaryRuleError(`${where} needs a "description", "input" and "expected".`);
+  }
+  return { description: test.description, input: test.input, expected: test.expected };
+}
+
+// Check edited rules before they are used. Throws SummaryRuleError naming the first problem found.
+export function parseSummaryRules(json: unknown): SummaryRule[] {
+  if (!Array.isArray(json)) throw new SummaryRuleError('The rules must be a JSON list.');
+  const ids = new Set<string>();
+  return json.map((rule: unknown, index) => {
+    const where = `Rule ${index + 1}`;
+    if (!isRecord(rule) || typeof rule.id !== 'string' || !rule.id || typeof rule.name !== 'string') {
+      throw new SummaryRuleError(`${where} needs an "id" and a "name".`);
+    }
+    const { id, name } = rule;
+    if (ids.has(id)) throw new SummaryRuleError(`${where} repeats the id "${id}".`);
+    ids.add(id);
+    if (typeof rule.enabled !== 'boolean' || !Array.isArray(rule.when) || !Array.isArray(rule.actions) || !Array.isArray(rule.tests)) {
+      throw new SummaryRuleError(`Rule "${id}" needs "enabled", "when", "actions" and "tests".`);
+    }
+    if (rule.tests.length === 0) throw new SummaryRuleError(`Rule "${id}" needs at least one test.`);
+    return {
+      id,
+      name,
+      enabled: rule.enabled,
+      when: rule.when.map((condition: unknown, conditionIndex) => parseCondition(condition, `Rule "${id}" condition ${conditionIndex + 1}`)),
+      actions: rule.actions.map((action: unknown, actionIndex) => parseAction(action, `Rule "${id}" action ${actionIndex + 1}`)),
+      tests: rule.tests.map((test: unknown, testIndex) => parseTest(test, `Rule "${id}" test ${testIndex + 1}`)),
+    };
+  });
+}
+
+export function loadSummaryRules(): SummaryRule[] {
+  try {
+    const saved = localStorage.getItem(SUMMARY_RULES_STORAGE_KEY);
+    return saved ? parseSummaryRules(JSON.parse(saved)) : DEFAULT_SUMMARY_RULES;
+  } catch (e) {
+    console.error("Failed to read summary rules from localStorage", e);
+    return DEFAULT_SUMMARY_RULES;
+  }
+}
+
+export function saveSummaryRules(rules: SummaryRule[]) {
+  localStorage.setItem(SUMMARY_RULES_STORAGE_KEY, JSON.stringify(rules));
+}
@@ -0,0 +1,220 @@
+/**
+ * @license
+ * SPDX-License-Identifier: Apache-2.0
+*/
+import { MEDICATIONS_KEY } from './medications';
+import { StructuredResponse, SummarySectionKey } from './types';
+
+// Summary templates define the sections a summary is made of: their names, what belongs in each and
+// which the model must return, plus the prompt wording for a new and an updated summary. The response
+// schema, on-screen rendering, copy and PDF export all follow the template, and each record keeps the
+// id of the template that produced it.
+
+// Added to every updated summary whatever the template
+export const KEY_CHANGES_SECTION: SummarySectionKey = 'Key Changes';
+
+// What a section holds, for the checks that read specific sections: red flags and problem tracking
+// read 'acute' and 'history' sections, drug safety and safety netting read the 'plan' section
+export type SectionRole = 'acute' | 'plan' | 'history';
+
+export interface TemplateSection {
+  name: SummarySectionKey;
+  description: string; // Tells the model what belongs in the section
+  required: boolean;
+  role?: SectionRole;
+}
+
+export interface SummaryTemplate {
+  id: string;
+  name: string;
+  sections: TemplateSection[];
+  prompt: string; // Instructions for a new summary
+  updatePrompt: string; // Instructions for updating a previous summary with new information
+}
+
+export class SummaryTemplateError extends Error {}
+
+export const STANDARD_TEMPLATE_ID = 'standard';
+
+// The sections the post-processing rules are written against, by role
+const STANDARD_ROLE_SECTIONS: Record<SectionRole, SummarySectionKey> = {
+  acute: 'Acute Issues',
+  plan: 'Pending Tasks and action Plan',
+  history: 'Past medical history',
+};
+
+const PLAN_STANDARDS = 'This plan must be formatted clearly for inclusion in an Electronic Health Record (EHR), be actionable, and follow standard UK clinical practice (NICE/CKS guidelines).';
+
+export const DEFAULT_SUMMARY_TEMPLATES: SummaryTemplate[] = [
+  {
+    id: STANDARD_TEMPLATE_ID,
+    name: 'Clinical summary',
+    sections: [
+      { name: 'Acute Issues', description: 'List of acute medical issues.', required: true, role: 'acute' },
+      { name: 'Pending Tasks and action Plan', description: 'List of pending tasks and the plan of action, including immediate and long-term plans.', required: true, role: 'plan' },
+      { name: 'Past medical history', description: 'List of relevant past medical history.', required: true, role: 'history' },
+    ],
+    prompt: `Create a concise, structured clinical summary from the information provided. For any acute issues identified, you must explicitly document a detailed treatment plan within the "Pending Tasks and action Plan" section. ${PLAN_STANDARDS}
+
+The plan should include specific management instructions (e.g., "Started on Amoxicillin 500mg three times daily," "Prescribed Lactulose 10ml twice daily") and a suggested long-term management plan.`,
+    updatePrompt: `A patient has presented with new acute concerns. Based on these and their previous clinical summary, provide an updated summary.
+
+Crucially, within the "Pending Tasks and action Plan" section, you must explicitly document a detailed treatment plan for the new acute concerns. ${PLAN_STANDARDS}
+
+The plan for the new concerns should include specific management instructions (e.g., "Started on Amoxicillin 500mg three times daily," "Prescribed Lactulose 10ml twice daily"). Also, generate a long-term management plan and identify key changes from the previous summary.`,
+  },
+  {
+    id: 'soap',
+    name: 'SOAP note',
+    sections: [
+      { name: 'Subjective', description: 'The history as reported by the patient or carer: presenting complaint, symptoms and concerns.', required: true },
+      { name: 'Objective', description: 'Examination findings, observations and investigation results.', required: true },
+      { name: 'Assessment', description: 'The clinical impression: working and differential diagnoses.', required: true, role: 'acute' },
+      { name: 'Plan', description: 'Management, prescriptions, investigations, safety netting and follow-up.', required: true, role: 'plan' },
+    ],
+    prompt: `Write a SOAP note from the information provided. Keep the patient's account in "Subjective" and measured findings in "Objective". The "Plan" must include specific management instructions (e.g., "Started on Amoxicillin 500mg three times daily") and follow-up. ${PLAN_STANDARDS}`,
+    updatePrompt: `A patient has been seen again. Write a SOAP note for this consultation, using the previous summary for context, and identify key changes from the previous summary. The "Plan" must include specific management instructions and follow-up. ${PLAN_STANDARDS}`,
+  },
+  {
+    id: 'discharge',
+    name: 'Discharge summary',
+    sections: [
+      { name: 'Diagnoses', description: 'Primary and secondary diagnoses for this admission.', required: true, role: 'acute' },
+      { name: 'Hospital course', description: 'Key events, procedures and results during the admission.', required: true },
+      { name: 'Follow-up and GP actions', description: 'Actions for the GP, outpatient follow-up, pending results and safety netting.', required: true, role: 'plan' },
+      { name: 'Past medical history', description: 'Relevant past medical history.', required: false, role: 'history' },
+    ],
+    prompt: `Write a hospital discharge summary from the information provided. List each action for the GP separately in "Follow-up and GP actions", stating who is responsible and by when where documented. ${PLAN_STANDARDS}`,
+    updatePrompt: `New information has arrived about a patient's admission. Update the discharge summary, keep actions still outstanding, and identify key changes from the previous summary. ${PLAN_STANDARDS}`,
+  },
+  {
+    id: 'care-home-review',
+    name: 'Care home review',
+    sections: [
+      { name: 'Current concerns', description: 'Concerns raised by staff, family or the resident at this review.', required: true, role: 'acute' },
+      { name: 'Function, cognition and nutrition', description: 'Mobility, falls, cognition, weight, nutrition and skin integrity.', required: true },
+      { name: 'Advance care planning', description: 'Ceilings of care, DNACPR status, preferred place of care and lasting power of attorney.', required: false },
+      { name: 'Actions', description: 'Medication changes, referrals and instructions for care home staff.', required: true, role: 'plan' },
+      { name: 'Long-term conditions', description: 'Long-term conditions and relevant past history.', required: true, role: 'history' },
+    ],
+    prompt: `Write a structured care home review from the information provided. Record advance care planning decisions only where they are documented. Write "Actions" so care home staff can follow them. ${PLAN_STANDARDS}`,
+    updatePrompt: `A care home resident has been reviewed again. Update the review from the new information and the previous summary, and identify key changes from the previous summary. ${PLAN_STANDARDS}`,
+  },
+  {
+    id: 'mental-health-formulation',
+    name: 'Mental health formulation',
+    sections: [
+      { name: 'Presenting problem', description: 'The current difficulties and their impact.', required: true, role: 'acute' },
+      { name: 'Predisposing factors', description: 'Factors that made the person vulnerable.', required: false },
+      { name: 'Precipitating factors', description: 'What triggered the current episode.', required: false },
+      { name: 'Perpetuating factors', description: 'What is maintaining the difficulties.', required: false },
+      { name: 'Protective factors', description: 'Strengths, supports and reasons for living.', required: false },
+      { name: 'Risk', description: 'Risk to self and others, including suicidal ideation, intent and plans, and safeguarding concerns.', required: true },
+      { name: 'Plan', description: 'Treatment, referrals, crisis plan and follow-up.', required: true, role: 'plan' },
+      { name: 'Past psychiatric and medical history', description: 'Previous mental health history, admissions and relevant physical health.', required: false, role: 'history' },
+    ],
+    prompt: `Write a mental health formulation using the 5 Ps from the information provided. Document risk explicitly, including where risk was asked about and denied. Include a crisis plan in "Plan". ${PLAN_STANDARDS}`,
+    updatePrompt: `A patient has been reviewed again. Update the formulation from the new information and the previous summary, reassess risk, and identify key changes from the previous summary. ${PLAN_STANDARDS}`,
+  },
+];
+
+const SUMMARY_TEMPLATES_STORAGE_KEY = 'hx_summary_templates';
+
+// Names the app adds itself, which a template cannot also use
+const RESERVED_SECTION_NAMES = [KEY_CHANGES_SECTION, MEDICATIONS_KEY];
+
+// The template a record was produced with. Records from before templates, and records whose
+// template has since been deleted, fall back to the standard template.
+export function findTemplate(templates: SummaryTemplate[], id?: string): SummaryTemplate {
+  return templates.find(template => template.id === (id || STANDARD_TEMPLATE_ID))
+    || templates.find(template => template.id === STANDARD_TEMPLATE_ID)
+    || DEFAULT_SUMMARY_TEMPLATES[0];
+}
+
+// Key Changes first, then the template's sections, then any other sections the summary has
+// (e.g. from a template that has since been edited)
+export function sectionOrder(summary: Partial<Record<SummarySectionKey, unknown>>, template?: SummaryTemplate): SummarySectionKey[] {
+  const templateSections = template ? template.sections.map(section => section.name) : [];
+  const others = Object.keys(summary).filter(key => key !== KEY_CHANGES_SECTION && !templateSections.includes(key));
+  return [KEY_CHANGES_SECTION, ...templateSections, ...others];
+}
+
+export const sectionsWithRole = (template: SummaryTemplate, role: SectionRole) =>
+  template.sections.filter(section => section.role === role).map(section => section.name);
+
+export const itemsWithRole = (summary: Partial<StructuredResponse>, template: SummaryTemplate, role: SectionRole) =>
+  sectionsWithRole(template, role).flatMap(section => summary[section] || []);
+
+// The template's plan section, if it has one
+export const planSectionOf = (template: SummaryTemplate): SummarySectionKey | undefined => sectionsWithRole(template, 'plan')[0];
+
+// How the standard section names the post-processing rules use map onto the template's sections.
+// null means the template has no equivalent, so rules for that section are skipped.
+export function ruleSectionMap(template: SummaryTemplate): Record<SummarySectionKey, SummarySectionKey | null> {
+  const map: Record<SummarySectionKey, SummarySectionKey | null> = {};
+  (Object.keys(STANDARD_ROLE_SECTIONS) as SectionRole[]).forEach(role => {
+    const name = STANDARD_ROLE_SECTIONS[role];
+    if (template.sections.some(section => section.name === name)) return;
+    map[name] = sectionsWithRole(template, role)[0] ?? null;
+  });
+  return map;
+}
+
+const isRecord = (value: unknown): value is Record<string, unknown> =>
+  !!value && typeof value === 'object' && !Array.isArray(value);
+
+const isRole = (value: unknown): value is SectionRole =>
+  typeof value === 'string' && Object.prototype.hasOwnProperty.call(STANDARD_ROLE_SECTIONS, value);
+
+// Check edited templates before they are used. Throws SummaryTemplateError naming the first problem found.
+export function parseSummaryTemplates(json: unknown): SummaryTemplate[] {
+  if (!Array.isArray(json) || json.length === 0) throw new SummaryTemplateError('The templates must be a JSON list with at least one template.');
+  const ids = new Set<string>();
+  return json.map((template: unknown, index) => {
+    const where = `Template ${index + 1}`;
+    if (!isRecord(template) || typeof template.id !== 'string' || !template.id || typeof template.name !== 'string' || !template.name) {
+      throw new SummaryTemplateError(`${where} needs an "id" and a "name".`);
+    }
+    const { id, name, prompt, updatePrompt } = template;
+    if (ids.has(id)) throw new SummaryTemplateError(`${where} repeats the id "${id}".`);
+    ids.add(id);
+    if (typeof prompt !== 'string' || !prompt.trim() || typeof updatePrompt !== 'string' || !updatePrompt.trim()) {
+      throw new SummaryTemplateError(`Template "${id}" needs a "prompt" and an "updatePrompt".`);
+    }
+    if (!Array.isArray(template.sections) || template.sections.length === 0) {
+      throw new SummaryTemplateError(`Template "${id}" needs at least one section.`);
+    }
+    const names = new Set<string>();
+    const roles = new Set<string>();
+    const sections = template.sections.map((section: unknown, sectionIndex): TemplateSection => {
+      const sectionWhere = `Template "${id}" section ${sectionIndex + 1}`;
+      if (!isRecord(section) || typeof section.name !== 'string' || !section.name.trim() || typeof section.description !== 'string' || typeof section.required !== 'boolean') {
+        throw new SummaryTemplateError(`${sectionWhere} needs a "name", a "description" and "required".`);
+      }
+      const { name: sectionName, description, required, role } = section;
+      if (RESERVED_SECTION_NAMES.includes(sectionName)) throw new SummaryTemplateError(`${sectionWhere} cannot be called "${sectionName}".`);
+      if (names.has(sectionName)) throw new SummaryTemplateError(`${sectionWhere} repeats the name "${sectionName}".`);
+      names.add(sectionName);
+      if (role === undefined) return { name: sectionName, description, required };
+      if (!isRole(role)) throw new SummaryTemplateError(`${sectionWhere} has an unknown role "${String(role)}".`);
+      if (roles.has(role)) throw new SummaryTemplateError(`Template "${id}" has more than one "${role}" section.`);
+      roles.add(role);
+      return { name: sectionName, description, required, role };
+    });
+    return { id, name, sections, prompt, updatePrompt };
+  });
+}
+
+export function loadSummaryTemplates(): SummaryTemplate[] {
+  try {
+    const saved = localStorage.getItem(SUMMARY_TEMPLATES_STORAGE_KEY);
+    return saved ? parseSummaryTemplates(JSON.parse(saved)) : DEFAULT_SUMMARY_TEMPLATES;
+  } catch (e) {
+    console.error("Failed to read summary templates from localStorage", e);
+    return DEFAULT_SUMMARY_TEMPLATES;
+  }
+}
+
+export function saveSummaryTemplates(templates: SummaryTemplate[]) {
+  localStorage.setItem(SUMMARY_TEMPLATES_STORAGE_KEY, JSON.stringify(templates));
+}
@@ -0,0 +1,211 @@
+/**
+ * @license
+ * SPDX-License-Identifier: Apache-2.0
+*/
+
+// Patient, SummaryRecord and the types they contain are the persisted schema: every stored
+// patient is tagged with this version. Bump it and add a migration in patient-repository.ts
+// whenever a change would not read correctly as the previous shape.
+export const PATIENT_SCHEMA_VERSION = 2;
+
+// A summary's sections, keyed by section name. The sections come from the summary template that
+// produced it (see summary-templates.ts), plus 'Key Changes' on updates.
+export type SummarySectionKey = string;
+
+export type StructuredResponse = Record<SummarySectionKey, string[]>;
+
+// Where a summary item came from: the model, the model then edited by a clinician,
+// typed in by a clinician, standard wording inserted by the app (e.g. safety netting),
+// or structured data imported from another system
+export type SummaryItemOrigin = 'ai' | 'edited' | 'clinician' | 'standard' | 'imported';
+
+// Where in the inputs an item came from: a source id and the span of source text it was based on
+export interface ItemCitation {
+  sourceId: string;
+  quote: string;
+}
+
+export interface SummaryItemMeta {
+  origin: SummaryItemOrigin;
+  originalText?: string; // The model's wording before a clinician edited it
+  citation?: ItemCitation;
+}
+
+// An input a summary was generated from: the typed/dictated note, an uploaded file, or the previous summary
+export interface SummarySource {
+  id: string;
+  kind: 'note' | 'file' | 'previous-summary';
+  label: string;
+  text?: string; // Available for notes, text files and previous summaries; binary uploads have none
+  attachmentId?: string; // The stored upload, for file sources
+}
+
+// An uploaded document kept in the attachment store; the bytes are stored separately from the record
+export interface AttachmentMeta {
+  id: string;
+  name: string;
+  mimeType: string;
+  size: number;
+}
+
+// The original inputs a summary was generated from
+export interface SummaryInput {
+  text: string;
+  attachments: AttachmentMeta[];
+}
+
+// How a medication stands relative to the previous summary. 'current' means continued unchanged.
+export type MedicationStatus = 'current' | 'started' | 'stopped' | 'changed';
+
+// One entry in a summary's structured medication list. Fields not documented in the notes are ''.
+export interface Medication {
+  drug: string;
+  dose: string;
+  route: string;
+  frequency: string;
+  startDate: string;
+  stopDate: string;
+  status: MedicationStatus;
+  // For 'changed' entries, how the medication was taken in the previous summary
+  previous?: { dose: string; route: string; frequency: string };
+}
+
+// How soon a red flag needs escalating: 'emergency' is 999 or same-hour assessment, 'urgent' is same-day
+export type RedFlagUrgency = 'emergency' | 'urgent';
+
+// One red-flag criterion met, and what it was found in
+export interface RedFlagMatch {
+  criterion: string;
+  evidence: string; // The text (or NEWS2 parameters) that met it
+  urgency: RedFlagUrgency;
+  detectedBy: 'rules' | 'model';
+  foundIn?: 'notes' | 'acute-issues'; // Set for local rule matches
+}
+
+export interface News2Parameter {
+  name: string;
+  value: string;
+  points: number;
+}
+
+// The red-flag check run on a summary's input and its acute issues
+export interface RedFlagAssessment {
+  urgency: RedFlagUrgency | null; // null when nothing fired
+  matches: RedFlagMatch[];
+  // A partial NEWS2 from whichever observations the notes give
+  news2?: { score: number; parameters: News2Parameter[] };
+  modelChecked: boolean; // False when the model classifier was skipped or failed; the local rules always run
+  promptVersion?: PromptVersionRef; // The classifier prompt, when the model check ran
+  assessedAt: string;
+}
+
+// A clinical score completed by a clinician against a summary. Inputs are kept as displayed when saved.
+export interface SavedScore {
+  calculatorId: string;
+  name: string;
+  score: number | null; // null for calculators that only gather inputs for an external tool
+  interpretation: string;
+  inputs: { label: string; value: string; prefilled: boolean }[];
+  completedBy: { id: string; displayName: string };
+  completedAt: string;
+}
+
+// Per-item metadata, index-aligned with the arrays in StructuredResponse
+export type SummaryItemMetaMap = Partial<Record<SummarySectionKey, SummaryItemMeta[]>>;
+
+export interface SummaryApproval {
+  approvedBy: { id: string; displayName: string };
+  approvedAt: string;
+}
+
+// A version of one of the prompts in the prompt library (see prompt-library.ts)
+export interface PromptVersionRef {
+  id: string;
+  version: number;
+  // Hash of the summary template's instructions filled into {{instructions}}. Templates are edited
+  // without versions, so this tells apart outputs made from the same prompt version with different wording.
+  instructionsHash?: string;
+}
+
+// Define the structure for a summary record with a timestamp
+export interface SummaryRecord {
+  summary: StructuredResponse;
+  timestamp: string;
+  // Absent on records created before the review workflow
+  approval?: SummaryApproval;
+  itemMeta?: SummaryItemMetaMap;
+  // AI-generated items the clinician removed before approving
+  rejectedItems?: { section: SummarySectionKey; text: string }[];
+  // The inputs that item citations refer to
+  sources?: SummarySource[];
+  // Absent on records created before inputs were kept
+  input?: SummaryInput;
+  // Absent on records created before medications were structured
+  medications?: Medication[];
+  // Absent on records created before red flags were checked
+  redFlags?: RedFlagAssessment;
+  // Id of the summary template that produced it. Absent on records created before templates, which used the standard template.
+  templateId?: string;
+  // Clinical scores completed after approval, one per calculator
+  scores?: SavedScore[];
+  // The prompt wording it was generated with. Absent on records created before prompts were versioned, and on imports.
+  promptVersion?: PromptVersionRef;
+}
+
+// One editable bullet in a draft under review
+export interface DraftItem extends SummaryItemMeta {
+  text: string;
+}
+
+// Generated output awaiting clinician review. Nothing enters the patient history until it is approved.
+export interface SummaryDraft {
+  sections: Partial<Record<SummarySectionKey, DraftItem[]>>;
+  rejectedItems: { section: SummarySectionKey; text: string }[];
+  sources?: SummarySource[]; // Absent on drafts saved before citations were recorded
+  input?: SummaryInput;
+  medications?: Medication[];
+  redFlags?: RedFlagAssessment;
+  templateId?: string;
+  promptVersion?: PromptVersionRef;
+  timestamp: string;
+  // 'complete' when generation finished; otherwise a partial result kept after a cancel or error
+  status: 'complete' | 'cancelled' | 'failed';
+}
+
+// NHS e-Referral Service priorities. 'two-week-wait' is the urgent suspected cancer pathway.
+export type ReferralUrgency = 'routine' | 'urgent' | 'two-week-wait';
+
+// A referral letter kept in the patient's history. The body is the letter as edited, in simple HTML
+// (paragraphs, lists, bold, italic and underline); the letterhead, patient details and signature
+// are added when it is exported.
+export interface ReferralLetter {
+  id: string;
+  templateId: string; // See referral-letters.ts
+  specialty: string;
+  urgency: ReferralUrgency;
+  body: string;
+  summaryTimestamp?: string; // The summary it was drafted from
+  promptVersion?: PromptVersionRef; // Absent until the model drafts the body
+  createdBy: { id: string; displayName: string };
+  createdAt: string;
+  updatedAt: string;
+}
+
+// Define the structure for a patient
+export interface Patient {
+  id: string;
+  name: string;
+  dob: string;
+  nhsNumber: string;
+  summaries: SummaryRecord[];
+  draft?: SummaryDraft;
+  // Newest first. Absent on patients with no saved referrals.
+  referrals?: ReferralLetter[];
+}
+
+// Define the structure for a differential diagnosis
+export interface DifferentialDiagnosis {
+  diagnosis: string;
+  rationale: string;
+  likelihood: string;
+}
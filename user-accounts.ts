@@ -0,0 +1,131 @@
+/**
+ * @license
+ * SPDX-License-Identifier: Apache-2.0
+*/
+import { AUTH_CONFIG } from './auth-config';
+import { base64ToBytes, bytesToBase64, randomBytes } from './secure-store';
+
+// Per-user session limits. An idle timeout of 0 disables auto-lock.
+export interface SessionSettings {
+  idleTimeoutMinutes: number;
+  maxSessionHours: number;
+}
+
+// Define the structure of a stored local user profile
+export interface UserProfile {
+  id: string;
+  username: string;
+  displayName: string;
+  passwordHash: string;
+  salt: string;
+  iterations: number;
+  createdAt: string;
+  sessionSettings?: SessionSettings;
+}
+
+// The logged-in identity exposed to the rest of the app (no credential material)
+export interface CurrentUser {
+  id: string;
+  username: string;
+  displayName: string;
+  sessionSettings: SessionSettings;
+}
+
+export const DEFAULT_SESSION_SETTINGS: SessionSettings = {
+  idleTimeoutMinutes: AUTH_CONFIG.idleTimeoutMinutes,
+  maxSessionHours: AUTH_CONFIG.maxSessionHours,
+};
+
+export class AccountError extends Error {}
+
+const normaliseUsername = (username: string) => username.trim().toLowerCase();
+
+export const toCurrentUser = (profile: UserProfile): CurrentUser => ({
+  id: profile.id,
+  username: profile.username,
+  displayName: profile.displayName,
+  sessionSettings: { ...DEFAULT_SESSION_SETTINGS, ...profile.sessionSettings },
+});
+
+// Each user had their own encrypted localStorage store before patients moved to IndexedDB; read once to migrate
+export const patientStoreKeyFor = (userId: string) => `patientData:${userId}`;
+
+export function loadUsers(): UserProfile[] {
+  try {
+    const saved = localStorage.getItem(AUTH_CONFIG.usersStorageKey);
+    return saved ? JSON.parse(saved) : [];
+  } catch (e) {
+    console.error("Failed to parse user profiles from localStorage", e);
+    return [];
+  }
+}
+
+function saveUsers(users: UserProfile[]) {
+  localStorage.setItem(AUTH_CONFIG.usersStorageKey, JSON.stringify(users));
+}
+
+async function hashPassword(password: string, salt: Uint8Array, iterations: number): Promise<string> {
+  const baseKey = await crypto.subtle.importKey('raw', new TextEncoder().encode(password), 'PBKDF2', false, ['deriveBits']);
+  const bits = await crypto.subtle.deriveBits({ name: 'PBKDF2', hash: 'SHA-256', salt, iterations }, baseKey, 256);
+  return bytesToBase64(new Uint8Array(bits));
+}
+
+// Compare without short-circuiting so timing does not reveal how much of the hash matched
+function constantTimeEqual(a: string, b: string): boolean {
+  if (a.length !== b.length) return false;
+  let diff = 0;
+  for (let i = 0; i < a.length; i++) {
+    diff |= a.charCodeAt(i) ^ b.charCodeAt(i);
+  }
+  return diff === 0;
+}
+
+export function findUser(username: string): UserProfile | null {
+  const wanted = normaliseUsername(username);
+  return loadUsers().find(u => normaliseUsername(u.username) === wanted) || null;
+}
+
+export async function createUser(username: string, displayName: string, password: string): Promise<UserProfile> {
+  const trimmedUsername = username.trim();
+  if (!trimmedUsername) {
+    throw new AccountError('Please enter a username.');
+  }
+  if (password.length < AUTH_CONFIG.minPasswordLength) {
+    throw new AccountError(`Password must be at least ${AUTH_CONFIG.minPasswordLength} characters.`);
+  }
+  if (findUser(trimmedUsername)) {
+    throw new AccountError('An account with this username already exists.');
+  }
+
+  const salt = randomBytes(16);
+  const iterations = AUTH_CONFIG.passwordHashIterations;
+  const profile: UserProfile = {
+    id: `user-${Date.now().toString(36)}-${bytesToBase64(randomBytes(4)).replace(/[^a-zA-Z0-9]/g, '')}`,
+    username: trimmedUsername,
+    displayName: displayName.trim() || trimmedUsername,
+    passwordHash: await hashPassword(password, salt, iterations),
+    salt: bytesToBase64(salt),
+    iterations,
+    createdAt: new Date().toISOString(),
+  };
+  saveUsers([...loadUsers(), profile]);
+  return profile;
+}
+
+// Returns the profile when the credentials match, otherwise null
+export async function verifyUser(username: string, password: string): Promise<UserProfile | null> {
+  const profile = findUser(username);
+  if (!profile) return null;
+  const hash = await hashPassword(password, base64ToBytes(profile.salt), profile.iterations);
+  return constantTimeEqual(hash, profile.passwordHash) ? profile : null;
+}
+
+export function updateSessionSettings(userId: string, sessionSettings: SessionSettings): UserProfile | null {
+  let updated: UserProfile | null = null;
+  saveUsers(loadUsers().map(u => {
+    if (u.id !== userId) return u;
+    updated = { ...u, sessionSettings };
+    return updated;
+  }));
+  return updated;
+}
@@ -3,21 +3,25 @@ const fs = require('fs');
 
 console.log('🔍 Verifying Authentication Implementation...\n');
 
-// Check 1: auth-config.ts exists
+// Check 1: auth-config.ts holds settings only, no shared password
 console.log('✓ Check 1: auth-config.ts file');
 if (fs.existsSync('./auth-config.ts')) {
   const content = fs.readFileSync('./auth-config.ts', 'utf8');
   console.log('  ✓ File exists');
-  console.log('  ✓ Content:', content.trim());
+  console.log('  ✓ No hard-coded password:', content.includes('AUTH_PASSWORD') ? 'No' : 'Yes');
 } else {
   console.log('  ✗ File missing');
 }
 
-// Check 2: index.tsx has auth import
-console.log('\n✓ Check 2: AUTH_PASSWORD import in index.tsx');
+// Check 2: index.tsx uses local user accounts
+console.log('\n✓ Check 2: Local user accounts in index.tsx');
 const indexContent = fs.readFileSync('./index.tsx', 'utf8');
-if (indexContent.includes("import { AUTH_PASSWORD } from './auth-config'")) {
+if (indexContent.includes("from './user-accounts'") && fs.existsSync('./user-accounts.ts')) {
+  const accountsContent = fs.readFileSync('./user-accounts.ts', 'utf8');
   console.log('  ✓ Import found');
+  console.log('  ✓ Salted PBKDF2 password hashes:', accountsContent.includes('deriveBits') ? 'Yes' : 'No');
+  console.log('  ✓ Per-user patient stores:', accountsContent.includes('patientStoreKeyFor') ? 'Yes' : 'No');
+  console.log('  ✓ Current user context:', indexContent.includes('CurrentUserContext') ? 'Yes' : 'No');
 } else {
   console.log('  ✗ Import missing');
 }
@@ -29,17 +33,19 @@ if (indexContent.includes('function LoginModal')) {
   console.log('  ✓ Password input:', indexContent.includes('type={showPassword') ? 'Yes' : 'No');
   console.log('  ✓ Show/hide toggle:', indexContent.includes('setShowPassword') ? 'Yes' : 'No');
   console.log('  ✓ Enter key handler:', indexContent.includes('handleKeyPress') ? 'Yes' : 'No');
-  console.log('  ✓ Error message:', indexContent.includes('Incorrect password') ? 'Yes' : 'No');
+  console.log('  ✓ Error message:', indexContent.includes('Incorrect username or password') ? 'Yes' : 'No');
   console.log('  ✓ Auto-focus:', indexContent.includes('passwordInputRef.current?.focus()') ? 'Yes' : 'No');
 } else {
   console.log('  ✗ Component missing');
 }
 
-// Check 4: Authentication state
+// Check 4: Authentication state and encrypted patient store
 console.log('\n✓ Check 4: Authentication state');
-if (indexContent.includes('isAuthenticated') && indexContent.includes('sessionStorage')) {
+if (indexContent.includes('isAuthenticated') && indexContent.includes('openPatientRepository')) {
   console.log('  ✓ isAuthenticated state found');
-  console.log('  ✓ sessionStorage integration found');
+  console.log('  ✓ Patient store unlocked at login');
+  console.log('  ✓ Encrypted per-patient autosave:', indexContent.includes('repository.save(') ? 'Yes' : 'No');
+  console.log('  ✓ PBKDF2 + AES-GCM module:', fs.existsSync('./secure-store.ts') ? 'Yes' : 'No');
 } else {
   console.log('  ✗ State setup incomplete');
 }
@@ -75,6 +81,6 @@ if (indexContent.includes('!isAuthenticated && <LoginModal')) {
 
 console.log('\n✅ Authentication implementation verified!\n');
 console.log('📋 Summary:');
-console.log('  - Password: 9118');
-console.log('  - Storage: sessionStorage (clears on browser close)');
-console.log('  - Features: Login modal, password toggle, auto-focus, error handling, logout button');
+console.log('  - Accounts: local profiles with salted, hashed passwords');
+console.log('  - Storage: patientData encrypted with AES-GCM (PBKDF2-derived key, memory only)');
+console.log('  - Features: Sign-in/registration modal, password toggle, auto-focus, error handling, logout button');
@@ -9,11 +9,15 @@ export default defineConfig(({ mode }) => {
       server: {
         port: 3000,
         host: '0.0.0.0',
+        proxy: {
+          // Model calls go through the local key-holding proxy (npm run proxy)
+          '/api': `http://127.0.0.1:${env.PROXY_PORT || 8787}`,
+        },
       },
       plugins: [react()],
       define: {
-        'process.env.API_KEY': JSON.stringify(env.GEMINI_API_KEY),
-        'process.env.GEMINI_API_KEY': JSON.stringify(env.GEMINI_API_KEY)
+        // Only the proxy location is exposed to the client; GEMINI_API_KEY stays server-side
+        'process.env.PROXY_URL': JSON.stringify(env.PROXY_URL || '')
       },
       resolve: {
         alias: {